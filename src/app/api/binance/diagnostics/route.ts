@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getBinanceWeightUsage } from "../../../../server/binanceClient";
+import { getStreamHubStats } from "../../../../server/binanceStreamHub";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({
+    weight: getBinanceWeightUsage(),
+    streams: getStreamHubStats(),
+  });
+}
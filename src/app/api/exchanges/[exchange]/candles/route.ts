@@ -0,0 +1,18 @@
+import type { NextRequest } from "next/server";
+import { toErrorResponse } from "../../../../../server/apiSchema";
+import {
+  handleCandlesRequest,
+  resolveExchangeAdapter,
+  type ExchangeRouteContext,
+} from "../../../../../server/exchangeRoutes";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest, context: ExchangeRouteContext) {
+  try {
+    const adapter = await resolveExchangeAdapter(context);
+    return handleCandlesRequest(request, adapter);
+  } catch (error) {
+    return toErrorResponse(error, "Failed to resolve exchange");
+  }
+}
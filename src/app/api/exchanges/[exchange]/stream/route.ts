@@ -0,0 +1,31 @@
+import type { NextRequest } from "next/server";
+import { toErrorResponse } from "../../../../../server/apiSchema";
+import {
+  handleStreamRequest,
+  handleStreamUpdate,
+  resolveExchangeAdapter,
+  type ExchangeRouteContext,
+} from "../../../../../server/exchangeRoutes";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest, context: ExchangeRouteContext) {
+  try {
+    const adapter = await resolveExchangeAdapter(context);
+    return handleStreamRequest(request, adapter);
+  } catch (error) {
+    return toErrorResponse(error, "Failed to resolve exchange");
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: ExchangeRouteContext
+) {
+  try {
+    const adapter = await resolveExchangeAdapter(context);
+    return handleStreamUpdate(request, adapter);
+  } catch (error) {
+    return toErrorResponse(error, "Failed to resolve exchange");
+  }
+}
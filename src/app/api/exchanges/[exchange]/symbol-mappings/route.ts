@@ -0,0 +1,113 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  ApiError,
+  errorResponse,
+  toErrorResponse,
+} from "../../../../../server/apiSchema";
+import {
+  resolveExchangeAdapter,
+  type ExchangeRouteContext,
+} from "../../../../../server/exchangeRoutes";
+import {
+  deleteSymbolMapping,
+  getSymbolMapping,
+  listSymbolMappings,
+  saveSymbolMapping,
+  suggestSymbolMappings,
+} from "../../../../../server/symbolMappings";
+
+export const runtime = "nodejs";
+
+const requireLocalSymbol = (value: string | null | undefined): string => {
+  const localSymbol = value?.trim();
+  if (!localSymbol) {
+    throw new ApiError("MISSING_PARAMETER", "symbol is required", 400);
+  }
+  return localSymbol;
+};
+
+// ?symbol=BTC-KRW 이면 저장된 매핑과 추천 목록, 없으면 저장된 매핑 전체
+export async function GET(request: NextRequest, context: ExchangeRouteContext) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const adapter = await resolveExchangeAdapter(context);
+    const symbol = searchParams.get("symbol");
+
+    if (symbol === null) {
+      return NextResponse.json({
+        mappings: await listSymbolMappings(adapter.id),
+      });
+    }
+
+    const localSymbol = requireLocalSymbol(symbol);
+    const [mapping, suggestions] = await Promise.all([
+      getSymbolMapping(adapter.id, localSymbol),
+      suggestSymbolMappings(adapter, localSymbol),
+    ]);
+
+    return NextResponse.json({ mapping, suggestions });
+  } catch (error) {
+    return toErrorResponse(error, "Failed to load symbol mappings");
+  }
+}
+
+type SymbolMappingBody = {
+  localSymbol?: string;
+  symbol?: string;
+  localQuoteAsset?: string | null;
+};
+
+export async function PUT(request: NextRequest, context: ExchangeRouteContext) {
+  let body: SymbolMappingBody;
+
+  try {
+    body = (await request.json()) as SymbolMappingBody;
+  } catch {
+    return errorResponse(
+      new ApiError("INVALID_PARAMETER", "Request body must be JSON", 400)
+    );
+  }
+
+  try {
+    const adapter = await resolveExchangeAdapter(context);
+    const localSymbol = requireLocalSymbol(body.localSymbol);
+
+    if (!body.symbol?.trim()) {
+      throw new ApiError(
+        "MISSING_PARAMETER",
+        "symbol (exchange market) is required",
+        400
+      );
+    }
+
+    const mapping = await saveSymbolMapping(
+      adapter,
+      localSymbol,
+      body.symbol,
+      body.localQuoteAsset
+    );
+
+    return NextResponse.json({ mapping });
+  } catch (error) {
+    return toErrorResponse(error, "Failed to save symbol mapping");
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: ExchangeRouteContext
+) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const adapter = await resolveExchangeAdapter(context);
+    const localSymbol = requireLocalSymbol(searchParams.get("symbol"));
+
+    return NextResponse.json({
+      deleted: await deleteSymbolMapping(adapter.id, localSymbol),
+    });
+  } catch (error) {
+    return toErrorResponse(error, "Failed to delete symbol mapping");
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { listExchanges } from "../../../server/exchanges";
+
+// 참조 패널에서 선택할 수 있는 거래소 목록
+export async function GET() {
+  return NextResponse.json({ exchanges: listExchanges() });
+}
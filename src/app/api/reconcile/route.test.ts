@@ -0,0 +1,174 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getExchangeAdapter,
+  type ExchangeAdapter,
+  type ExchangeCandle,
+} from "../../../server/exchanges";
+import { fetchLocalKlines } from "../../../server/localKlines";
+import {
+  resolveSymbolMapping,
+  type SymbolMapping,
+} from "../../../server/symbolMappings";
+import { GET } from "./route";
+
+vi.mock("../../../server/exchanges", () => ({ getExchangeAdapter: vi.fn() }));
+vi.mock("../../../server/localKlines", () => ({ fetchLocalKlines: vi.fn() }));
+vi.mock("../../../server/symbolMappings", () => ({
+  resolveSymbolMapping: vi.fn(),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+const END = START + 2 * HOUR_MS;
+
+const createExchangeCandle = (
+  openTime: number,
+  close: string
+): ExchangeCandle => ({
+  openTime,
+  closeTime: openTime + HOUR_MS - 1,
+  open: "100",
+  high: "110",
+  low: "90",
+  close,
+  volume: "10",
+  quoteVolume: "1000",
+  trades: 5,
+  takerBuyBaseVolume: "5",
+  takerBuyQuoteVolume: "500",
+  isFinal: true,
+});
+
+const createAdapter = (candles: ExchangeCandle[]): ExchangeAdapter => ({
+  id: "binance",
+  name: "Binance",
+  intervals: ["1h"],
+  normalizeSymbol: (symbol) => symbol.toUpperCase(),
+  listMarkets: async () => [],
+  fetchCandles: vi.fn(async () => ({ candles })),
+  subscribeCandles: () => () => {},
+  getMissedCandles: async () => [],
+  toApiError: (error) => error as never,
+});
+
+const createMapping = (
+  localSymbol: string,
+  localQuoteAsset: string | null
+): SymbolMapping => ({
+  localSymbol,
+  exchange: "binance",
+  symbol: "BTCUSDT",
+  baseAsset: "BTC",
+  quoteAsset: "USDT",
+  localQuoteAsset,
+  source: "saved",
+});
+
+const requestReconcile = (query: string) =>
+  GET(
+    new NextRequest(
+      `http://localhost/api/reconcile?interval=1h&start=${START}&end=${END}&${query}`
+    )
+  );
+
+describe("GET /api/reconcile", () => {
+  let adapter: ExchangeAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = createAdapter([
+      createExchangeCandle(START, "100"),
+      createExchangeCandle(START + HOUR_MS, "100"),
+    ]);
+    vi.mocked(getExchangeAdapter).mockReturnValue(adapter);
+    vi.mocked(fetchLocalKlines).mockResolvedValue([
+      { openTime: START, open: 100, high: 110, low: 90, close: 102, volume: 10 },
+    ]);
+  });
+
+  it("호가 통화가 다른데 fxRate가 없으면 400으로 거절한다", async () => {
+    vi.mocked(resolveSymbolMapping).mockResolvedValue(
+      createMapping("BTC-KRW", "KRW")
+    );
+
+    const response = await requestReconcile("symbol=BTC-KRW");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: "INVALID_PARAMETER",
+      error: expect.stringContaining("pass fxRate"),
+    });
+    expect(fetchLocalKlines).not.toHaveBeenCalled();
+  });
+
+  it("fxRate로 참조 캔들을 로컬 호가 통화로 환산해 비교한다", async () => {
+    vi.mocked(resolveSymbolMapping).mockResolvedValue(
+      createMapping("BTC-KRW", "KRW")
+    );
+    vi.mocked(fetchLocalKlines).mockResolvedValue([
+      {
+        openTime: START,
+        open: 1000,
+        high: 1100,
+        low: 900,
+        close: 1000,
+        volume: 10,
+      },
+    ]);
+
+    const response = await requestReconcile("symbol=BTC-KRW&fxRate=10");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.fxRate).toBe(10);
+    expect(body.rows[0]).toMatchObject({ openTime: START, status: "match" });
+  });
+
+  it("구분자가 있는 매핑된 로컬 심볼로 대사한다", async () => {
+    vi.mocked(resolveSymbolMapping).mockResolvedValue(
+      createMapping("BTC/USDT", null)
+    );
+
+    const response = await requestReconcile(
+      `symbol=${encodeURIComponent("BTC/USDT")}`
+    );
+
+    expect(response.status).toBe(200);
+    expect(resolveSymbolMapping).toHaveBeenCalledWith(adapter, "BTC/USDT");
+    expect(fetchLocalKlines).toHaveBeenCalledWith("BTC/USDT", "1h", START, END);
+  });
+
+  it("형식이 잘못된 심볼은 매핑을 찾기 전에 400으로 거절한다", async () => {
+    const response = await requestReconcile(
+      `symbol=${encodeURIComponent("BTC KRW")}`
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "INVALID_SYMBOL" });
+    expect(resolveSymbolMapping).not.toHaveBeenCalled();
+  });
+
+  it("format=csv이면 대사 결과를 CSV 첨부 파일로 내려준다", async () => {
+    vi.mocked(resolveSymbolMapping).mockResolvedValue(
+      createMapping("BTC/USDT", null)
+    );
+
+    const response = await requestReconcile(
+      `symbol=${encodeURIComponent("BTC/USDT")}&format=csv`
+    );
+    const lines = (await response.text()).trim().split("\n");
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/csv; charset=utf-8"
+    );
+    expect(response.headers.get("Content-Disposition")).toBe(
+      `attachment; filename="reconcile-BTC_USDT-1h-${START}-${END}.csv"`
+    );
+    expect(lines[0]).toMatch(/^openTime,status,/);
+    expect(lines.slice(1).map((line) => line.split(",")[1])).toEqual([
+      "outlier",
+      "missing",
+    ]);
+  });
+});
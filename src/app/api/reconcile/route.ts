@@ -0,0 +1,185 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { convertCandles } from "../../lib/fx";
+import {
+  DEFAULT_RECONCILE_THRESHOLDS,
+  reconcileCandles,
+  reconcileRowsToCsv,
+  type ReconcileCandle,
+} from "../../lib/reconcile";
+import {
+  ApiError,
+  parseInterval,
+  parseLocalSymbol,
+  parseTime,
+  toErrorResponse,
+} from "../../../server/apiSchema";
+import {
+  DEFAULT_CANDLE_LIMIT,
+  MAX_RANGE_CANDLES,
+  alignOpenTime,
+  estimateCandleCount,
+  shiftOpenTime,
+} from "../../../server/binanceCandles";
+import {
+  getExchangeAdapter,
+  type ExchangeAdapter,
+  type ExchangeCandle,
+} from "../../../server/exchanges";
+import { fetchLocalKlines } from "../../../server/localKlines";
+import { resolveSymbolMapping } from "../../../server/symbolMappings";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const toReconcileCandle = (candle: ExchangeCandle): ReconcileCandle => ({
+  openTime: candle.openTime,
+  open: Number(candle.open),
+  high: Number(candle.high),
+  low: Number(candle.low),
+  close: Number(candle.close),
+  volume: Number(candle.volume),
+});
+
+const parseNonNegative = (value: string | null, name: string) => {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new ApiError(
+      "INVALID_PARAMETER",
+      `${name} must be a non-negative number`,
+      400
+    );
+  }
+  return parsed;
+};
+
+// 로컬 인덱서와 참조 거래소 캔들을 대사한 보고서 (?format=csv 이면 CSV)
+// 예: /api/reconcile?symbol=BTC-KRW&interval=1h&start=...&end=...&fxRate=1380
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  let context = "Failed to reconcile candles";
+  let adapter: ExchangeAdapter | undefined;
+
+  try {
+    const exchangeId = searchParams.get("exchange") ?? "binance";
+    adapter = getExchangeAdapter(exchangeId);
+    if (!adapter) {
+      throw new ApiError(
+        "UNKNOWN_EXCHANGE",
+        `Exchange "${exchangeId}" is not supported`,
+        404
+      );
+    }
+
+    const localSymbol = parseLocalSymbol(searchParams.get("symbol"));
+    const interval = parseInterval(
+      searchParams.get("interval"),
+      "interval",
+      adapter.intervals
+    );
+    const end = parseTime(searchParams.get("end"), "end") ?? Date.now();
+    const start =
+      parseTime(searchParams.get("start"), "start") ??
+      shiftOpenTime(
+        alignOpenTime(end, interval),
+        interval,
+        -(DEFAULT_CANDLE_LIMIT - 1)
+      );
+
+    if (start > end) {
+      throw new ApiError(
+        "INVALID_PARAMETER",
+        "start must not be after end",
+        400
+      );
+    }
+
+    const limit = estimateCandleCount(interval, start, end);
+    if (limit > MAX_RANGE_CANDLES) {
+      throw new ApiError(
+        "RANGE_TOO_LARGE",
+        `Requested range covers about ${limit} candles; the maximum is ${MAX_RANGE_CANDLES}.`,
+        400
+      );
+    }
+
+    const thresholds = {
+      pricePercent:
+        parseNonNegative(searchParams.get("pricePercent"), "pricePercent") ??
+        DEFAULT_RECONCILE_THRESHOLDS.pricePercent,
+      volumePercent:
+        parseNonNegative(searchParams.get("volumePercent"), "volumePercent") ??
+        DEFAULT_RECONCILE_THRESHOLDS.volumePercent,
+    };
+    const fxRate = parseNonNegative(searchParams.get("fxRate"), "fxRate");
+
+    context = `Failed to reconcile ${localSymbol} against ${adapter.name}`;
+    const mapping = await resolveSymbolMapping(adapter, localSymbol);
+
+    // 호가 통화가 다르면 고정 환율 없이는 비교할 수 없다
+    if (mapping.localQuoteAsset && !fxRate) {
+      throw new ApiError(
+        "INVALID_PARAMETER",
+        `${mapping.symbol} is quoted in ${mapping.quoteAsset} but ${localSymbol} in ${mapping.localQuoteAsset}; pass fxRate (1 ${mapping.quoteAsset} in ${mapping.localQuoteAsset})`,
+        400
+      );
+    }
+
+    const [local, { candles: referenceCandles }] = await Promise.all([
+      fetchLocalKlines(localSymbol, interval, start, end),
+      adapter.fetchCandles({
+        symbol: mapping.symbol,
+        interval,
+        start,
+        end,
+        limit,
+      }),
+    ]);
+
+    // 진행 중인 참조 캔들부터는 값이 계속 바뀌므로 대사 구간에서 제외
+    const inProgress = referenceCandles.find((candle) => !candle.isFinal);
+    const converted = referenceCandles.map(toReconcileCandle);
+    const reference =
+      mapping.localQuoteAsset && fxRate
+        ? convertCandles(converted, [{ openTime: 0, rate: fxRate }])
+        : converted;
+
+    const report = reconcileCandles(local, reference, {
+      thresholds,
+      start,
+      end: inProgress ? Math.min(end, inProgress.openTime - 1) : end,
+    });
+
+    if (
+      searchParams.get("format") === "csv" ||
+      request.headers.get("accept")?.includes("text/csv")
+    ) {
+      return new Response(reconcileRowsToCsv(report.rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="reconcile-${localSymbol.replace(
+            /[^\w-]/g,
+            "_"
+          )}-${interval}-${start}-${end}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      exchange: adapter.id,
+      symbol: localSymbol,
+      mapping,
+      interval,
+      start,
+      end,
+      thresholds,
+      fxRate: mapping.localQuoteAsset ? fxRate : null,
+      summary: report.summary,
+      rows: report.rows,
+    });
+  } catch (error) {
+    return toErrorResponse(error, context, adapter?.toApiError);
+  }
+}
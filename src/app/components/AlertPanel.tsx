@@ -0,0 +1,270 @@
+// 알림 조건 편집과 발생 기록, 브라우저 알림 권한을 다루는 패널
+
+import { useMemo, useState } from "react";
+import {
+  ALERT_CONDITION_LABELS,
+  describeAlertCondition,
+  type AlertCondition,
+  type AlertConditionType,
+  type AlertDefinition,
+  type AlertTrigger,
+} from "../lib/alerts";
+import { dateFormatter, timeFormatter } from "../lib/format";
+import { INTERVALS } from "../lib/intervals";
+import styles from "../page.module.css";
+
+export type NotificationState = NotificationPermission | "unsupported";
+
+export const getNotificationState = (): NotificationState =>
+  typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+
+// 권한이 있으면 브라우저 알림을 띄운다
+export const showAlertNotification = (trigger: AlertTrigger) => {
+  if (getNotificationState() !== "granted") {
+    return;
+  }
+  try {
+    new Notification("가격 알림", {
+      body: trigger.message,
+      tag: `${trigger.alertId}-${trigger.openTime}`,
+    });
+  } catch (error) {
+    // 모바일 크롬 등은 서비스 워커 없이 Notification 생성을 막는다
+    console.warn("Failed to show alert notification", error);
+  }
+};
+
+type AlertPanelProps = {
+  symbol: string;
+  referenceName: string;
+  // 선택한 심볼의 알림만
+  alerts: AlertDefinition[];
+  log: AlertTrigger[];
+  notificationState: NotificationState;
+  canCompareReference: boolean;
+  onAdd: (condition: AlertCondition, repeat: boolean) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onDelete: (id: string) => void;
+  onRequestNotifications: () => void;
+  onClearLog: () => void;
+};
+
+// 알림 조건 추가 폼, 선택한 심볼의 알림 목록과 발생 기록
+export function AlertPanel({
+  symbol,
+  referenceName,
+  alerts,
+  log,
+  notificationState,
+  canCompareReference,
+  onAdd,
+  onToggle,
+  onDelete,
+  onRequestNotifications,
+  onClearLog,
+}: AlertPanelProps) {
+  const [type, setType] = useState<AlertConditionType>("priceCross");
+  const [direction, setDirection] = useState<"above" | "below" | "either">(
+    "either"
+  );
+  const [level, setLevel] = useState("");
+  const [percent, setPercent] = useState("1");
+  const [candleCount, setCandleCount] = useState("5");
+  const [moveInterval, setMoveInterval] = useState(INTERVALS[0].minutes);
+  const [repeat, setRepeat] = useState(false);
+
+  const condition = useMemo<AlertCondition | null>(() => {
+    if (type === "priceCross") {
+      const value = Number(level);
+      return level && Number.isFinite(value)
+        ? { type, level: value, direction }
+        : null;
+    }
+    const threshold = Number(percent);
+    if (!percent || !Number.isFinite(threshold) || threshold <= 0) {
+      return null;
+    }
+    if (type === "divergence") {
+      return { type, percent: threshold };
+    }
+    const candles = Number(candleCount);
+    return Number.isInteger(candles) && candles > 0
+      ? { type, percent: threshold, candles, intervalMinutes: moveInterval }
+      : null;
+  }, [candleCount, direction, level, moveInterval, percent, type]);
+
+  return (
+    <section className={styles.comparisonCard}>
+      <h3>가격 알림</h3>
+      <div className={styles.fxControls}>
+        <label className={styles.selector}>
+          <span>조건</span>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as AlertConditionType)}
+          >
+            {(Object.keys(ALERT_CONDITION_LABELS) as AlertConditionType[]).map(
+              (key) => (
+                <option key={key} value={key}>
+                  {ALERT_CONDITION_LABELS[key]}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+        {type === "priceCross" ? (
+          <>
+            <input
+              type="number"
+              step="any"
+              value={level}
+              onChange={(e) => setLevel(e.target.value)}
+              placeholder="가격"
+              className={styles.fxInput}
+            />
+            <select
+              value={direction}
+              onChange={(e) =>
+                setDirection(e.target.value as "above" | "below" | "either")
+              }
+              className={styles.fxInput}
+            >
+              <option value="either">상향/하향</option>
+              <option value="above">상향 돌파</option>
+              <option value="below">하향 돌파</option>
+            </select>
+          </>
+        ) : (
+          <>
+            {type === "percentMove" && (
+              <>
+                <select
+                  value={moveInterval}
+                  onChange={(e) => setMoveInterval(Number(e.target.value))}
+                  className={styles.fxInput}
+                >
+                  {INTERVALS.map((option) => (
+                    <option key={option.minutes} value={option.minutes}>
+                      {option.label}봉
+                    </option>
+                  ))}
+                </select>
+                <label className={styles.fxCheckbox}>
+                  봉 수
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={candleCount}
+                    onChange={(e) => setCandleCount(e.target.value)}
+                    className={styles.fxInput}
+                  />
+                </label>
+              </>
+            )}
+            <label className={styles.fxCheckbox}>
+              기준 (%)
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                className={styles.fxInput}
+              />
+            </label>
+          </>
+        )}
+        <label className={styles.fxCheckbox}>
+          <input
+            type="checkbox"
+            checked={repeat}
+            onChange={(e) => setRepeat(e.target.checked)}
+          />
+          반복
+        </label>
+        <button
+          onClick={() => condition && onAdd(condition, repeat)}
+          disabled={!symbol || !condition}
+          className={styles.smallButtonSuccess}
+        >
+          {symbol ? `${symbol} 알림 추가` : "심볼을 선택하세요"}
+        </button>
+        {notificationState === "unsupported" ? (
+          <span className={styles.fxHint}>
+            이 브라우저는 알림을 지원하지 않습니다.
+          </span>
+        ) : notificationState === "granted" ? (
+          <span className={styles.fxHint}>브라우저 알림 사용 중</span>
+        ) : (
+          <button
+            onClick={onRequestNotifications}
+            disabled={notificationState === "denied"}
+            className={styles.smallButton}
+          >
+            {notificationState === "denied"
+              ? "브라우저 알림이 차단됨"
+              : "브라우저 알림 허용"}
+          </button>
+        )}
+      </div>
+      {type === "divergence" && !canCompareReference && (
+        <p className={styles.fxHint}>
+          {referenceName} 시세를 로컬 호가 통화로 환산할 수 있어야 괴리 알림이
+          평가됩니다. 아래 데이터 차이 요약에서 환율 기준을 설정하세요.
+        </p>
+      )}
+      {alerts.length > 0 ? (
+        <ul className={styles.alertList}>
+          {alerts.map((alert) => (
+            <li key={alert.id}>
+              <label className={styles.fxCheckbox}>
+                <input
+                  type="checkbox"
+                  checked={alert.enabled}
+                  onChange={(e) => onToggle(alert.id, e.target.checked)}
+                />
+                {ALERT_CONDITION_LABELS[alert.condition.type]}:{" "}
+                {describeAlertCondition(alert.condition)}
+                {alert.repeat && <em>반복</em>}
+              </label>
+              <button
+                onClick={() => onDelete(alert.id)}
+                className={styles.smallButtonDanger}
+              >
+                삭제
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.differencePlaceholder}>
+          {symbol ? `${symbol}에 등록된 알림이 없습니다.` : ""}
+        </p>
+      )}
+      {log.length > 0 && (
+        <div className={styles.alertLog}>
+          <div className={styles.gapPanelHeader}>
+            <strong>알림 기록</strong>
+            <button onClick={onClearLog} className={styles.smallButton}>
+              기록 지우기
+            </button>
+          </div>
+          <ul className={styles.alertList}>
+            {log.map((trigger) => (
+              <li key={`${trigger.alertId}-${trigger.triggeredAt}`}>
+                <span>
+                  <em>
+                    {dateFormatter.format(trigger.triggeredAt)}{" "}
+                    {timeFormatter.format(trigger.triggeredAt)}
+                  </em>{" "}
+                  {trigger.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
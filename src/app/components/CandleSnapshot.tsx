@@ -0,0 +1,87 @@
+// 차트 카드 헤더의 최신 캔들 OHLCV 요약
+
+import type { Candle } from "../lib/candleSources";
+import {
+  formatCandleTime,
+  priceFormatter,
+  volumeFormatter,
+} from "../lib/format";
+import styles from "../page.module.css";
+
+type CandleSnapshotProps = {
+  candle: Candle;
+  intervalMinutes: number;
+};
+
+// 거래대금, 체결 수, 마감 여부는 참조 거래소 캔들에만 있어 있을 때만 표시
+export function CandleSnapshot({
+  candle,
+  intervalMinutes,
+}: CandleSnapshotProps) {
+  return (
+    <div className={styles.priceSnapshot}>
+      <div className={styles.ohlcvGrid}>
+        <div className={styles.ohlcvItem}>
+          <span className={styles.ohlcvLabel}>시가</span>
+          <strong className={styles.ohlcvValue}>
+            {priceFormatter.format(candle.open)}
+          </strong>
+        </div>
+        <div className={styles.ohlcvItem}>
+          <span className={styles.ohlcvLabel}>고가</span>
+          <strong className={styles.ohlcvValue}>
+            {priceFormatter.format(candle.high)}
+          </strong>
+        </div>
+        <div className={styles.ohlcvItem}>
+          <span className={styles.ohlcvLabel}>저가</span>
+          <strong className={styles.ohlcvValue}>
+            {priceFormatter.format(candle.low)}
+          </strong>
+        </div>
+        <div className={styles.ohlcvItem}>
+          <span className={styles.ohlcvLabel}>종가</span>
+          <strong className={styles.ohlcvValue}>
+            {priceFormatter.format(candle.close)}
+          </strong>
+        </div>
+        <div className={styles.ohlcvItem}>
+          <span className={styles.ohlcvLabel}>거래량</span>
+          <strong className={styles.ohlcvValue}>
+            {volumeFormatter.format(candle.volume)}
+          </strong>
+        </div>
+        {candle.quoteVolume !== undefined && (
+          <div className={styles.ohlcvItem}>
+            <span className={styles.ohlcvLabel}>거래대금</span>
+            <strong className={styles.ohlcvValue}>
+              {volumeFormatter.format(candle.quoteVolume)}
+            </strong>
+          </div>
+        )}
+        {candle.trades !== undefined && (
+          <div className={styles.ohlcvItem}>
+            <span className={styles.ohlcvLabel}>체결 수</span>
+            <strong className={styles.ohlcvValue}>
+              {volumeFormatter.format(candle.trades)}
+            </strong>
+          </div>
+        )}
+        {candle.isFinal !== undefined && (
+          <div className={styles.ohlcvItem}>
+            <span className={styles.ohlcvLabel}>상태</span>
+            <span className={styles.ohlcvTime}>
+              {candle.isFinal ? "마감" : "진행 중"}
+            </span>
+          </div>
+        )}
+        <div className={styles.ohlcvItem}>
+          <span className={styles.ohlcvLabel}>시간</span>
+          <span className={styles.ohlcvTime}>
+            {formatCandleTime(candle.openTime, intervalMinutes)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+// 멀티 차트 그리드와 레이아웃 저장/불러오기
+
+import { useState, type CSSProperties, type ChangeEvent } from "react";
+import type { ExchangeOption } from "../lib/candleSources";
+import {
+  GRID_SIZES,
+  resizePanels,
+  toPanelConfig,
+  upsertLayout,
+  type ChartLayout,
+  type ChartPanelConfig,
+  type GridPanel,
+  type GridSize,
+} from "../lib/chartLayouts";
+import { ChartPanel, type SelectOption } from "./ChartPanel";
+import styles from "../page.module.css";
+
+type ChartGridProps = {
+  symbolOptions: SelectOption[];
+  exchangeOptions: ExchangeOption[];
+  // 새 칸에 채울 패널 (보통 현재 선택한 심볼/간격의 로컬 차트)
+  defaultPanel: ChartPanelConfig;
+  // 공유 링크에 담을 수 있도록 그리드 크기와 패널은 Home이 관리한다. size가 null이면 닫힌 상태
+  size: GridSize | null;
+  panels: GridPanel[];
+  onGridChange: (size: GridSize | null, panels: GridPanel[]) => void;
+  layouts: ChartLayout[];
+  onLayoutsChange: (layouts: ChartLayout[]) => void;
+};
+
+// 1×1 ~ 3×3 멀티 차트 그리드와 이름별 레이아웃 저장/불러오기
+export function ChartGrid({
+  symbolOptions,
+  exchangeOptions,
+  defaultPanel,
+  size,
+  panels,
+  onGridChange,
+  layouts,
+  onLayoutsChange,
+}: ChartGridProps) {
+  const [layoutName, setLayoutName] = useState("");
+  const [layoutMessage, setLayoutMessage] = useState<string | null>(null);
+
+  const handleSizeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const nextSize = Number(event.target.value) as GridSize | 0;
+    if (!nextSize) {
+      onGridChange(null, panels);
+      return;
+    }
+    onGridChange(nextSize, resizePanels(panels, nextSize, defaultPanel));
+  };
+
+  const handlePanelChange = (id: string, config: ChartPanelConfig) => {
+    onGridChange(
+      size,
+      panels.map((panel) => (panel.id === id ? { ...config, id } : panel))
+    );
+  };
+
+  const handleSaveLayout = () => {
+    const name = layoutName.trim();
+    if (!name || !size) {
+      return;
+    }
+    onLayoutsChange(
+      upsertLayout(layouts, {
+        name,
+        size,
+        panels: panels.map(toPanelConfig),
+        savedAt: Date.now(),
+      })
+    );
+    setLayoutMessage(`'${name}' 레이아웃을 저장했습니다.`);
+  };
+
+  const handleRestoreLayout = (event: ChangeEvent<HTMLSelectElement>) => {
+    const layout = layouts.find((item) => item.name === event.target.value);
+    if (!layout) {
+      return;
+    }
+    onGridChange(
+      layout.size,
+      resizePanels(layout.panels, layout.size, defaultPanel)
+    );
+    setLayoutName(layout.name);
+    setLayoutMessage(`'${layout.name}' 레이아웃을 불러왔습니다.`);
+  };
+
+  const handleDeleteLayout = () => {
+    const name = layoutName.trim();
+    onLayoutsChange(layouts.filter((layout) => layout.name !== name));
+    setLayoutMessage(`'${name}' 레이아웃을 삭제했습니다.`);
+  };
+
+  return (
+    <section className={styles.comparisonCard}>
+      <h3>멀티 차트</h3>
+      <div className={styles.fxControls}>
+        <label className={styles.selector}>
+          <span>그리드</span>
+          <select value={size ?? 0} onChange={handleSizeChange}>
+            <option value={0}>닫기</option>
+            {GRID_SIZES.map((option) => (
+              <option key={option} value={option}>
+                {option}×{option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <input
+          type="text"
+          value={layoutName}
+          onChange={(e) => setLayoutName(e.target.value)}
+          placeholder="레이아웃 이름"
+          className={styles.fxInput}
+        />
+        <button
+          onClick={handleSaveLayout}
+          disabled={!size || !layoutName.trim()}
+          className={styles.smallButtonSuccess}
+        >
+          저장
+        </button>
+        <select
+          value=""
+          onChange={handleRestoreLayout}
+          disabled={layouts.length === 0}
+          className={styles.fxInput}
+        >
+          <option value="">
+            {layouts.length > 0
+              ? "저장된 레이아웃 불러오기"
+              : "저장된 레이아웃 없음"}
+          </option>
+          {layouts.map((layout) => (
+            <option key={layout.name} value={layout.name}>
+              {layout.name} ({layout.size}×{layout.size})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleDeleteLayout}
+          disabled={
+            !layouts.some((layout) => layout.name === layoutName.trim())
+          }
+          className={styles.smallButtonDanger}
+        >
+          삭제
+        </button>
+      </div>
+      {layoutMessage && (
+        <p className={styles.drawingMessage}>{layoutMessage}</p>
+      )}
+      {size && (
+        <div
+          className={styles.chartGrid}
+          style={{ "--grid-columns": size } as CSSProperties}
+        >
+          {panels.map((panel) => (
+            <ChartPanel
+              key={panel.id}
+              config={panel}
+              symbolOptions={symbolOptions}
+              exchangeOptions={exchangeOptions}
+              compact={size === 3}
+              onChange={(config) => handlePanelChange(panel.id, config)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,110 @@
+// 멀티 차트 그리드의 한 칸. 소스, 심볼, 간격을 고르고 차트를 그린다
+
+import { usePanelCandles, type PanelStatus } from "../hooks/usePanelCandles";
+import type { ExchangeOption } from "../lib/candleSources";
+import { LOCAL_SOURCE, type ChartPanelConfig } from "../lib/chartLayouts";
+import { INTERVALS } from "../lib/intervals";
+import { MinuteChart } from "./MinuteChart";
+import styles from "../page.module.css";
+
+export type SelectOption = {
+  value: string;
+  label: string;
+};
+
+const PANEL_STATUS_CLASS: Record<PanelStatus, string> = {
+  idle: styles.disconnected,
+  loading: styles.pending,
+  live: styles.connected,
+  error: styles.disconnected,
+};
+
+type ChartPanelProps = {
+  config: ChartPanelConfig;
+  symbolOptions: SelectOption[];
+  exchangeOptions: ExchangeOption[];
+  // 3×3처럼 칸이 작으면 거래량 패널을 숨긴다
+  compact: boolean;
+  onChange: (config: ChartPanelConfig) => void;
+};
+
+// 데이터 소스, 심볼, 봉 간격을 따로 고르는 그리드 패널
+export function ChartPanel({
+  config,
+  symbolOptions,
+  exchangeOptions,
+  compact,
+  onChange,
+}: ChartPanelProps) {
+  const exchange = exchangeOptions.find(
+    (option) => option.id === config.source
+  );
+  const { candles, status, errorMessage } = usePanelCandles(
+    config,
+    exchange?.name ?? config.source
+  );
+  // 거래소가 간격 목록을 알려주면 그 간격만 고를 수 있다
+  const intervalOptions =
+    exchange && exchange.intervals.length > 0
+      ? INTERVALS.filter((option) =>
+          exchange.intervals.includes(option.binance)
+        )
+      : INTERVALS;
+
+  return (
+    <div className={styles.gridPanel}>
+      <div className={styles.gridPanelControls}>
+        <span
+          className={`${styles.statusDot} ${PANEL_STATUS_CLASS[status]}`}
+          aria-hidden
+        />
+        <select
+          value={config.source}
+          onChange={(e) => onChange({ ...config, source: e.target.value })}
+          className={styles.gridPanelSelect}
+        >
+          <option value={LOCAL_SOURCE}>로컬</option>
+          {exchangeOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={config.symbol}
+          onChange={(e) => onChange({ ...config, symbol: e.target.value })}
+          className={styles.gridPanelSelect}
+        >
+          <option value="">심볼 선택</option>
+          {symbolOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={config.intervalMinutes}
+          onChange={(e) =>
+            onChange({ ...config, intervalMinutes: Number(e.target.value) })
+          }
+          className={styles.gridPanelSelect}
+        >
+          {intervalOptions.map((option) => (
+            <option key={option.minutes} value={option.minutes}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className={styles.gridPanelChart}>
+        <MinuteChart
+          data={candles}
+          symbol={config.symbol}
+          intervalMinutes={config.intervalMinutes}
+          showVolume={!compact}
+        />
+      </div>
+      {errorMessage && <p className={styles.errorMessage}>{errorMessage}</p>}
+    </div>
+  );
+}
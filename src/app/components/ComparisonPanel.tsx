@@ -0,0 +1,271 @@
+// 로컬과 참조 거래소 최신 캔들의 차이, 환율 기준 설정, 프리미엄 추이를 보여주는 카드
+
+import type { ChangeEvent } from "react";
+import type { ExchangeOption } from "../lib/candleSources";
+import {
+  formatCandleTime,
+  percentFormatter,
+  priceFormatter,
+  volumeFormatter,
+} from "../lib/format";
+import type { FxRateSource, PremiumPoint } from "../lib/fx";
+import { PremiumChart } from "./PremiumChart";
+import styles from "../page.module.css";
+
+export type DifferenceMetric = {
+  label: string;
+  localValue: number;
+  referenceValue: number;
+  diff: number; // 참조 - 로컬
+  percent: number | null;
+  formatter: "price" | "volume";
+};
+
+export type DifferenceSummary = {
+  metrics: DifferenceMetric[];
+  timeDiffMinutes: number;
+  localOpenTime: number;
+  referenceOpenTime: number;
+};
+
+type ComparisonPanelProps = {
+  referenceExchangeName: string;
+  // 참조 시세의 호가 통화와, 환산이 필요할 때의 로컬 호가 통화 (같으면 null)
+  referenceQuoteAsset: string | undefined;
+  fxQuote: string | null;
+  fxSource: FxRateSource;
+  isFxApplied: boolean;
+  fxErrorMessage: string | null;
+  // 거래소 캔들 환율 기준의 기본 거래소
+  defaultFxExchange: string;
+  exchangeOptions: ExchangeOption[];
+  intervalMinutes: number;
+  differenceSummary: DifferenceSummary | null;
+  premiumSeries: PremiumPoint[];
+  graphQlStatusText: string;
+  referenceStatusText: string;
+  isReferenceCandleInProgress: boolean;
+  onFxSourceChange: (source: FxRateSource) => void;
+};
+
+export function ComparisonPanel({
+  referenceExchangeName,
+  referenceQuoteAsset,
+  fxQuote,
+  fxSource,
+  isFxApplied,
+  fxErrorMessage,
+  defaultFxExchange,
+  exchangeOptions,
+  intervalMinutes,
+  differenceSummary,
+  premiumSeries,
+  graphQlStatusText,
+  referenceStatusText,
+  isReferenceCandleInProgress,
+  onFxSourceChange,
+}: ComparisonPanelProps) {
+  const latestPremium = premiumSeries[premiumSeries.length - 1];
+
+  const handleFxSourceTypeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    switch (event.target.value) {
+      case "fixed":
+        onFxSourceChange({ type: "fixed", rate: 0 });
+        break;
+      case "exchange":
+        onFxSourceChange({
+          type: "exchange",
+          exchange: defaultFxExchange,
+          symbol: "",
+          invert: false,
+        });
+        break;
+      case "local":
+        onFxSourceChange({ type: "local", symbol: "", invert: false });
+        break;
+      default:
+        onFxSourceChange({ type: "none" });
+    }
+  };
+
+  return (
+    <section className={styles.comparisonCard}>
+      <h3>데이터 차이 요약</h3>
+      <div className={styles.fxControls}>
+        <label className={styles.selector}>
+          <span>환율 기준</span>
+          <select value={fxSource.type} onChange={handleFxSourceTypeChange}>
+            <option value="none">환산 안 함</option>
+            <option value="fixed">고정 환율</option>
+            <option value="exchange">거래소 캔들</option>
+            <option value="local">로컬 피드</option>
+          </select>
+        </label>
+        {fxSource.type === "fixed" && (
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={fxSource.rate || ""}
+            onChange={(e) =>
+              onFxSourceChange({ type: "fixed", rate: Number(e.target.value) })
+            }
+            placeholder={`1 ${referenceQuoteAsset ?? "USDT"} = ? ${
+              fxQuote ?? "KRW"
+            }`}
+            className={styles.fxInput}
+          />
+        )}
+        {(fxSource.type === "exchange" || fxSource.type === "local") && (
+          <>
+            {fxSource.type === "exchange" && (
+              <select
+                value={fxSource.exchange}
+                onChange={(e) =>
+                  onFxSourceChange({ ...fxSource, exchange: e.target.value })
+                }
+                className={styles.fxInput}
+              >
+                {exchangeOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="text"
+              value={fxSource.symbol}
+              onChange={(e) =>
+                onFxSourceChange({ ...fxSource, symbol: e.target.value })
+              }
+              placeholder="환율 심볼 (예: USDT-KRW)"
+              className={styles.fxInput}
+            />
+            <label className={styles.fxCheckbox}>
+              <input
+                type="checkbox"
+                checked={fxSource.invert}
+                onChange={(e) =>
+                  onFxSourceChange({ ...fxSource, invert: e.target.checked })
+                }
+              />
+              역수 사용
+            </label>
+          </>
+        )}
+        <span className={styles.fxHint}>
+          {fxQuote
+            ? `${referenceQuoteAsset} → ${fxQuote} 환산 ${
+                isFxApplied ? "적용 중" : "대기 (환율 기준을 설정하세요)"
+              }`
+            : "로컬과 참조 거래소의 호가 통화가 같아 환산하지 않습니다."}
+        </span>
+      </div>
+      {fxErrorMessage && (
+        <p className={styles.errorMessage}>{fxErrorMessage}</p>
+      )}
+      {differenceSummary ? (
+        <ul className={styles.differenceList}>
+          {differenceSummary.metrics.map((metric) => {
+            const formatter =
+              metric.formatter === "price"
+                ? priceFormatter
+                : volumeFormatter;
+            const formattedLocal = formatter.format(metric.localValue);
+            const formattedReference = formatter.format(
+              metric.referenceValue
+            );
+            const formattedDiff = formatter.format(metric.diff);
+            const formattedPercent =
+              metric.percent === null
+                ? null
+                : `${
+                    metric.percent >= 0 ? "+" : ""
+                  }${percentFormatter.format(Math.abs(metric.percent))}%`;
+
+            return (
+              <li key={metric.label}>
+                <strong>{metric.label}</strong>
+                <span>
+                  로컬 {formattedLocal} · {referenceExchangeName}
+                  {isFxApplied &&
+                    metric.formatter === "price" &&
+                    ` (${fxQuote} 환산)`}{" "}
+                  {formattedReference}{" "}
+                  <em>
+                    ({metric.diff >= 0 ? "+" : ""}
+                    {formattedDiff}
+                    {formattedPercent && ` / ${formattedPercent}`})
+                  </em>
+                </span>
+              </li>
+            );
+          })}
+          {latestPremium && (
+            <li>
+              <strong>프리미엄</strong>
+              <span>
+                {latestPremium.premium >= 0 ? "+" : ""}
+                {percentFormatter.format(latestPremium.premium)}%{" "}
+                <em>
+                  (로컬이 {referenceExchangeName} 대비{" "}
+                  {latestPremium.premium >= 0 ? "비쌈" : "쌈"})
+                </em>
+              </span>
+            </li>
+          )}
+          <li>
+            <strong>캔들 시각</strong>
+            <span>
+              로컬{" "}
+              {formatCandleTime(
+                differenceSummary.localOpenTime,
+                intervalMinutes
+              )}{" "}
+              / {referenceExchangeName}{" "}
+              {formatCandleTime(
+                differenceSummary.referenceOpenTime,
+                intervalMinutes
+              )}{" "}
+              {differenceSummary.timeDiffMinutes === 0
+                ? "(동일)"
+                : `(${Math.abs(differenceSummary.timeDiffMinutes).toFixed(
+                    2
+                  )}분 ${
+                    differenceSummary.timeDiffMinutes > 0
+                      ? `${referenceExchangeName}가 앞섬`
+                      : `${referenceExchangeName}가 늦음`
+                  })`}
+            </span>
+          </li>
+          <li>
+            <strong>상태</strong>
+            <span>
+              GraphQL: {graphQlStatusText} · {referenceExchangeName}:{" "}
+              {referenceStatusText}
+              {isReferenceCandleInProgress &&
+                ` · ${referenceExchangeName} 캔들 진행 중 (비교값 변동 가능)`}
+            </span>
+          </li>
+        </ul>
+      ) : (
+        <p className={styles.differencePlaceholder}>
+          두 데이터 소스를 불러온 이후 차이점이 표시됩니다.
+        </p>
+      )}
+      {premiumSeries.length > 0 && (
+        <div className={styles.premiumChartWrapper}>
+          <PremiumChart
+            data={premiumSeries}
+            intervalMinutes={intervalMinutes}
+          />
+        </div>
+      )}
+      <p className={styles.comparisonFootnote}>
+        상단 차트는 내부 GraphQL 데이터를, 하단 차트는 선택한 참조 거래소(
+        {referenceExchangeName}) 공식 API를 사용합니다.
+      </p>
+    </section>
+  );
+}
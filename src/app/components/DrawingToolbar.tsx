@@ -0,0 +1,93 @@
+// 메인 차트 아래의 그리기 도구 선택, 자석, 내보내기/가져오기 툴바
+
+import { useRef, type ChangeEvent } from "react";
+import { DRAWING_TOOLS, type DrawingTool } from "../lib/drawings";
+import styles from "../page.module.css";
+
+type DrawingToolbarProps = {
+  tool: DrawingTool | null;
+  snap: boolean;
+  drawingCount: number;
+  // 심볼을 고르기 전에는 도구를 고를 수 없다
+  disabled: boolean;
+  message: string | null;
+  onToolChange: (tool: DrawingTool | null) => void;
+  onSnapChange: (snap: boolean) => void;
+  onExport: () => void;
+  onImport: (event: ChangeEvent<HTMLInputElement>) => void;
+  onClear: () => void;
+};
+
+// 같은 도구를 다시 누르면 이동/확대로 돌아간다
+export function DrawingToolbar({
+  tool,
+  snap,
+  drawingCount,
+  disabled,
+  message,
+  onToolChange,
+  onSnapChange,
+  onExport,
+  onImport,
+  onClear,
+}: DrawingToolbarProps) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <>
+      <div className={styles.drawingToolbar}>
+        {DRAWING_TOOLS.map((item) => (
+          <button
+            key={item.tool}
+            onClick={() => onToolChange(tool === item.tool ? null : item.tool)}
+            disabled={disabled}
+            className={
+              tool === item.tool
+                ? `${styles.drawingToolButton} ${styles.drawingToolActive}`
+                : styles.drawingToolButton
+            }
+          >
+            {item.label}
+          </button>
+        ))}
+        <label className={styles.fxCheckbox}>
+          <input
+            type="checkbox"
+            checked={snap}
+            onChange={(e) => onSnapChange(e.target.checked)}
+          />
+          OHLC 자석
+        </label>
+        <span className={styles.drawingCount}>그림 {drawingCount}개</span>
+        <button
+          onClick={onExport}
+          disabled={drawingCount === 0}
+          className={styles.smallButton}
+        >
+          내보내기
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className={styles.smallButton}
+        >
+          가져오기
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={onImport}
+        />
+        <button
+          onClick={onClear}
+          disabled={drawingCount === 0}
+          className={styles.smallButtonDanger}
+        >
+          모두 지우기
+        </button>
+      </div>
+      {message && <p className={styles.drawingMessage}>{message}</p>}
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+// 차트 헤더의 보조지표/오실레이터 토글
+
+import type { IndicatorParam } from "../lib/indicators";
+import styles from "../page.module.css";
+
+type IndicatorToggleProps = {
+  definition: { label: string; color: string; params: IndicatorParam[] };
+  config: { enabled: boolean; params: Record<string, number> };
+  onToggle: (enabled: boolean) => void;
+  onParamChange: (key: string, value: number) => void;
+};
+
+// 차트 헤더의 지표 on/off 체크박스와 파라미터 입력
+export function IndicatorToggle({
+  definition,
+  config,
+  onToggle,
+  onParamChange,
+}: IndicatorToggleProps) {
+  return (
+    <div className={styles.indicatorItem}>
+      <label className={styles.fxCheckbox}>
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+        />
+        <span
+          className={styles.indicatorSwatch}
+          style={{ background: definition.color }}
+          aria-hidden
+        />
+        {definition.label}
+      </label>
+      {config.enabled &&
+        definition.params.map((param) => (
+          <input
+            key={param.key}
+            type="number"
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={config.params[param.key] ?? ""}
+            title={param.label}
+            aria-label={`${definition.label} ${param.label}`}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (
+                Number.isFinite(value) &&
+                value >= param.min &&
+                value <= param.max
+              ) {
+                onParamChange(param.key, value);
+              }
+            }}
+            className={styles.indicatorInput}
+          />
+        ))}
+    </div>
+  );
+}
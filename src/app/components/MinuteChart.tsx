@@ -0,0 +1,1466 @@
+// 캔들, 거래량, 지표, 드로잉을 그리는 Chart.js 차트
+
+import { Chart, type ChartDataset } from "chart.js";
+import { useEffect, useRef } from "react";
+import { isLastCandleUpdate, replaceLastPoint } from "../lib/candleHistory";
+import { MAX_LOADED_CANDLES, type Candle } from "../lib/candleSources";
+import type { ChartSync } from "../lib/chartSync";
+import {
+  DRAWING_COLORS,
+  snapDrawingPoint,
+  type Drawing,
+  type DrawingPoint,
+  type DrawingTool,
+} from "../lib/drawings";
+import {
+  formatSigned,
+  oscillatorFormatter,
+  percentFormatter,
+  priceFormatter,
+  volumeFormatter,
+} from "../lib/format";
+import {
+  createIndicatorTracker,
+  type IndicatorConfig,
+  type IndicatorLine,
+  type IndicatorTracker,
+} from "../lib/indicators";
+import { createId } from "../lib/ids";
+import { formatIntervalLabel, type CandleGap } from "../lib/intervals";
+import {
+  createOscillatorTracker,
+  type OscillatorConfig,
+  type OscillatorPane,
+  type OscillatorTracker,
+} from "../lib/oscillators";
+import { ensureFinancialChartRegistered } from "../lib/registerFinancialChart";
+import styles from "../page.module.css";
+
+type CandlestickDataPoint = {
+  x: number; // Timestamp or numerical x-coordinate
+  o: number; // Open value
+  h: number; // High value
+  l: number; // Low value
+  c: number; // Close value
+  v: number; // Volume value
+};
+
+// Extended dataset type for candlestick charts
+type CandlestickDataset = ChartDataset<
+  "candlestick",
+  CandlestickDataPoint[]
+> & {
+  upColor?: string;
+  downColor?: string;
+  borderColor?: string;
+  borderUpColor?: string;
+  borderDownColor?: string;
+  wickUpColor?: string;
+  wickDownColor?: string;
+};
+
+type VolumePoint = {
+  x: number;
+  y: number;
+  up: boolean; // 양봉이면 true
+};
+
+type TimeUnit = "minute" | "hour" | "day" | "month" | "year";
+
+// 데이터 범위를 분석하여 적절한 시간 단위 결정
+const getTimeUnitFromData = (data: CandlestickDataPoint[]): TimeUnit => {
+  if (data.length === 0) {
+    return "minute";
+  }
+
+  const minTime = Math.min(...data.map((d) => d.x));
+  const maxTime = Math.max(...data.map((d) => d.x));
+  const timeRange = maxTime - minTime;
+
+  // 시간 범위에 따라 적절한 단위 선택
+  const oneHour = 60 * 60 * 1000; // 1시간 (밀리초)
+  const oneDay = 24 * oneHour; // 1일 (밀리초)
+
+  if (timeRange <= oneHour * 12) {
+    // 12시간 이내
+    return "minute";
+  } else if (timeRange <= oneDay * 7) {
+    // 7일 이내
+    return "hour";
+  } else if (timeRange <= oneDay * 180) {
+    // 6개월 이내
+    return "day";
+  } else if (timeRange <= oneDay * 365 * 5) {
+    // 5년 이내
+    return "month";
+  } else {
+    return "year";
+  }
+};
+
+// 분봉 간격에 따른 Chart.js 시간 단위 결정 (fallback)
+export const getTimeUnit = (intervalMinutes: number): TimeUnit => {
+  if (intervalMinutes <= 5) {
+    return "minute";
+  } else if (intervalMinutes <= 30) {
+    return "minute";
+  } else if (intervalMinutes <= 120) {
+    return "hour";
+  } else if (intervalMinutes < 1440) {
+    return "hour";
+  } else if (intervalMinutes < 10080) {
+    return "day";
+  } else {
+    return "month";
+  }
+};
+
+// 분봉 간격에 따른 시간 표시 형식 결정
+export const getTimeDisplayFormat = (intervalMinutes: number): string => {
+  if (intervalMinutes <= 5) {
+    return "HH:mm";
+  } else if (intervalMinutes <= 30) {
+    return "HH:mm";
+  } else if (intervalMinutes <= 120) {
+    return "MM/dd HH:mm";
+  } else if (intervalMinutes < 1440) {
+    return "MM/dd HH:mm";
+  } else if (intervalMinutes < 43200) {
+    return "yyyy/MM/dd";
+  } else {
+    return "yyyy/MM";
+  }
+};
+
+const toCandlestickPoint = (candle: Candle): CandlestickDataPoint => ({
+  x: candle.openTime,
+  o: candle.open,
+  h: candle.high,
+  l: candle.low,
+  c: candle.close,
+  v: candle.volume ?? 0,
+});
+
+const toCandlestickPoints = (
+  candles: Candle[],
+  intervalMinutes: number
+): CandlestickDataPoint[] => {
+  const points = candles.map(toCandlestickPoint);
+
+  // 시간 범위가 너무 넓은 경우 최근 데이터만 사용
+  if (points.length > 0) {
+    const now = Date.now();
+    // 30일, 단 스크롤백으로 불러온 캔들은 메모리 예산만큼의 기간은 유지
+    const maxAge = Math.max(
+      30 * 24 * 60 * 60 * 1000,
+      intervalMinutes * MAX_LOADED_CANDLES * 60000
+    );
+    const filteredPoints = points.filter((point) => now - point.x <= maxAge);
+
+    if (filteredPoints.length > 0) {
+      return filteredPoints;
+    }
+  }
+
+  return points;
+};
+
+const toVolumePoint = (point: CandlestickDataPoint): VolumePoint => ({
+  x: point.x,
+  y: point.v,
+  up: point.c >= point.o,
+});
+
+const toVolumePoints = (points: CandlestickDataPoint[]): VolumePoint[] =>
+  points.map(toVolumePoint);
+
+// 보조지표 선을 가격 축에 겹쳐 그리는 line 데이터셋으로 변환
+const toIndicatorDataset = (line: IndicatorLine) =>
+  ({
+    type: "line",
+    label: line.label,
+    data: line.points,
+    borderColor: line.color,
+    borderWidth: 1.5,
+    borderDash: line.dashed ? [4, 4] : [],
+    pointRadius: 0,
+    pointHoverRadius: 0,
+    yAxisID: "y",
+  } as unknown as ChartDataset<"candlestick">);
+
+// 0: 캔들, 1: 거래량, 2~: 보조지표와 오실레이터
+const INDICATOR_DATASET_OFFSET = 2;
+
+const OSCILLATOR_SCALE_PREFIX = "oscillator-";
+
+const CLOSE_DELTA_SCALE = "closeDelta";
+
+// 가격/거래량 패널 아래에 쌓이는 보조 패널 y축 (오실레이터, 종가 차이)
+const toPaneScale = (
+  pane: { label: string; min?: number; max?: number; guides: number[] },
+  // 같은 stack 안에서 위에서부터 가격, 거래량, 종가 차이, 오실레이터 순으로 배치
+  weight: number,
+  formatter: Intl.NumberFormat
+) => ({
+  type: "linear",
+  position: "right",
+  stack: "panes",
+  stackWeight: 1.5,
+  weight,
+  offset: true,
+  min: pane.min,
+  max: pane.max,
+  guides: pane.guides,
+  title: {
+    display: true,
+    text: pane.label,
+    color: "rgba(148, 163, 184, 0.8)",
+    font: { size: 10 },
+  },
+  grid: {
+    color: "rgba(148, 163, 184, 0.08)",
+  },
+  ticks: {
+    color: "rgba(226, 232, 240, 0.55)",
+    maxTicksLimit: 3,
+    callback: (value: number | string) => formatter.format(Number(value)),
+  },
+  border: {
+    color: "rgba(148, 163, 184, 0.2)",
+  },
+});
+
+const toOscillatorDatasets = (pane: OscillatorPane, firstVisibleTime: number) =>
+  pane.series.map(
+    (series) =>
+      ({
+        type: series.kind,
+        label: series.label,
+        // 계산 상태가 가진 배열을 차트가 직접 건드리지 않도록 복사해서 넘긴다
+        data: series.points.filter((point) => point.x >= firstVisibleTime),
+        yAxisID: `${OSCILLATOR_SCALE_PREFIX}${pane.type}`,
+        borderColor: series.color,
+        borderWidth: series.kind === "line" ? 1.5 : 0,
+        backgroundColor:
+          series.kind === "bar"
+            ? (context: { raw?: unknown }) =>
+                ((context.raw as { y: number } | undefined)?.y ?? 0) >= 0
+                  ? "rgba(52, 211, 153, 0.5)"
+                  : "rgba(251, 113, 133, 0.5)"
+            : series.color,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        barPercentage: 1,
+        categoryPercentage: 0.8,
+      } as unknown as ChartDataset<"candlestick">)
+  );
+
+// 같은 차트에 겹쳐 그릴 다른 캔들 시계열 (예: 참조 거래소)
+export type CandleOverlay = {
+  id: string;
+  label: string;
+  data: Candle[];
+  // line: 종가 선, ohlc: 속이 빈 OHLC 바
+  style: "line" | "ohlc";
+  color: string;
+};
+
+const toOverlayDataset = (
+  overlay: CandleOverlay,
+  points: CandlestickDataPoint[]
+) =>
+  (overlay.style === "ohlc"
+    ? {
+        type: "ohlc",
+        label: overlay.label,
+        data: points,
+        borderColors: {
+          up: overlay.color,
+          down: overlay.color,
+          unchanged: overlay.color,
+        },
+        yAxisID: "y",
+      }
+    : {
+        type: "line",
+        label: overlay.label,
+        data: points.map((point) => ({ x: point.x, y: point.c })),
+        borderColor: overlay.color,
+        borderWidth: 1.5,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        yAxisID: "y",
+      }) as unknown as ChartDataset<"candlestick">;
+
+const toCloseDeltaPoint = (
+  point: CandlestickDataPoint,
+  matched: CandlestickDataPoint | undefined
+) => (matched ? { x: point.x, y: point.c - matched.c } : null);
+
+// 같은 시각 캔들끼리 기준 차트 종가 - 겹친 시계열 종가
+const toCloseDeltaDataset = (
+  points: CandlestickDataPoint[],
+  overlayPoints: CandlestickDataPoint[]
+) => {
+  const overlayByTime = new Map(overlayPoints.map((point) => [point.x, point]));
+  return {
+    type: "bar",
+    label: "종가 차이",
+    data: points.flatMap((point) => {
+      const delta = toCloseDeltaPoint(point, overlayByTime.get(point.x));
+      return delta ? [delta] : [];
+    }),
+    yAxisID: CLOSE_DELTA_SCALE,
+    backgroundColor: (context: { raw?: unknown }) =>
+      ((context.raw as { y: number } | undefined)?.y ?? 0) >= 0
+        ? "rgba(52, 211, 153, 0.5)"
+        : "rgba(251, 113, 133, 0.5)",
+    barPercentage: 1,
+    categoryPercentage: 0.8,
+  } as unknown as ChartDataset<"candlestick">;
+};
+
+// 가격 축 데이터셋인지 (오실레이터는 자체 축을 쓴다)
+const isPriceDataset = (dataset: { yAxisID?: string }) =>
+  !dataset.yAxisID || dataset.yAxisID === "y";
+
+// 정렬된 캔들 점에서 value에 가장 가까운 점의 인덱스 (없으면 -1)
+const findNearestPointIndex = (
+  points: CandlestickDataPoint[],
+  value: number
+): number => {
+  if (points.length === 0) {
+    return -1;
+  }
+
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].x < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low > 0 && value - points[low - 1].x < points[low].x - value
+    ? low - 1
+    : low;
+};
+
+// 다른 차트에서 가리킨 캔들에 툴팁을 띄운다 (openTime이 null이면 숨김)
+const showSyncedTooltip = (chart: Chart, openTime: number | null) => {
+  const points = (chart.data.datasets[0]?.data ?? []) as CandlestickDataPoint[];
+  const index =
+    openTime === null ? -1 : points.findIndex((point) => point.x === openTime);
+  const active = index === -1 ? [] : [{ datasetIndex: 0, index }];
+
+  chart.setActiveElements(active);
+  chart.tooltip?.setActiveElements(
+    active,
+    index === -1
+      ? { x: 0, y: 0 }
+      : {
+          x: chart.scales.x.getPixelForValue(points[index].x),
+          y: chart.scales.y.getPixelForValue(points[index].c),
+        }
+  );
+  chart.draw();
+};
+
+// 지우개가 그림을 잡는 거리와 OHLC 자석이 가격을 붙이는 거리 (px)
+const DRAWING_HIT_DISTANCE_PX = 8;
+const DRAWING_SNAP_DISTANCE_PX = 12;
+const DRAWING_FONT = "12px sans-serif";
+
+// 두 번 클릭해 완성하는 그림의 미리보기
+type DrawingDraft = {
+  type: "trendLine" | "rectangle";
+  start: DrawingPoint;
+  end: DrawingPoint;
+};
+
+const toDrawingPixel = (chart: Chart, point: DrawingPoint) => ({
+  x: chart.scales.x.getPixelForValue(point.time),
+  y: chart.scales.y.getPixelForValue(point.price),
+});
+
+// 픽셀 위치를 시각/가격으로 변환. candles를 넘기면 OHLC 자석을 적용
+const toDrawingPoint = (
+  chart: Chart,
+  x: number,
+  y: number,
+  candles: Candle[] | null
+): DrawingPoint => {
+  const { scales } = chart;
+  const point = {
+    time: scales.x.getValueForPixel(x) ?? 0,
+    price: scales.y.getValueForPixel(y) ?? 0,
+  };
+  if (!candles) {
+    return point;
+  }
+  const tolerance = Math.abs(
+    (scales.y.getValueForPixel(y + DRAWING_SNAP_DISTANCE_PX) ?? point.price) -
+      point.price
+  );
+  return snapDrawingPoint(point, candles, tolerance);
+};
+
+// 메모 텍스트를 감싸는 상자 (point가 상자의 왼쪽 아래)
+const getDrawingTextBox = (
+  chart: Chart,
+  drawing: Extract<Drawing, { type: "text" }>
+) => {
+  const { x, y } = toDrawingPixel(chart, drawing.point);
+  chart.ctx.font = DRAWING_FONT;
+  const width = chart.ctx.measureText(drawing.text).width + 8;
+  return { left: x, top: y - 18, right: x + width, bottom: y };
+};
+
+const distanceToSegment = (
+  x: number,
+  y: number,
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+) => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.min(
+          Math.max(
+            ((x - start.x) * dx + (y - start.y) * dy) / lengthSquared,
+            0
+          ),
+          1
+        );
+  return Math.hypot(x - (start.x + t * dx), y - (start.y + t * dy));
+};
+
+// (x, y)에서 그림까지의 픽셀 거리. 사각형과 메모는 안쪽이면 0
+const getDrawingDistance = (
+  chart: Chart,
+  drawing: Drawing,
+  x: number,
+  y: number
+): number => {
+  if (drawing.type === "horizontalLine") {
+    return Math.abs(y - chart.scales.y.getPixelForValue(drawing.price));
+  }
+  if (drawing.type === "trendLine") {
+    return distanceToSegment(
+      x,
+      y,
+      toDrawingPixel(chart, drawing.start),
+      toDrawingPixel(chart, drawing.end)
+    );
+  }
+
+  let box: { left: number; top: number; right: number; bottom: number };
+  if (drawing.type === "text") {
+    box = getDrawingTextBox(chart, drawing);
+  } else {
+    const start = toDrawingPixel(chart, drawing.start);
+    const end = toDrawingPixel(chart, drawing.end);
+    box = {
+      left: Math.min(start.x, end.x),
+      top: Math.min(start.y, end.y),
+      right: Math.max(start.x, end.x),
+      bottom: Math.max(start.y, end.y),
+    };
+  }
+  return Math.hypot(
+    Math.max(box.left - x, 0, x - box.right),
+    Math.max(box.top - y, 0, y - box.bottom)
+  );
+};
+
+const drawDrawing = (chart: Chart, drawing: Drawing, alpha = 1) => {
+  const { ctx, chartArea } = chart;
+  const color = DRAWING_COLORS[drawing.type];
+  ctx.globalAlpha = alpha;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.font = DRAWING_FONT;
+
+  if (drawing.type === "trendLine") {
+    const start = toDrawingPixel(chart, drawing.start);
+    const end = toDrawingPixel(chart, drawing.end);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+  } else if (drawing.type === "horizontalLine") {
+    const y = chart.scales.y.getPixelForValue(drawing.price);
+    const label = priceFormatter.format(drawing.price);
+    ctx.beginPath();
+    ctx.moveTo(chartArea.left, y);
+    ctx.lineTo(chartArea.right, y);
+    ctx.stroke();
+    ctx.fillText(
+      label,
+      chartArea.right - ctx.measureText(label).width - 4,
+      y - 4
+    );
+  } else if (drawing.type === "rectangle") {
+    const start = toDrawingPixel(chart, drawing.start);
+    const end = toDrawingPixel(chart, drawing.end);
+    ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+    ctx.globalAlpha = alpha * 0.15;
+    ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else {
+    const box = getDrawingTextBox(chart, drawing);
+    ctx.fillStyle = "rgba(15, 23, 42, 0.85)";
+    ctx.fillRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+    ctx.strokeRect(
+      box.left,
+      box.top,
+      box.right - box.left,
+      box.bottom - box.top
+    );
+    ctx.fillStyle = color;
+    ctx.fillText(drawing.text, box.left + 4, box.bottom - 5);
+  }
+  ctx.globalAlpha = 1;
+};
+
+// 확대/이동 후 화면에 보이는 시간 구간 (null이면 전체)
+export type VisibleRange = { start: number; end: number };
+
+type MinuteChartProps = {
+  data: Candle[];
+  symbol: string;
+  intervalMinutes: number;
+  onVisibleRangeChange?: (range: VisibleRange | null) => void;
+  // 누락 구간을 음영으로 표시
+  gaps?: CandleGap[];
+  // 가격 축에 겹쳐 그릴 보조지표 설정
+  indicators?: IndicatorConfig[];
+  // 가격 차트 아래 패널에 그릴 오실레이터 설정
+  oscillators?: OscillatorConfig[];
+  showVolume?: boolean;
+  // 연동 모드에서 x축 구간, 십자선, 툴팁을 공유할 동기화 허브 (null이면 독립)
+  sync?: ChartSync | null;
+  syncId?: string;
+  // 다른 차트와 종가를 비교할 때 쓸 캔들 (FX 환산 등). 생략하면 data
+  compareData?: Candle[];
+  // 가격 축에 겹쳐 그릴 다른 캔들 시계열과, 첫 시계열과의 종가 차이 패널 표시 여부
+  overlays?: CandleOverlay[];
+  showCloseDelta?: boolean;
+  // 값이 바뀌면 확대/이동 상태를 초기화
+  resetKey?: number;
+  // 처음 그릴 때 전체 대신 보여줄 구간 (공유 링크 복원). 같은 객체는 한 번만 적용
+  initialRange?: VisibleRange | null;
+  // 가격 패널에 그릴 그림과 클릭으로 그림을 추가/삭제할 도구 (null이면 이동/확대)
+  drawings?: Drawing[];
+  drawingTool?: DrawingTool | null;
+  // 그림 좌표를 가까운 캔들의 시/고/저/종가에 붙인다
+  snapDrawings?: boolean;
+  onDrawingsChange?: (drawings: Drawing[]) => void;
+};
+
+export function MinuteChart({
+  data,
+  symbol,
+  intervalMinutes,
+  onVisibleRangeChange,
+  gaps,
+  indicators,
+  oscillators,
+  showVolume = true,
+  sync = null,
+  syncId = "chart",
+  compareData,
+  overlays,
+  showCloseDelta = false,
+  resetKey = 0,
+  initialRange = null,
+  drawings,
+  drawingTool = null,
+  snapDrawings = true,
+  onDrawingsChange,
+}: MinuteChartProps) {
+  const onVisibleRangeChangeRef = useRef(onVisibleRangeChange);
+  onVisibleRangeChangeRef.current = onVisibleRangeChange;
+  const syncRef = useRef(sync ? { sync, id: syncId } : null);
+  syncRef.current = sync ? { sync, id: syncId } : null;
+  // 십자선을 그릴 캔들 시각과 마지막으로 다른 차트에 알린 시각
+  const crosshairTimeRef = useRef<number | null>(null);
+  const publishedHoverRef = useRef<number | null>(null);
+  const gapsRef = useRef<CandleGap[]>(gaps ?? []);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const snapDrawingsRef = useRef(snapDrawings);
+  snapDrawingsRef.current = snapDrawings;
+  const onDrawingsChangeRef = useRef(onDrawingsChange);
+  onDrawingsChangeRef.current = onDrawingsChange;
+  const drawingsRef = useRef<Drawing[]>(drawings ?? []);
+  const drawingToolRef = useRef(drawingTool);
+  const drawingDraftRef = useRef<DrawingDraft | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const chartRef = useRef<Chart | null>(null);
+  const initialRenderRef = useRef(true);
+  const lastSymbolRef = useRef<string | null>(null);
+  const lastIntervalRef = useRef<number | null>(null);
+  const lastResetKeyRef = useRef(resetKey);
+  const appliedInitialRangeRef = useRef<VisibleRange | null>(null);
+  const oscillatorTrackerRef = useRef<OscillatorTracker | null>(null);
+  const indicatorTrackerRef = useRef<IndicatorTracker | null>(null);
+  // 겹친 시계열별로 캔들 배열이 바뀔 때만 점을 다시 만든다
+  const overlayPointsRef = useRef(
+    new Map<string, { data: Candle[]; points: CandlestickDataPoint[] }>()
+  );
+  // 마지막으로 차트에 반영한 입력 (진행 중인 캔들만 바뀐 갱신을 알아보는 데 사용)
+  const renderedRef = useRef<{
+    data: Candle[];
+    inputs: unknown[];
+    hasCloseDelta: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+
+    if (!container || !canvas || chartRef.current) {
+      return;
+    }
+
+    let disposed = false;
+    let resizeObserver: ResizeObserver | null = null;
+    let chartInstance: Chart | null = null;
+
+    const initializeChart = async () => {
+      await ensureFinancialChartRegistered();
+
+      if (disposed || !container || !canvas) {
+        return;
+      }
+
+      const reportVisibleRange = ({ chart }: { chart: Chart }) => {
+        const { min, max } = chart.scales.x;
+        onVisibleRangeChangeRef.current?.({ start: min, end: max });
+      };
+
+      // 사용자가 확대/이동하는 동안 연동된 차트에 구간을 전달 (api 호출은 다른 차트에서 온 것)
+      const publishRange = ({
+        chart,
+        trigger,
+      }: {
+        chart: Chart;
+        trigger?: string;
+      }) => {
+        const link = syncRef.current;
+        if (!link || trigger === "api") {
+          return;
+        }
+        const { min, max } = chart.scales.x;
+        link.sync.publishRange(link.id, { start: min, end: max });
+      };
+
+      // 가리킨 캔들 시각을 연동된 차트에 알리고 세로 십자선을 그린다
+      const crosshairPlugin = {
+        id: "syncCrosshair",
+        afterEvent: (
+          target: Chart,
+          args: {
+            event: { type: string; x: number | null };
+            inChartArea: boolean;
+            changed?: boolean;
+          }
+        ) => {
+          const link = syncRef.current;
+          const { event, inChartArea } = args;
+          if (
+            !link ||
+            (event.type !== "mousemove" && event.type !== "mouseout")
+          ) {
+            return;
+          }
+
+          let openTime: number | null = null;
+          if (event.type === "mousemove" && inChartArea && event.x !== null) {
+            const points = target.data.datasets[0]
+              .data as CandlestickDataPoint[];
+            const index = findNearestPointIndex(
+              points,
+              target.scales.x.getValueForPixel(event.x) ?? 0
+            );
+            openTime = index === -1 ? null : points[index].x;
+          }
+
+          if (openTime !== publishedHoverRef.current) {
+            publishedHoverRef.current = openTime;
+            crosshairTimeRef.current = openTime;
+            link.sync.publishHover(link.id, openTime);
+            args.changed = true;
+          }
+        },
+        afterDatasetsDraw: (target: Chart) => {
+          const openTime = crosshairTimeRef.current;
+          if (openTime === null) {
+            return;
+          }
+          const { ctx, chartArea, scales } = target;
+          const x = scales.x.getPixelForValue(openTime);
+          if (x < chartArea.left || x > chartArea.right) {
+            return;
+          }
+          ctx.save();
+          ctx.strokeStyle = "rgba(226, 232, 240, 0.45)";
+          ctx.setLineDash([4, 4]);
+          ctx.beginPath();
+          ctx.moveTo(x, chartArea.top);
+          ctx.lineTo(x, chartArea.bottom);
+          ctx.stroke();
+          ctx.restore();
+        },
+      };
+
+      // 누락 구간 앞뒤 캔들 사이를 음영으로 칠한다
+      const gapHighlightPlugin = {
+        id: "gapHighlight",
+        beforeDatasetsDraw: (target: Chart) => {
+          if (gapsRef.current.length === 0) {
+            return;
+          }
+          const { ctx, chartArea, scales } = target;
+          const halfInterval = (lastIntervalRef.current ?? 1) * 30000;
+          ctx.save();
+          ctx.fillStyle = "rgba(251, 191, 36, 0.12)";
+          for (const gap of gapsRef.current) {
+            const left = Math.max(
+              scales.x.getPixelForValue(gap.start - halfInterval),
+              chartArea.left
+            );
+            const right = Math.min(
+              scales.x.getPixelForValue(gap.end + halfInterval),
+              chartArea.right
+            );
+            if (right > left) {
+              ctx.fillRect(
+                left,
+                chartArea.top,
+                right - left,
+                chartArea.bottom - chartArea.top
+              );
+            }
+          }
+          ctx.restore();
+        },
+      };
+
+      // 오실레이터 패널에 과매수/과매도 기준선을 그린다
+      const oscillatorGuidePlugin = {
+        id: "oscillatorGuides",
+        beforeDatasetsDraw: (target: Chart) => {
+          const { ctx, chartArea, scales } = target;
+          ctx.save();
+          ctx.strokeStyle = "rgba(148, 163, 184, 0.35)";
+          ctx.setLineDash([3, 3]);
+          for (const scale of Object.values(scales)) {
+            const guides = (scale.options as any).guides as
+              | number[]
+              | undefined;
+            for (const guide of guides ?? []) {
+              const y = scale.getPixelForValue(guide);
+              if (y < scale.top || y > scale.bottom) {
+                continue;
+              }
+              ctx.beginPath();
+              ctx.moveTo(chartArea.left, y);
+              ctx.lineTo(chartArea.right, y);
+              ctx.stroke();
+            }
+          }
+          ctx.restore();
+        },
+      };
+
+      // 도구가 켜져 있으면 가격 패널 클릭으로 그림을 추가/삭제하고, 그림은 가격 패널 안에만 그린다
+      const drawingPlugin = {
+        id: "drawings",
+        afterEvent: (
+          target: Chart,
+          args: {
+            event: { type: string; x: number | null; y: number | null };
+            changed?: boolean;
+          }
+        ) => {
+          const tool = drawingToolRef.current;
+          const { x, y, type } = args.event;
+          if (!tool || x === null || y === null) {
+            return;
+          }
+
+          const { chartArea, scales } = target;
+          const inPricePane =
+            x >= chartArea.left &&
+            x <= chartArea.right &&
+            y >= scales.y.top &&
+            y <= scales.y.bottom;
+          const candles = snapDrawingsRef.current ? dataRef.current : null;
+
+          if (type === "mousemove") {
+            if (drawingDraftRef.current && inPricePane) {
+              drawingDraftRef.current.end = toDrawingPoint(
+                target,
+                x,
+                y,
+                candles
+              );
+              args.changed = true;
+            }
+            return;
+          }
+          if (type !== "click" || !inPricePane) {
+            return;
+          }
+
+          const current = drawingsRef.current;
+          if (tool === "eraser") {
+            const hit = current
+              .map((drawing) => ({
+                drawing,
+                distance: getDrawingDistance(target, drawing, x, y),
+              }))
+              .filter(({ distance }) => distance <= DRAWING_HIT_DISTANCE_PX)
+              .sort((a, b) => a.distance - b.distance)[0];
+            if (hit) {
+              onDrawingsChangeRef.current?.(
+                current.filter((drawing) => drawing.id !== hit.drawing.id)
+              );
+            }
+            return;
+          }
+
+          const point = toDrawingPoint(target, x, y, candles);
+          const draft = drawingDraftRef.current;
+          let drawing: Drawing | null = null;
+
+          if (tool === "horizontalLine") {
+            drawing = { id: createId(), type: tool, price: point.price };
+          } else if (tool === "text") {
+            const text = window.prompt("메모 내용을 입력하세요")?.trim();
+            drawing = text
+              ? { id: createId(), type: tool, point, text }
+              : null;
+          } else if (!draft) {
+            drawingDraftRef.current = { type: tool, start: point, end: point };
+            args.changed = true;
+          } else {
+            drawing = {
+              id: createId(),
+              type: draft.type,
+              start: draft.start,
+              end: point,
+            };
+            drawingDraftRef.current = null;
+          }
+
+          if (drawing) {
+            onDrawingsChangeRef.current?.([...current, drawing]);
+          }
+        },
+        afterDatasetsDraw: (target: Chart) => {
+          const draft = drawingDraftRef.current;
+          if (drawingsRef.current.length === 0 && !draft) {
+            return;
+          }
+          const { ctx, chartArea, scales } = target;
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(
+            chartArea.left,
+            scales.y.top,
+            chartArea.right - chartArea.left,
+            scales.y.bottom - scales.y.top
+          );
+          ctx.clip();
+          for (const drawing of drawingsRef.current) {
+            drawDrawing(target, drawing);
+          }
+          if (draft) {
+            drawDrawing(target, { id: "draft", ...draft }, 0.6);
+          }
+          ctx.restore();
+        },
+      };
+
+      const chart = new Chart(canvas, {
+        type: "candlestick",
+        plugins: [
+          gapHighlightPlugin,
+          oscillatorGuidePlugin,
+          crosshairPlugin,
+          drawingPlugin,
+        ],
+        data: {
+          datasets: [
+            {
+              label: "",
+              data: [] as CandlestickDataPoint[],
+              upColor: "#34d399",
+              downColor: "#fb7185",
+              borderColor: "rgba(148, 163, 184, 0.25)",
+              borderUpColor: "#34d399",
+              borderDownColor: "#fb7185",
+              wickUpColor: "#34d399",
+              wickDownColor: "#fb7185",
+            } as CandlestickDataset,
+            {
+              type: "bar",
+              label: "거래량",
+              data: [] as VolumePoint[],
+              yAxisID: "volume",
+              backgroundColor: (context: { raw?: unknown }) =>
+                (context.raw as VolumePoint | undefined)?.up
+                  ? "rgba(52, 211, 153, 0.45)"
+                  : "rgba(251, 113, 133, 0.45)",
+              barPercentage: 1,
+              categoryPercentage: 0.8,
+            } as unknown as ChartDataset<"candlestick">,
+          ],
+        },
+        options: {
+          animation: false,
+          responsive: true,
+          maintainAspectRatio: false,
+          parsing: false,
+          interaction: {
+            mode: "nearest",
+            intersect: false,
+          },
+          plugins: {
+            legend: {
+              display: false,
+            },
+            tooltip: {
+              callbacks: {
+                label: (context) => {
+                  if (context.datasetIndex === 1) {
+                    const volume = context.raw as VolumePoint | undefined;
+                    return volume
+                      ? `거래량: ${volumeFormatter.format(volume.y)}`
+                      : "";
+                  }
+                  if (context.datasetIndex >= INDICATOR_DATASET_OFFSET) {
+                    const formatter = isPriceDataset(context.dataset as any)
+                      ? priceFormatter
+                      : oscillatorFormatter;
+                    // OHLC로 겹친 시계열은 종가를 표시
+                    const value =
+                      (context.raw as Partial<CandlestickDataPoint>)?.c ??
+                      context.parsed.y;
+                    return `${context.dataset.label}: ${formatter.format(
+                      value
+                    )}`;
+                  }
+
+                  const raw = context.raw as CandlestickDataPoint | undefined;
+
+                  if (!raw) {
+                    return "";
+                  }
+
+                  return [
+                    `시가: ${priceFormatter.format(raw.o)}`,
+                    `고가: ${priceFormatter.format(raw.h)}`,
+                    `저가: ${priceFormatter.format(raw.l)}`,
+                    `종가: ${priceFormatter.format(raw.c)}`,
+                    `거래: ${volumeFormatter.format(raw.v)}`,
+                  ];
+                },
+                // 연동 모드에서는 같은 시각 다른 차트 종가와의 차이를 함께 표시
+                footer: (items) => {
+                  const link = syncRef.current;
+                  const openTime = items[0]?.parsed.x;
+                  if (!link || openTime === undefined) {
+                    return [];
+                  }
+                  return link.sync
+                    .compareAt(link.id, openTime)
+                    .map(({ label, own, peer }) => {
+                      const diff = own.close - peer.close;
+                      const percent =
+                        peer.close === 0 ? null : (diff / peer.close) * 100;
+                      return `${label} 대비 종가 ${formatSigned(
+                        diff,
+                        priceFormatter
+                      )}${
+                        percent === null
+                          ? ""
+                          : ` (${formatSigned(percent, percentFormatter)}%)`
+                      }`;
+                    });
+                },
+              },
+            },
+            zoom: {
+              limits: {
+                y: { min: "original", max: "original" },
+              },
+              pan: {
+                // 그리기 도구를 쓰는 동안에는 드래그로 이동하지 않는다
+                enabled: !drawingToolRef.current,
+                mode: "x",
+                onPan: publishRange,
+                onPanComplete: reportVisibleRange,
+              },
+              zoom: {
+                wheel: {
+                  enabled: true,
+                },
+                pinch: {
+                  enabled: true,
+                },
+                mode: "x",
+                onZoom: publishRange,
+                onZoomComplete: reportVisibleRange,
+              },
+            } as Record<string, unknown>,
+          },
+          scales: {
+            x: {
+              type: "time",
+              time: {
+                unit: getTimeUnit(intervalMinutes),
+                tooltipFormat: getTimeDisplayFormat(intervalMinutes),
+                displayFormats: {
+                  minute: "HH:mm",
+                  hour: "MM/dd HH:mm",
+                  day: "MM/dd",
+                  month: "yyyy/MM",
+                  year: "yyyy",
+                },
+                minUnit: "minute",
+              },
+              grid: {
+                color: "rgba(148, 163, 184, 0.08)",
+              },
+              ticks: {
+                color: "rgba(226, 232, 240, 0.65)",
+                maxRotation: 0,
+                source: "data",
+                maxTicksLimit: 10,
+              },
+              border: {
+                color: "rgba(148, 163, 184, 0.2)",
+              },
+            },
+            // 가격/거래량 축을 같은 stack에 쌓아 x축을 공유하는 두 패널로 나눈다
+            y: {
+              position: "right",
+              stack: showVolume ? "panes" : undefined,
+              stackWeight: 4,
+              grid: {
+                color: "rgba(148, 163, 184, 0.08)",
+              },
+              ticks: {
+                color: "rgba(226, 232, 240, 0.7)",
+                callback: (value) => priceFormatter.format(Number(value)),
+              },
+              border: {
+                color: "rgba(148, 163, 184, 0.2)",
+              },
+            },
+            volume: {
+              position: "right",
+              display: showVolume,
+              stack: showVolume ? "panes" : undefined,
+              stackWeight: 1,
+              offset: true,
+              beginAtZero: true,
+              grid: {
+                color: "rgba(148, 163, 184, 0.08)",
+              },
+              ticks: {
+                color: "rgba(226, 232, 240, 0.55)",
+                maxTicksLimit: 3,
+                callback: (value) => volumeFormatter.format(Number(value)),
+              },
+              border: {
+                color: "rgba(148, 163, 184, 0.2)",
+              },
+            },
+          },
+        },
+      });
+
+      chartRef.current = chart;
+      chartInstance = chart;
+
+      resizeObserver =
+        typeof ResizeObserver !== "undefined"
+          ? new ResizeObserver(() => chart.resize())
+          : null;
+
+      if (resizeObserver) {
+        resizeObserver.observe(container);
+      }
+    };
+
+    void initializeChart();
+
+    return () => {
+      disposed = true;
+      resizeObserver?.disconnect();
+      chartInstance?.destroy();
+      chartRef.current = null;
+      renderedRef.current = null;
+      initialRenderRef.current = true;
+      lastSymbolRef.current = null;
+      lastIntervalRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (lastSymbolRef.current !== symbol) {
+      lastSymbolRef.current = symbol;
+      initialRenderRef.current = true;
+    }
+
+    if (lastIntervalRef.current !== intervalMinutes) {
+      lastIntervalRef.current = intervalMinutes;
+      initialRenderRef.current = true;
+    }
+
+    if (lastResetKeyRef.current !== resetKey) {
+      lastResetKeyRef.current = resetKey;
+      initialRenderRef.current = true;
+    }
+
+    const chart = chartRef.current;
+
+    if (!chart) {
+      return;
+    }
+
+    const dataset = chart.data.datasets[0] as CandlestickDataset;
+    const volumeDataset = chart.data.datasets[1];
+    const scales = (chart.options.scales ?? {}) as Record<string, any>;
+
+    if (!oscillatorTrackerRef.current) {
+      oscillatorTrackerRef.current = createOscillatorTracker();
+    }
+    if (!indicatorTrackerRef.current) {
+      indicatorTrackerRef.current = createIndicatorTracker();
+    }
+    const oscillatorPanes = data.length
+      ? oscillatorTrackerRef.current.update(oscillators ?? [], data)
+      : [];
+    const indicatorLines = indicatorTrackerRef.current.update(
+      indicators ?? [],
+      data,
+      intervalMinutes
+    );
+
+    const inputs = [
+      symbol,
+      intervalMinutes,
+      indicators,
+      oscillators,
+      showVolume,
+      overlays,
+      showCloseDelta,
+      resetKey,
+      initialRange,
+    ];
+    const rendered = renderedRef.current;
+
+    // 진행 중인 마지막 캔들만 바뀌었으면 각 데이터셋의 마지막 점만 바꿔 끼운다
+    if (
+      !initialRenderRef.current &&
+      rendered &&
+      rendered.inputs.every((value, index) => value === inputs[index]) &&
+      isLastCandleUpdate(rendered.data, data)
+    ) {
+      const last = data[data.length - 1];
+      const point = toCandlestickPoint(last);
+      const replaceDatasetPoint = (
+        datasetIndex: number,
+        next: { x: number } | null | undefined
+      ) => {
+        replaceLastPoint(
+          chart.data.datasets[datasetIndex].data as unknown as { x: number }[],
+          last.openTime,
+          next?.x === last.openTime ? next : null
+        );
+      };
+
+      replaceDatasetPoint(0, point);
+      replaceDatasetPoint(1, toVolumePoint(point));
+
+      let datasetIndex = INDICATOR_DATASET_OFFSET + (overlays ?? []).length;
+      if (rendered.hasCloseDelta) {
+        const overlayPoints =
+          overlayPointsRef.current.get((overlays ?? [])[0].id)?.points ?? [];
+        replaceDatasetPoint(
+          datasetIndex,
+          toCloseDeltaPoint(
+            point,
+            overlayPoints.find((item) => item.x === last.openTime)
+          )
+        );
+        datasetIndex += 1;
+      }
+      for (const line of indicatorLines) {
+        replaceDatasetPoint(datasetIndex, line.points[line.points.length - 1]);
+        datasetIndex += 1;
+      }
+      for (const pane of oscillatorPanes) {
+        for (const series of pane.series) {
+          replaceDatasetPoint(
+            datasetIndex,
+            series.points[series.points.length - 1]
+          );
+          datasetIndex += 1;
+        }
+      }
+
+      renderedRef.current = { ...rendered, data };
+      chart.update();
+      return;
+    }
+
+    const cachedOverlayPoints = overlayPointsRef.current;
+    const overlayPoints = (overlays ?? []).map((overlay) => {
+      const cached = cachedOverlayPoints.get(overlay.id);
+      if (cached?.data === overlay.data) {
+        return cached.points;
+      }
+      const points = toCandlestickPoints(overlay.data, intervalMinutes);
+      cachedOverlayPoints.set(overlay.id, { data: overlay.data, points });
+      return points;
+    });
+    for (const id of Array.from(cachedOverlayPoints.keys())) {
+      if (!(overlays ?? []).some((overlay) => overlay.id === id)) {
+        cachedOverlayPoints.delete(id);
+      }
+    }
+    const hasCloseDelta =
+      showCloseDelta && data.length > 0 && (overlayPoints[0]?.length ?? 0) > 0;
+
+    // 꺼진 오실레이터/종가 차이 패널의 축 제거
+    for (const key of Object.keys(scales)) {
+      if (
+        (key.startsWith(OSCILLATOR_SCALE_PREFIX) &&
+          !oscillatorPanes.some(
+            (pane) => `${OSCILLATOR_SCALE_PREFIX}${pane.type}` === key
+          )) ||
+        (key === CLOSE_DELTA_SCALE && !hasCloseDelta)
+      ) {
+        delete scales[key];
+      }
+    }
+
+    if (!data.length) {
+      dataset.data = [];
+      volumeDataset.data = [];
+      chart.data.datasets.length = INDICATOR_DATASET_OFFSET;
+      renderedRef.current = null;
+      chart.update("none");
+      return;
+    }
+
+    dataset.label = symbol
+      ? `${symbol} ${formatIntervalLabel(intervalMinutes)}봉`
+      : dataset.label;
+    dataset.data = toCandlestickPoints(data, intervalMinutes);
+    volumeDataset.data = toVolumePoints(dataset.data) as any;
+    volumeDataset.hidden = !showVolume;
+
+    // 아래 패널이 하나도 없으면 stack에서 빼서 가격 패널이 전체 높이를 쓰게 한다
+    if (scales.volume && scales.y) {
+      scales.volume.display = showVolume;
+      scales.volume.stack = showVolume ? "panes" : undefined;
+      scales.y.stack =
+        showVolume || hasCloseDelta || oscillatorPanes.length > 0
+          ? "panes"
+          : undefined;
+    }
+    if (hasCloseDelta) {
+      scales[CLOSE_DELTA_SCALE] = toPaneScale(
+        { label: "종가 차이", guides: [0] },
+        1,
+        priceFormatter
+      );
+    }
+    oscillatorPanes.forEach((pane, order) => {
+      scales[`${OSCILLATOR_SCALE_PREFIX}${pane.type}`] = toPaneScale(
+        pane,
+        2 + order,
+        oscillatorFormatter
+      );
+    });
+
+    const firstVisibleTime = dataset.data[0]?.x ?? 0;
+    chart.data.datasets.splice(
+      INDICATOR_DATASET_OFFSET,
+      chart.data.datasets.length,
+      ...(overlays ?? []).map((overlay, index) =>
+        toOverlayDataset(overlay, overlayPoints[index])
+      ),
+      ...(hasCloseDelta
+        ? [toCloseDeltaDataset(dataset.data, overlayPoints[0])]
+        : []),
+      ...indicatorLines.map((line) =>
+        toIndicatorDataset({
+          ...line,
+          // 차트에 표시되는 캔들 구간만 그린다 (계산은 전체 캔들로 해 초기 구간도 정확하게)
+          points: line.points.filter((point) => point.x >= firstVisibleTime),
+        })
+      ),
+      ...oscillatorPanes.flatMap((pane) =>
+        toOscillatorDatasets(pane, firstVisibleTime)
+      )
+    );
+    renderedRef.current = { data, inputs, hasCloseDelta };
+
+    // 분봉 간격이 변경되었을 때 차트 재생성
+    if (lastIntervalRef.current !== intervalMinutes) {
+      // 차트를 완전히 재생성하여 시간 축 설정을 새로 적용
+      chart.destroy();
+      chartRef.current = null;
+      initialRenderRef.current = true;
+      lastSymbolRef.current = null;
+      lastIntervalRef.current = null;
+      return; // 차트가 재생성되므로 여기서 종료
+    }
+
+    // 데이터 범위에 맞는 시간 단위 자동 선택
+    if (data.length > 0) {
+      const timeUnit = getTimeUnitFromData(dataset.data);
+      const timeDisplayFormat = getTimeDisplayFormat(intervalMinutes);
+
+      if (chart.options.scales?.x && "time" in chart.options.scales.x) {
+        (chart.options.scales.x as any).time.unit = timeUnit;
+        (chart.options.scales.x as any).time.tooltipFormat = timeDisplayFormat;
+      }
+    }
+
+    if (
+      initialRenderRef.current &&
+      initialRange &&
+      initialRange !== appliedInitialRangeRef.current
+    ) {
+      appliedInitialRangeRef.current = initialRange;
+      chart.update("none");
+      (chart as any).zoomScale?.(
+        "x",
+        { min: initialRange.start, max: initialRange.end },
+        "none"
+      );
+      initialRenderRef.current = false;
+      onVisibleRangeChangeRef.current?.(initialRange);
+    } else if (initialRenderRef.current) {
+      if (
+        typeof (chart as unknown as Record<string, unknown>).resetZoom ===
+        "function"
+      ) {
+        (
+          (chart as unknown as Record<string, unknown>).resetZoom as () => void
+        )();
+      }
+      chart.update("none");
+      initialRenderRef.current = false;
+      onVisibleRangeChangeRef.current?.(null);
+    } else {
+      chart.update();
+    }
+  }, [
+    data,
+    symbol,
+    intervalMinutes,
+    indicators,
+    oscillators,
+    showVolume,
+    overlays,
+    showCloseDelta,
+    resetKey,
+    initialRange,
+  ]);
+
+  useEffect(() => {
+    gapsRef.current = gaps ?? [];
+    chartRef.current?.update("none");
+  }, [gaps]);
+
+  useEffect(() => {
+    drawingsRef.current = drawings ?? [];
+    chartRef.current?.draw();
+  }, [drawings]);
+
+  useEffect(() => {
+    drawingToolRef.current = drawingTool;
+    drawingDraftRef.current = null;
+    const chart = chartRef.current;
+    const zoomOptions = (chart?.options.plugins as any)?.zoom;
+    if (!chart || !zoomOptions?.pan) {
+      return;
+    }
+    zoomOptions.pan.enabled = !drawingTool;
+    chart.update("none");
+  }, [drawingTool]);
+
+  useEffect(() => {
+    if (!sync) {
+      return;
+    }
+
+    const unregister = sync.register(syncId, {
+      onRange: (range) => {
+        const chart = chartRef.current as any;
+        if (!chart?.zoomScale) {
+          return;
+        }
+        chart.zoomScale("x", { min: range.start, max: range.end }, "none");
+        onVisibleRangeChangeRef.current?.(range);
+      },
+      onHover: (openTime) => {
+        const chart = chartRef.current;
+        crosshairTimeRef.current = openTime;
+        if (chart) {
+          showSyncedTooltip(chart, openTime);
+        }
+      },
+    });
+
+    return () => {
+      unregister();
+      crosshairTimeRef.current = null;
+      publishedHoverRef.current = null;
+      const chart = chartRef.current;
+      if (chart) {
+        showSyncedTooltip(chart, null);
+      }
+    };
+  }, [sync, syncId]);
+
+  useEffect(() => {
+    sync?.setCandles(syncId, symbol, compareData ?? data);
+  }, [sync, syncId, symbol, compareData, data]);
+
+  return (
+    <div className={styles.chartRoot}>
+      <div
+        ref={containerRef}
+        className={styles.chartContainer}
+        style={drawingTool ? { cursor: "crosshair" } : undefined}
+      >
+        <canvas ref={canvasRef} className={styles.chartCanvas} />
+      </div>
+      {data.length === 0 && (
+        <div className={styles.chartPlaceholder}>
+          데이터를 불러오는 중입니다…
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+// 데이터 차이 요약 카드의 프리미엄 추이 차트
+
+import { Chart } from "chart.js";
+import { useEffect, useRef } from "react";
+import { percentFormatter } from "../lib/format";
+import type { PremiumPoint } from "../lib/fx";
+import { ensureFinancialChartRegistered } from "../lib/registerFinancialChart";
+import { getTimeDisplayFormat, getTimeUnit } from "./MinuteChart";
+import styles from "../page.module.css";
+
+type PremiumChartProps = {
+  data: PremiumPoint[];
+  intervalMinutes: number;
+};
+
+// 로컬 대비 참조 거래소 종가 프리미엄(%) 추이
+const toPremiumPoints = (data: PremiumPoint[]) =>
+  data.map((point) => ({ x: point.openTime, y: point.premium }));
+
+export function PremiumChart({ data, intervalMinutes }: PremiumChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const chartRef = useRef<Chart | null>(null);
+  // 차트 생성이 비동기라 생성 시점의 최신 데이터를 참조한다
+  const dataRef = useRef(data);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+
+    let disposed = false;
+
+    const initializeChart = async () => {
+      await ensureFinancialChartRegistered();
+      if (disposed) {
+        return;
+      }
+
+      chartRef.current = new Chart(canvas, {
+        type: "line",
+        data: {
+          datasets: [
+            {
+              label: "프리미엄",
+              data: toPremiumPoints(dataRef.current),
+              borderColor: "#fbbf24",
+              backgroundColor: "rgba(251, 191, 36, 0.15)",
+              borderWidth: 1.5,
+              pointRadius: 0,
+              fill: "origin",
+            },
+          ],
+        },
+        options: {
+          animation: false,
+          responsive: true,
+          maintainAspectRatio: false,
+          parsing: false,
+          interaction: { mode: "nearest", intersect: false },
+          plugins: {
+            legend: { display: false },
+            tooltip: {
+              callbacks: {
+                label: (context) =>
+                  `프리미엄: ${percentFormatter.format(
+                    Number(context.parsed.y)
+                  )}%`,
+              },
+            },
+          },
+          scales: {
+            x: {
+              type: "time",
+              time: {
+                unit: getTimeUnit(intervalMinutes),
+                tooltipFormat: getTimeDisplayFormat(intervalMinutes),
+              },
+              grid: { color: "rgba(148, 163, 184, 0.08)" },
+              ticks: {
+                color: "rgba(226, 232, 240, 0.65)",
+                maxRotation: 0,
+                maxTicksLimit: 8,
+              },
+            },
+            y: {
+              position: "right",
+              grid: { color: "rgba(148, 163, 184, 0.08)" },
+              ticks: {
+                color: "rgba(226, 232, 240, 0.7)",
+                callback: (value) =>
+                  `${percentFormatter.format(Number(value))}%`,
+              },
+            },
+          },
+        },
+      });
+    };
+
+    void initializeChart();
+
+    return () => {
+      disposed = true;
+      chartRef.current?.destroy();
+      chartRef.current = null;
+    };
+  }, [intervalMinutes]);
+
+  useEffect(() => {
+    dataRef.current = data;
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+    chart.data.datasets[0].data = toPremiumPoints(data);
+    chart.update("none");
+  }, [data]);
+
+  return (
+    <div className={styles.chartRoot}>
+      <div className={styles.chartContainer}>
+        <canvas ref={canvasRef} className={styles.chartCanvas} />
+      </div>
+    </div>
+  );
+}
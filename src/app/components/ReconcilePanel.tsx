@@ -0,0 +1,262 @@
+// 화면에 보이는 구간의 로컬/참조 캔들 대사 결과 요약과 캔들별 표
+
+import { useMemo, useState, type ChangeEvent } from "react";
+import {
+  formatCandleTime,
+  percentFormatter,
+  priceFormatter,
+  volumeFormatter,
+} from "../lib/format";
+import {
+  RECONCILE_FIELDS,
+  type ReconcileField,
+  type ReconcileReport,
+  type ReconcileRow,
+  type ReconcileStatus,
+  type ReconcileThresholds,
+} from "../lib/reconcile";
+import type { VisibleRange } from "./MinuteChart";
+import styles from "../page.module.css";
+
+type ReconcileSortKey = "openTime" | "status" | ReconcileField;
+
+const RECONCILE_FIELD_LABELS: Record<ReconcileField, string> = {
+  open: "시가",
+  high: "고가",
+  low: "저가",
+  close: "종가",
+  volume: "거래량",
+};
+
+const RECONCILE_STATUS_LABELS: Record<ReconcileStatus, string> = {
+  match: "일치",
+  outlier: "오차 초과",
+  missing: "로컬 누락",
+  extra: "로컬에만 있음",
+};
+
+// 상태는 심각도 순서, 필드는 차이 비율의 절댓값으로 정렬
+const RECONCILE_STATUS_ORDER: Record<ReconcileStatus, number> = {
+  match: 0,
+  outlier: 1,
+  extra: 2,
+  missing: 3,
+};
+
+const getReconcileSortValue = (
+  row: ReconcileRow,
+  key: ReconcileSortKey
+): number => {
+  if (key === "openTime") {
+    return row.openTime;
+  }
+  if (key === "status") {
+    return RECONCILE_STATUS_ORDER[row.status];
+  }
+  const percent = row.deltas[key]?.percent;
+  return percent === null || percent === undefined ? -1 : Math.abs(percent);
+};
+
+type ReconcilePanelProps = {
+  // 환율 기준이 필요한데 설정되지 않았거나 캔들이 없으면 null
+  report: ReconcileReport | null;
+  thresholds: ReconcileThresholds;
+  // 대사 구간 (null이면 불러온 전체 구간)
+  range: VisibleRange | null;
+  intervalMinutes: number;
+  onThresholdsChange: (thresholds: ReconcileThresholds) => void;
+};
+
+export function ReconcilePanel({
+  report,
+  thresholds,
+  range,
+  intervalMinutes,
+  onThresholdsChange,
+}: ReconcilePanelProps) {
+  const [sort, setSort] = useState<{
+    key: ReconcileSortKey;
+    direction: "asc" | "desc";
+  }>({ key: "openTime", direction: "desc" });
+  const [showIssuesOnly, setShowIssuesOnly] = useState(false);
+
+  const rows = useMemo(() => {
+    if (!report) {
+      return [];
+    }
+    const filtered = showIssuesOnly
+      ? report.rows.filter((row) => row.status !== "match")
+      : report.rows;
+    const sign = sort.direction === "asc" ? 1 : -1;
+    return [...filtered].sort(
+      (a, b) =>
+        sign *
+        (getReconcileSortValue(a, sort.key) -
+          getReconcileSortValue(b, sort.key))
+    );
+  }, [report, sort, showIssuesOnly]);
+
+  const handleSort = (key: ReconcileSortKey) => {
+    setSort((current) => ({
+      key,
+      direction:
+        current.key === key && current.direction === "desc" ? "asc" : "desc",
+    }));
+  };
+
+  const handleThresholdChange =
+    (field: keyof ReconcileThresholds) =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const value = Number(event.target.value);
+      if (Number.isFinite(value) && value >= 0) {
+        onThresholdsChange({ ...thresholds, [field]: value });
+      }
+    };
+
+  return (
+    <section className={styles.comparisonCard}>
+      <h3>과거 데이터 대사</h3>
+      <div className={styles.fxControls}>
+        <label className={styles.fxCheckbox}>
+          가격 허용 오차 (%)
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={thresholds.pricePercent}
+            onChange={handleThresholdChange("pricePercent")}
+            className={styles.fxInput}
+          />
+        </label>
+        <label className={styles.fxCheckbox}>
+          거래량 허용 오차 (%)
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={thresholds.volumePercent}
+            onChange={handleThresholdChange("volumePercent")}
+            className={styles.fxInput}
+          />
+        </label>
+        <label className={styles.fxCheckbox}>
+          <input
+            type="checkbox"
+            checked={showIssuesOnly}
+            onChange={(e) => setShowIssuesOnly(e.target.checked)}
+          />
+          문제 캔들만 보기
+        </label>
+        <span className={styles.fxHint}>
+          {range
+            ? `${formatCandleTime(
+                range.start,
+                intervalMinutes
+              )} ~ ${formatCandleTime(range.end, intervalMinutes)}`
+            : "불러온 전체 구간"}
+        </span>
+      </div>
+      {report ? (
+        <>
+          <ul className={styles.differenceList}>
+            <li>
+              <strong>일치율</strong>
+              <span>
+                {percentFormatter.format(report.summary.matchRate)}
+                %{" "}
+                <em>
+                  ({report.summary.matched}/
+                  {report.summary.total} · 오차 초과{" "}
+                  {report.summary.outliers} · 로컬 누락{" "}
+                  {report.summary.missing} · 로컬에만 있음{" "}
+                  {report.summary.extra})
+                </em>
+              </span>
+            </li>
+            {RECONCILE_FIELDS.map((field) => {
+              const stats = report.summary.fields[field];
+              const formatter =
+                field === "volume" ? volumeFormatter : priceFormatter;
+              return (
+                <li key={field}>
+                  <strong>{RECONCILE_FIELD_LABELS[field]}</strong>
+                  <span>
+                    최대 {formatter.format(stats.maxAbsDiff)} · 평균{" "}
+                    {formatter.format(stats.meanAbsDiff)}{" "}
+                    <em>
+                      (최대 {percentFormatter.format(stats.maxAbsPercent)}%
+                      · 평균 {percentFormatter.format(stats.meanAbsPercent)}
+                      %)
+                    </em>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          <div className={styles.reconcileTableWrapper}>
+            <table className={styles.reconcileTable}>
+              <thead>
+                <tr>
+                  {(
+                    ["openTime", "status", ...RECONCILE_FIELDS] as const
+                  ).map((key) => (
+                    <th key={key} onClick={() => handleSort(key)}>
+                      {key === "openTime"
+                        ? "시각"
+                        : key === "status"
+                        ? "상태"
+                        : `${RECONCILE_FIELD_LABELS[key]} Δ%`}
+                      {sort.key === key &&
+                        (sort.direction === "asc" ? " ▲" : " ▼")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.openTime}
+                    className={
+                      row.status === "match"
+                        ? undefined
+                        : styles.reconcileIssue
+                    }
+                  >
+                    <td>
+                      {formatCandleTime(row.openTime, intervalMinutes)}
+                    </td>
+                    <td>{RECONCILE_STATUS_LABELS[row.status]}</td>
+                    {RECONCILE_FIELDS.map((field) => {
+                      const percent = row.deltas[field]?.percent;
+                      return (
+                        <td
+                          key={field}
+                          className={
+                            row.outlierFields.includes(field)
+                              ? styles.reconcileOutlier
+                              : undefined
+                          }
+                        >
+                          {percent === undefined || percent === null
+                            ? "-"
+                            : `${
+                                percent >= 0 ? "+" : ""
+                              }${percentFormatter.format(percent)}`}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className={styles.differencePlaceholder}>
+          두 데이터 소스를 불러오고 (필요하면) 환율 기준을 설정한 이후 대사
+          결과가 표시됩니다.
+        </p>
+      )}
+    </section>
+  );
+}
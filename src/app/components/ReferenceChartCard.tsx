@@ -0,0 +1,96 @@
+// 분할 보기에서 로컬 차트 아래에 그리는 참조 거래소 차트 카드
+
+import type { CSSProperties } from "react";
+import type { Candle } from "../lib/candleSources";
+import type { ChartSync } from "../lib/chartSync";
+import type { IndicatorConfig } from "../lib/indicators";
+import { formatIntervalLabel } from "../lib/intervals";
+import type { OscillatorConfig } from "../lib/oscillators";
+import { CandleSnapshot } from "./CandleSnapshot";
+import { MinuteChart, type VisibleRange } from "./MinuteChart";
+import styles from "../page.module.css";
+
+type ReferenceChartCardProps = {
+  exchangeName: string;
+  // 서버가 로컬 심볼을 변환한 참조 거래소 마켓 심볼
+  symbol: string;
+  intervalMinutes: number;
+  candles: Candle[];
+  // 로컬 호가 통화로 환산한 캔들 (연동 모드의 종가 비교용)
+  compareCandles: Candle[];
+  statusClass: string;
+  statusText: string;
+  errorMessage: string | null;
+  indicators: IndicatorConfig[];
+  oscillators: OscillatorConfig[];
+  showVolume: boolean;
+  sync: ChartSync | null;
+  resetKey: number;
+  chartWrapperStyle: CSSProperties;
+  onVisibleRangeChange: (range: VisibleRange | null) => void;
+};
+
+export function ReferenceChartCard({
+  exchangeName,
+  symbol,
+  intervalMinutes,
+  candles,
+  compareCandles,
+  statusClass,
+  statusText,
+  errorMessage,
+  indicators,
+  oscillators,
+  showVolume,
+  sync,
+  resetKey,
+  chartWrapperStyle,
+  onVisibleRangeChange,
+}: ReferenceChartCardProps) {
+  const latestCandle = candles[candles.length - 1];
+
+  return (
+    <section className={styles.chartCard}>
+      <div className={styles.chartHeader}>
+        <div>
+          <h2>{symbol || `${exchangeName} 심볼`}</h2>
+          <p>
+            {exchangeName} {formatIntervalLabel(intervalMinutes)} 봉 실시간
+            데이터
+          </p>
+        </div>
+        <div className={styles.chartMeta}>
+          <div className={styles.statusRow}>
+            <span
+              className={`${styles.statusDot} ${statusClass}`}
+              aria-hidden
+            />
+            <span className={styles.statusText}>{statusText}</span>
+          </div>
+          {latestCandle && (
+            <CandleSnapshot
+              candle={latestCandle}
+              intervalMinutes={intervalMinutes}
+            />
+          )}
+        </div>
+      </div>
+      <div className={styles.chartWrapper} style={chartWrapperStyle}>
+        <MinuteChart
+          data={candles}
+          symbol={symbol}
+          intervalMinutes={intervalMinutes}
+          indicators={indicators}
+          oscillators={oscillators}
+          showVolume={showVolume}
+          sync={sync}
+          syncId="reference"
+          compareData={compareCandles}
+          onVisibleRangeChange={onVisibleRangeChange}
+          resetKey={resetKey}
+        />
+      </div>
+      {errorMessage && <p className={styles.errorMessage}>{errorMessage}</p>}
+    </section>
+  );
+}
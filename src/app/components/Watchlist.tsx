@@ -0,0 +1,187 @@
+// 활성 심볼의 시세, 등락률, 스파크라인을 페이지로 나눠 보여주는 관심 목록
+
+import type { ExchangeOption } from "../lib/candleSources";
+import { formatSigned, percentFormatter, priceFormatter } from "../lib/format";
+import {
+  getDayChange,
+  getReferenceDivergence,
+  toSparklinePath,
+  type WatchlistReference,
+  type WatchlistTicker,
+} from "../lib/watchlist";
+import styles from "../page.module.css";
+
+// 이 이상 벌어지면 괴리 배지를 강조
+const WATCHLIST_DIVERGENCE_WARN_PERCENT = 0.5;
+const SPARKLINE_WIDTH = 72;
+const SPARKLINE_HEIGHT = 24;
+
+type WatchlistProps = {
+  // 현재 페이지의 심볼 (고정한 심볼이 먼저)
+  symbols: string[];
+  pinnedSymbols: string[];
+  showPinnedOnly: boolean;
+  page: number;
+  pageCount: number;
+  // 알림 평가와 구독을 나누어 쓰도록 Home에서 useWatchlist로 받은 값
+  tickers: Record<string, WatchlistTicker>;
+  references: Record<string, WatchlistReference>;
+  selectedSymbol: string;
+  exchange: ExchangeOption;
+  onSelect: (symbol: string) => void;
+  onPinnedSymbolsChange: (symbols: string[]) => void;
+  onShowPinnedOnlyChange: (showPinnedOnly: boolean) => void;
+  onPageChange: (page: number) => void;
+};
+
+// 심볼별 최신가, 24시간 변동률, 스파크라인, 참조 거래소 괴리. 행을 누르면 메인 차트 전환
+export function Watchlist({
+  symbols,
+  pinnedSymbols,
+  showPinnedOnly,
+  page,
+  pageCount,
+  tickers,
+  references,
+  selectedSymbol,
+  exchange,
+  onSelect,
+  onPinnedSymbolsChange,
+  onShowPinnedOnlyChange,
+  onPageChange,
+}: WatchlistProps) {
+  const togglePinned = (symbol: string) =>
+    onPinnedSymbolsChange(
+      pinnedSymbols.includes(symbol)
+        ? pinnedSymbols.filter((item) => item !== symbol)
+        : [...pinnedSymbols, symbol]
+    );
+
+  return (
+    <aside className={styles.watchlist}>
+      <h3>워치리스트</h3>
+      <div className={styles.watchlistControls}>
+        <label className={styles.fxCheckbox}>
+          <input
+            type="checkbox"
+            checked={showPinnedOnly}
+            onChange={(e) => onShowPinnedOnlyChange(e.target.checked)}
+          />
+          고정한 심볼만
+        </label>
+        {pageCount > 1 && (
+          <span className={styles.watchlistPager}>
+            <button
+              onClick={() => onPageChange(page - 1)}
+              disabled={page === 0}
+              className={styles.smallButton}
+            >
+              이전
+            </button>
+            {page + 1} / {pageCount}
+            <button
+              onClick={() => onPageChange(page + 1)}
+              disabled={page >= pageCount - 1}
+              className={styles.smallButton}
+            >
+              다음
+            </button>
+          </span>
+        )}
+      </div>
+      {symbols.length === 0 ? (
+        <p className={styles.differencePlaceholder}>
+          {showPinnedOnly ? "고정한 심볼이 없습니다." : "활성 심볼이 없습니다."}
+        </p>
+      ) : (
+        <ul className={styles.watchlistRows}>
+          {symbols.map((symbol) => {
+            const ticker = tickers[symbol];
+            const change = ticker ? getDayChange(ticker) : null;
+            const divergence = getReferenceDivergence(
+              ticker,
+              references[symbol]
+            );
+            return (
+              <li key={symbol} className={styles.watchlistItem}>
+                <button
+                  onClick={() => onSelect(symbol)}
+                  className={
+                    symbol === selectedSymbol
+                      ? `${styles.watchlistRow} ${styles.watchlistRowActive}`
+                      : styles.watchlistRow
+                  }
+                >
+                  <span className={styles.watchlistSymbol}>{symbol}</span>
+                  <svg
+                    width={SPARKLINE_WIDTH}
+                    height={SPARKLINE_HEIGHT}
+                    className={styles.watchlistSparkline}
+                    aria-hidden
+                  >
+                    <polyline
+                      points={toSparklinePath(
+                        ticker?.points ?? [],
+                        SPARKLINE_WIDTH,
+                        SPARKLINE_HEIGHT
+                      )}
+                      fill="none"
+                      stroke={(change ?? 0) >= 0 ? "#34d399" : "#fb7185"}
+                      strokeWidth={1.5}
+                    />
+                  </svg>
+                  <span className={styles.watchlistPrice}>
+                    {ticker?.lastPrice != null
+                      ? priceFormatter.format(ticker.lastPrice)
+                      : "-"}
+                    <em
+                      className={
+                        (change ?? 0) >= 0
+                          ? styles.watchlistUp
+                          : styles.watchlistDown
+                      }
+                    >
+                      {change === null
+                        ? "-"
+                        : `${formatSigned(change, percentFormatter)}%`}
+                    </em>
+                  </span>
+                  <span
+                    className={
+                      divergence !== null &&
+                      Math.abs(divergence) >= WATCHLIST_DIVERGENCE_WARN_PERCENT
+                        ? `${styles.watchlistBadge} ${styles.watchlistBadgeWarn}`
+                        : styles.watchlistBadge
+                    }
+                    title={
+                      references[symbol] && !references[symbol].comparable
+                        ? `${exchange.name}와 호가 통화가 달라 비교하지 않습니다.`
+                        : `${exchange.name} 대비 괴리`
+                    }
+                  >
+                    {divergence === null
+                      ? "-"
+                      : `${formatSigned(divergence, percentFormatter)}%`}
+                  </span>
+                </button>
+                <button
+                  onClick={() => togglePinned(symbol)}
+                  className={
+                    pinnedSymbols.includes(symbol)
+                      ? `${styles.watchlistPin} ${styles.watchlistPinActive}`
+                      : styles.watchlistPin
+                  }
+                  title={
+                    pinnedSymbols.includes(symbol) ? "고정 해제" : "맨 위에 고정"
+                  }
+                >
+                  {pinnedSymbols.includes(symbol) ? "★" : "☆"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
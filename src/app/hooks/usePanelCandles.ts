@@ -0,0 +1,237 @@
+// 그리드 패널 하나의 캔들을 불러오고 실시간 캔들을 반영하는 훅
+
+import { useEffect, useState } from "react";
+import { mergeCandles, upsertLiveCandle } from "../lib/candleHistory";
+import {
+  KLINE_UPDATED_SUBSCRIPTION,
+  MAX_CANDLES,
+  fetchExchangeCandles,
+  fetchLocalCandles,
+  getWsClient,
+  mapExchangeCandle,
+  mapSubscriptionKlineToCandle,
+  type Candle,
+  type ExchangeCandlePayload,
+  type KlineSubModel,
+} from "../lib/candleSources";
+import { LOCAL_SOURCE, type ChartPanelConfig } from "../lib/chartLayouts";
+import { getExchangeStream } from "../lib/exchangeStream";
+import {
+  aggregateCandles,
+  getBucketStart,
+  getIntervalDefinition,
+} from "../lib/intervals";
+
+// 주/월봉 한 칸에 들어가는 일봉 최대 개수
+const MAX_BUCKET_DAYS = 31;
+export type PanelStatus = "idle" | "loading" | "live" | "error";
+
+// 그리드 패널 하나의 캔들을 불러오고 실시간 스트림으로 갱신
+export function usePanelCandles(
+  { source, symbol, intervalMinutes }: ChartPanelConfig,
+  exchangeName: string
+) {
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [status, setStatus] = useState<PanelStatus>(
+    symbol ? "loading" : "idle"
+  );
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // 소스/심볼/간격이 바뀌면 이전 캔들을 비우고 다시 불러온다
+  const panelKey = `${source}:${symbol}:${intervalMinutes}`;
+  const [loadedKey, setLoadedKey] = useState(panelKey);
+  if (loadedKey !== panelKey) {
+    setLoadedKey(panelKey);
+    setCandles([]);
+    setStatus(symbol ? "loading" : "idle");
+    setErrorMessage(null);
+  }
+
+  useEffect(() => {
+    if (!symbol) {
+      return;
+    }
+
+    let cancelled = false;
+    let dispose: (() => void) | null = null;
+    let refreshTimer: NodeJS.Timeout | null = null;
+    const localInterval =
+      getIntervalDefinition(intervalMinutes)?.localMinutes ?? intervalMinutes;
+    // 마지막으로 불러온 캔들 시각. 이보다 새 구간의 캔들이 오면 다시 불러온다
+    let lastOpenTime = -Infinity;
+    // 주/월봉은 진행 중인 구간의 일봉을 들고 있다가 일봉 업데이트로 마지막 캔들을 다시 집계한다
+    let bucketDays: { start: number; candles: Candle[] } | null = null;
+
+    const loadLocal = async () => {
+      const loaded = await fetchLocalCandles(symbol, intervalMinutes);
+      const last = loaded[loaded.length - 1];
+      let days: typeof bucketDays = null;
+      if (last && localInterval !== intervalMinutes) {
+        const daily = await fetchLocalCandles(
+          symbol,
+          localInterval,
+          undefined,
+          MAX_BUCKET_DAYS
+        );
+        days = {
+          start: last.openTime,
+          candles: daily.filter((candle) => candle.openTime >= last.openTime),
+        };
+      }
+      return { loaded, days };
+    };
+
+    const applyLocal = ({
+      loaded,
+      days,
+    }: Awaited<ReturnType<typeof loadLocal>>) => {
+      setCandles(loaded);
+      lastOpenTime = loaded[loaded.length - 1]?.openTime ?? -Infinity;
+      bucketDays = days;
+    };
+
+    // 새 구간이 시작되면 잠시 모았다가 최신 구간을 다시 불러온다
+    const queueRefresh = () => {
+      if (refreshTimer) {
+        return;
+      }
+      refreshTimer = setTimeout(async () => {
+        refreshTimer = null;
+        try {
+          const refreshed = await loadLocal();
+          if (!cancelled) {
+            applyLocal(refreshed);
+          }
+        } catch (error) {
+          console.error("Failed to refresh panel candles", error);
+        }
+      }, 300);
+    };
+
+    // 같은 구간의 업데이트는 받은 캔들로 마지막 캔들만 바꾼다
+    const applyLiveCandle = (candle: Candle) => {
+      if (localInterval === intervalMinutes) {
+        if (candle.openTime > lastOpenTime) {
+          queueRefresh();
+          return;
+        }
+        setCandles((previous) =>
+          upsertLiveCandle(previous, candle, MAX_CANDLES)
+        );
+        return;
+      }
+
+      if (
+        !bucketDays ||
+        getBucketStart(candle.openTime, intervalMinutes) !== bucketDays.start
+      ) {
+        queueRefresh();
+        return;
+      }
+      bucketDays.candles = mergeCandles(bucketDays.candles, [candle]);
+      const [bucket] = aggregateCandles(bucketDays.candles, intervalMinutes);
+      setCandles((previous) =>
+        upsertLiveCandle(previous, bucket as Candle, MAX_CANDLES)
+      );
+    };
+
+    const subscribeLocal = () =>
+      getWsClient().subscribe(
+        {
+          query: KLINE_UPDATED_SUBSCRIPTION,
+          variables: { symbol, interval: localInterval },
+        },
+        {
+          next: (result) => {
+            const payload = result.data?.klineUpdated as
+              | KlineSubModel
+              | undefined;
+            const candle =
+              payload?.interval === localInterval
+                ? mapSubscriptionKlineToCandle(payload)
+                : null;
+            if (!cancelled && candle) {
+              applyLiveCandle(candle);
+            }
+          },
+          error: (error) => {
+            if (cancelled) {
+              return;
+            }
+            console.error("Panel subscription error", error);
+            setStatus("error");
+            setErrorMessage("실시간 데이터 연결이 종료되었습니다.");
+          },
+          complete: () => undefined,
+        }
+      );
+
+    // 거래소 패널은 메인 차트, 워치리스트와 같은 공유 연결로 구독한다
+    const subscribeExchange = (streamKey: string) =>
+      getExchangeStream(source).subscribe<ExchangeCandlePayload>(streamKey, {
+        onCandle: (payload) => {
+          const candle = mapExchangeCandle(payload);
+          if (!cancelled && candle) {
+            setCandles((previous) =>
+              upsertLiveCandle(previous, candle, MAX_CANDLES)
+            );
+          }
+        },
+        onStatus: (streamStatus) => {
+          if (!cancelled) {
+            setStatus(streamStatus === "connected" ? "live" : "loading");
+          }
+        },
+      });
+
+    const load = async () => {
+      try {
+        if (source === LOCAL_SOURCE) {
+          const loaded = await loadLocal();
+          if (cancelled) {
+            return;
+          }
+          applyLocal(loaded);
+          setStatus("live");
+          dispose = subscribeLocal();
+        } else {
+          const loaded = await fetchExchangeCandles(
+            { id: source, name: exchangeName },
+            symbol,
+            intervalMinutes
+          );
+          if (cancelled) {
+            return;
+          }
+          setCandles(loaded.candles.slice(-MAX_CANDLES));
+          dispose = subscribeExchange(
+            `${loaded.symbol}@${
+              getIntervalDefinition(intervalMinutes)?.binance
+            }`
+          );
+        }
+      } catch (error) {
+        console.error("Failed to load panel candles", error);
+        if (!cancelled) {
+          setStatus("error");
+          setErrorMessage(
+            source === LOCAL_SOURCE || !(error instanceof Error)
+              ? "분봉 데이터를 불러오지 못했습니다."
+              : error.message
+          );
+        }
+      }
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+      dispose?.();
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+    };
+  }, [exchangeName, intervalMinutes, source, symbol]);
+
+  return { candles, status, errorMessage };
+}
@@ -0,0 +1,248 @@
+// 워치리스트 심볼의 미니 티커와 참조 거래소 최신가를 불러오고, 심볼별 실시간 구독으로 갱신하는 훅
+
+import {
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import {
+  KLINE_UPDATED_SUBSCRIPTION,
+  fetchExchangeCandles,
+  fetchLocalCandles,
+  getWsClient,
+  mapExchangeCandle,
+  mapSubscriptionKlineToCandle,
+  type ExchangeCandlePayload,
+  type ExchangeOption,
+  type KlineSubModel,
+} from "../lib/candleSources";
+import { getExchangeStream } from "../lib/exchangeStream";
+import {
+  WATCHLIST_BUCKETS,
+  applyWatchlistCandle,
+  applyWatchlistReferenceCandle,
+  createWatchlistReference,
+  createWatchlistTicker,
+  type WatchlistReference,
+  type WatchlistTicker,
+} from "../lib/watchlist";
+
+// 참조 거래소 최신가는 몇 개씩 나눠 불러와 요청 가중치가 한꺼번에 몰리지 않게 한다
+const WATCHLIST_FETCH_BATCH_SIZE = 5;
+const WATCHLIST_FETCH_BATCH_DELAY = 250;
+
+type SetRecord<T> = Dispatch<SetStateAction<Record<string, T>>>;
+
+const omitSymbol = <T>(record: Record<string, T>, symbol: string) => {
+  if (!(symbol in record)) {
+    return record;
+  }
+  const next = { ...record };
+  delete next[symbol];
+  return next;
+};
+
+// 목록에서 빠진 심볼은 구독을 해제하고, 새로 들어온 심볼만 watch로 구독한다
+const syncWatchers = (
+  watchers: Map<string, () => void>,
+  symbols: string[],
+  watch: (symbol: string) => () => void
+) => {
+  for (const [symbol, dispose] of Array.from(watchers)) {
+    if (!symbols.includes(symbol)) {
+      dispose();
+      watchers.delete(symbol);
+    }
+  }
+  symbols
+    .filter((symbol) => !watchers.has(symbol))
+    .forEach((symbol) => watchers.set(symbol, watch(symbol)));
+};
+
+const disposeWatchers = (watchers: Map<string, () => void>) => {
+  watchers.forEach((dispose) => dispose());
+  watchers.clear();
+};
+
+// 로컬 1시간봉으로 미니 티커를 만들고 klineUpdated 1분봉 구독으로 갱신
+function watchLocalTicker(
+  symbol: string,
+  setTickers: SetRecord<WatchlistTicker>
+): () => void {
+  let cancelled = false;
+
+  fetchLocalCandles(symbol, 60, undefined, WATCHLIST_BUCKETS)
+    .then((candles) => {
+      if (!cancelled) {
+        setTickers((previous) => ({
+          ...previous,
+          [symbol]: createWatchlistTicker(symbol, candles),
+        }));
+      }
+    })
+    .catch((error) =>
+      console.error(`Failed to load watchlist candles for ${symbol}`, error)
+    );
+
+  const unsubscribe = getWsClient().subscribe(
+    {
+      query: KLINE_UPDATED_SUBSCRIPTION,
+      variables: { symbol, interval: 1 },
+    },
+    {
+      next: (result) => {
+        const payload = result.data?.klineUpdated as KlineSubModel | undefined;
+        const candle = payload ? mapSubscriptionKlineToCandle(payload) : null;
+        if (cancelled || !candle) {
+          return;
+        }
+        setTickers((previous) =>
+          previous[symbol]
+            ? {
+                ...previous,
+                [symbol]: applyWatchlistCandle(previous[symbol], candle),
+              }
+            : previous
+        );
+      },
+      error: (error) =>
+        console.error(`Watchlist subscription error for ${symbol}`, error),
+      complete: () => undefined,
+    }
+  );
+
+  return () => {
+    cancelled = true;
+    unsubscribe();
+    setTickers((previous) => omitSymbol(previous, symbol));
+  };
+}
+
+type ReferenceWatch = {
+  cancelled: boolean;
+  unsubscribe: (() => void) | null;
+};
+
+// 거래소 심볼과 최신가를 받아 오고, 받은 뒤 공유 연결로 1분봉 스트림을 구독
+async function loadReference(
+  symbol: string,
+  exchange: ExchangeOption,
+  watch: ReferenceWatch,
+  setReferences: SetRecord<WatchlistReference>
+) {
+  if (watch.cancelled) {
+    return;
+  }
+  try {
+    const loaded = await fetchExchangeCandles(
+      exchange,
+      symbol,
+      1,
+      undefined,
+      2
+    );
+    if (watch.cancelled) {
+      return;
+    }
+    setReferences((previous) => ({
+      ...previous,
+      [symbol]: createWatchlistReference(
+        loaded.candles,
+        // 호가 통화가 같으면 매핑에 로컬 호가 통화가 없다
+        loaded.mapping.localQuoteAsset === null
+      ),
+    }));
+    watch.unsubscribe = getExchangeStream(
+      exchange.id
+    ).subscribe<ExchangeCandlePayload>(`${loaded.symbol}@1m`, {
+      onCandle: (payload) => {
+        const candle = mapExchangeCandle(payload);
+        if (!watch.cancelled && candle) {
+          setReferences((previous) =>
+            previous[symbol]
+              ? {
+                  ...previous,
+                  [symbol]: applyWatchlistReferenceCandle(
+                    previous[symbol],
+                    candle
+                  ),
+                }
+              : previous
+          );
+        }
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to load ${exchange.name} watchlist price for ${symbol}`,
+      error
+    );
+  }
+}
+
+const loadInBatches = async (loaders: (() => Promise<void>)[]) => {
+  for (
+    let index = 0;
+    index < loaders.length;
+    index += WATCHLIST_FETCH_BATCH_SIZE
+  ) {
+    if (index > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, WATCHLIST_FETCH_BATCH_DELAY)
+      );
+    }
+    await Promise.all(
+      loaders
+        .slice(index, index + WATCHLIST_FETCH_BATCH_SIZE)
+        .map((load) => load())
+    );
+  }
+};
+
+// 주어진 심볼(워치리스트 현재 페이지 + 알림이 켜진 심볼)의 로컬 미니 티커와 참조 거래소 최신가.
+// 초기값은 한 번 불러오고 이후에는 klineUpdated 구독과 거래소 스트림으로만 갱신한다.
+// 목록이 바뀌면 빠지거나 새로 들어온 심볼만 구독을 해제하거나 추가한다
+export function useWatchlist(symbols: string[], exchange: ExchangeOption) {
+  const [tickers, setTickers] = useState<Record<string, WatchlistTicker>>({});
+  const [references, setReferences] = useState<
+    Record<string, WatchlistReference>
+  >({});
+  const tickerWatchersRef = useRef(new Map<string, () => void>());
+  const referenceWatchersRef = useRef(new Map<string, () => void>());
+
+  // 화면을 떠나면 모든 구독 해제
+  useEffect(() => {
+    const watchers = tickerWatchersRef.current;
+    return () => disposeWatchers(watchers);
+  }, []);
+
+  // 참조 거래소가 바뀌면 이전 거래소의 스트림을 모두 해제 (다음 동기화에서 다시 구독)
+  useEffect(() => {
+    const watchers = referenceWatchersRef.current;
+    return () => disposeWatchers(watchers);
+  }, [exchange]);
+
+  useEffect(() => {
+    syncWatchers(tickerWatchersRef.current, symbols, (symbol) =>
+      watchLocalTicker(symbol, setTickers)
+    );
+
+    const loaders: (() => Promise<void>)[] = [];
+    syncWatchers(referenceWatchersRef.current, symbols, (symbol) => {
+      const watch: ReferenceWatch = { cancelled: false, unsubscribe: null };
+      loaders.push(() =>
+        loadReference(symbol, exchange, watch, setReferences)
+      );
+      return () => {
+        watch.cancelled = true;
+        watch.unsubscribe?.();
+        setReferences((previous) => omitSymbol(previous, symbol));
+      };
+    });
+    void loadInBatches(loaders);
+  }, [exchange, symbols]);
+
+  return { tickers, references };
+}
@@ -0,0 +1,332 @@
+// 심볼별 가격 알림 조건 정의, localStorage 저장, 실시간 캔들마다 조건을 평가하는 평가기
+import { formatSigned, percentFormatter, priceFormatter } from "./format";
+import {
+  aggregateCandles,
+  formatIntervalLabel,
+  getIntervalDefinition,
+} from "./intervals";
+
+export type AlertCondition =
+  | {
+      type: "priceCross";
+      level: number;
+      direction: "above" | "below" | "either";
+    }
+  // candles개의 intervalMinutes봉 동안의 종가 변동률 (차트 간격과 무관)
+  | {
+      type: "percentMove";
+      percent: number;
+      candles: number;
+      intervalMinutes: number;
+    }
+  | { type: "divergence"; percent: number };
+
+export type AlertConditionType = AlertCondition["type"];
+
+export type AlertDefinition = {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  // false면 한 번 울린 뒤 꺼진다
+  repeat: boolean;
+  enabled: boolean;
+  createdAt: number;
+};
+
+export type AlertCandle = { openTime: number; close: number };
+
+// 평가 시점의 심볼 캔들 (선택한 심볼은 차트 캔들, 나머지는 워치리스트 1분봉).
+// minuteCandles는 워치리스트 1분봉으로, N봉 변동률의 간격이 candles와 다르면 집계해 쓴다.
+// referenceCandles는 로컬과 같은 호가 통화로 환산된 캔들
+export type AlertSnapshot = {
+  symbol: string;
+  intervalMinutes: number;
+  candles: AlertCandle[];
+  minuteCandles: AlertCandle[];
+  referenceCandles: AlertCandle[];
+};
+
+export type AlertTrigger = {
+  alertId: string;
+  symbol: string;
+  message: string;
+  openTime: number;
+  triggeredAt: number;
+};
+
+export type AlertEvaluator = {
+  evaluate: (
+    alerts: AlertDefinition[],
+    snapshot: AlertSnapshot
+  ) => AlertTrigger[];
+};
+
+const STORAGE_KEY = "cex-kline:alerts";
+
+export const ALERT_CONDITION_LABELS: Record<AlertConditionType, string> = {
+  priceCross: "가격 돌파",
+  percentMove: "N봉 변동률",
+  divergence: "참조 거래소 괴리",
+};
+
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "priceCross": {
+      const direction =
+        condition.direction === "above"
+          ? "상향"
+          : condition.direction === "below"
+          ? "하향"
+          : "상향/하향";
+      return `${priceFormatter.format(condition.level)} ${direction} 돌파`;
+    }
+    case "percentMove":
+      return `${formatIntervalLabel(condition.intervalMinutes)}봉 ${
+        condition.candles
+      }개 동안 ±${percentFormatter.format(condition.percent)}% 이상 변동`;
+    case "divergence":
+      return `참조 거래소 대비 ±${percentFormatter.format(
+        condition.percent
+      )}% 이상 괴리`;
+  }
+}
+
+const isAlertCondition = (value: any): value is AlertCondition => {
+  switch (value?.type) {
+    case "priceCross":
+      return (
+        Number.isFinite(value.level) &&
+        ["above", "below", "either"].includes(value.direction)
+      );
+    case "percentMove":
+      return (
+        Number.isFinite(value.percent) &&
+        Number.isInteger(value.candles) &&
+        value.candles > 0 &&
+        getIntervalDefinition(value.intervalMinutes) !== undefined
+      );
+    case "divergence":
+      return Number.isFinite(value.percent);
+    default:
+      return false;
+  }
+};
+
+const isAlertDefinition = (value: any): value is AlertDefinition =>
+  typeof value?.id === "string" &&
+  typeof value.symbol === "string" &&
+  isAlertCondition(value.condition) &&
+  typeof value.repeat === "boolean" &&
+  typeof value.enabled === "boolean";
+
+export function loadAlerts(): AlertDefinition[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isAlertDefinition) : [];
+  } catch (error) {
+    console.warn("저장된 알림을 읽지 못했습니다:", error);
+    return [];
+  }
+}
+
+export function saveAlerts(alerts: AlertDefinition[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+  } catch (error) {
+    console.warn("알림을 저장하지 못했습니다:", error);
+  }
+}
+
+const findByOpenTime = (candles: AlertCandle[], openTime: number) => {
+  for (let index = candles.length - 1; index >= 0; index -= 1) {
+    if (candles[index].openTime === openTime) {
+      return candles[index];
+    }
+    if (candles[index].openTime < openTime) {
+      break;
+    }
+  }
+  return undefined;
+};
+
+// 알림 간격의 캔들. 평가 중인 캔들이 같은 간격이면 그대로, 아니면 1분봉을 집계
+const toIntervalCandles = (
+  snapshot: AlertSnapshot,
+  intervalMinutes: number
+): AlertCandle[] =>
+  snapshot.intervalMinutes === intervalMinutes
+    ? snapshot.candles
+    : aggregateCandles(
+        snapshot.minuteCandles.map(({ openTime, close }) => ({
+          openTime,
+          open: close,
+          high: close,
+          low: close,
+          close,
+        })),
+        intervalMinutes
+      );
+
+// 변동률/괴리 조건의 현재 값. 조건을 판단할 캔들이 없으면 null
+const measureCondition = (
+  condition: Exclude<AlertCondition, { type: "priceCross" }>,
+  snapshot: AlertSnapshot
+): number | null => {
+  const { candles } = snapshot;
+  const latest = candles[candles.length - 1];
+
+  if (condition.type === "percentMove") {
+    const series = toIntervalCandles(snapshot, condition.intervalMinutes);
+    const current = series[series.length - 1];
+    const base = series[series.length - 1 - condition.candles];
+    return current && base && base.close !== 0
+      ? ((current.close - base.close) / base.close) * 100
+      : null;
+  }
+
+  const reference = findByOpenTime(snapshot.referenceCandles, latest.openTime);
+  return reference && reference.close !== 0
+    ? ((latest.close - reference.close) / reference.close) * 100
+    : null;
+};
+
+type SymbolState = {
+  snapshotKey: string;
+  lastOpenTime: number;
+  lastClose: number;
+  lastReferenceClose: number | null;
+  lastMinute: AlertCandle | undefined;
+};
+
+// 심볼마다 직전 평가 상태를 따로 둔다. 가격 돌파는 직전 평가 종가와 비교하고,
+// 변동률/괴리는 조건을 새로 만족한 순간에만 울린다.
+// 심볼/봉 간격이 바뀌거나 최신 캔들이 그대로면 (과거 캔들 추가 등) 울리지 않는다
+export function createAlertEvaluator(): AlertEvaluator {
+  const states = new Map<string, SymbolState>();
+  const metById = new Map<string, boolean>();
+  // 기준을 기록한 알림. 새로 추가하거나 다시 켠 알림은 첫 평가에서 기준만 기록한다
+  const baselineIds = new Set<string>();
+
+  return {
+    evaluate: (alerts, snapshot) => {
+      alerts.forEach((alert) => {
+        if (!alert.enabled) {
+          baselineIds.delete(alert.id);
+          metById.delete(alert.id);
+        }
+      });
+
+      const latest = snapshot.candles[snapshot.candles.length - 1];
+      if (!latest) {
+        return [];
+      }
+
+      const key = `${snapshot.symbol}:${snapshot.intervalMinutes}`;
+      const state = states.get(snapshot.symbol);
+      const isNewSnapshot = state?.snapshotKey !== key;
+      const referenceClose =
+        findByOpenTime(snapshot.referenceCandles, latest.openTime)?.close ??
+        null;
+      const hasNewAlert = alerts.some(
+        (alert) =>
+          alert.enabled &&
+          alert.symbol === snapshot.symbol &&
+          !baselineIds.has(alert.id)
+      );
+      const lastMinute =
+        snapshot.minuteCandles[snapshot.minuteCandles.length - 1];
+      const unchanged =
+        !isNewSnapshot &&
+        !hasNewAlert &&
+        latest.openTime === state.lastOpenTime &&
+        latest.close === state.lastClose &&
+        referenceClose === state.lastReferenceClose &&
+        lastMinute === state.lastMinute;
+      if (unchanged) {
+        return [];
+      }
+
+      const previousClose = isNewSnapshot ? null : state.lastClose;
+      states.set(snapshot.symbol, {
+        snapshotKey: key,
+        lastOpenTime: latest.openTime,
+        lastClose: latest.close,
+        lastReferenceClose: referenceClose,
+        lastMinute,
+      });
+
+      const triggers: AlertTrigger[] = [];
+      const fire = (alert: AlertDefinition, message: string) => {
+        triggers.push({
+          alertId: alert.id,
+          symbol: alert.symbol,
+          message,
+          openTime: latest.openTime,
+          triggeredAt: Date.now(),
+        });
+      };
+
+      for (const alert of alerts) {
+        if (!alert.enabled || alert.symbol !== snapshot.symbol) {
+          continue;
+        }
+
+        // 심볼을 바꾼 직후나 알림을 추가한 직후에는 현재 값을 기준으로만 기록
+        const isBaseline = isNewSnapshot || !baselineIds.has(alert.id);
+        baselineIds.add(alert.id);
+
+        const { condition } = alert;
+        if (condition.type === "priceCross") {
+          if (isBaseline || previousClose === null) {
+            continue;
+          }
+          const crossedUp =
+            previousClose < condition.level && latest.close >= condition.level;
+          const crossedDown =
+            previousClose > condition.level && latest.close <= condition.level;
+          if (
+            (crossedUp && condition.direction !== "below") ||
+            (crossedDown && condition.direction !== "above")
+          ) {
+            fire(
+              alert,
+              `${alert.symbol} ${priceFormatter.format(condition.level)} ${
+                crossedUp ? "상향" : "하향"
+              } 돌파 (종가 ${priceFormatter.format(latest.close)})`
+            );
+          }
+          continue;
+        }
+
+        const value = measureCondition(condition, snapshot);
+        const met = value !== null && Math.abs(value) >= condition.percent;
+        const wasMet = metById.get(alert.id);
+        metById.set(alert.id, met);
+        if (!met || wasMet || isBaseline) {
+          continue;
+        }
+
+        const change = `${formatSigned(value, percentFormatter)}%`;
+        fire(
+          alert,
+          condition.type === "percentMove"
+            ? `${alert.symbol} ${formatIntervalLabel(
+                condition.intervalMinutes
+              )}봉 ${condition.candles}개 변동률 ${change}`
+            : `${alert.symbol} 참조 거래소 대비 괴리 ${change}`
+        );
+      }
+
+      return triggers;
+    },
+  };
+}
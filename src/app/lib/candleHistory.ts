@@ -0,0 +1,86 @@
+// 스크롤백으로 불러온 과거 캔들과 실시간 캔들을 합치고 메모리 예산을 지키는 도우미
+
+type TimedCandle = { openTime: number };
+
+// openTime 기준으로 합쳐 정렬. 같은 시각이면 incoming이 우선
+export function mergeCandles<T extends TimedCandle>(
+  existing: T[],
+  incoming: T[]
+): T[] {
+  const byTime = new Map(existing.map((candle) => [candle.openTime, candle]));
+  for (const candle of incoming) {
+    byTime.set(candle.openTime, candle);
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.openTime - b.openTime);
+}
+
+// budget을 넘으면 keep의 반대쪽 끝부터 잘라낸다
+export function trimCandles<T>(
+  candles: T[],
+  budget: number,
+  keep: "newest" | "oldest"
+): T[] {
+  if (candles.length <= budget) {
+    return candles;
+  }
+  return keep === "newest" ? candles.slice(-budget) : candles.slice(0, budget);
+}
+
+// 실시간 캔들 하나를 반영. 이미 있는 시각이면 교체하고, 새 캔들이면 붙인 뒤 오래된 쪽을 잘라낸다
+export function upsertLiveCandle<T extends TimedCandle>(
+  previous: T[],
+  candle: T,
+  budget: number
+): T[] {
+  if (previous.length === 0) {
+    return [candle];
+  }
+
+  const existingIndex = previous.findIndex(
+    (item) => item.openTime === candle.openTime
+  );
+
+  if (existingIndex !== -1) {
+    const next = [...previous];
+    next[existingIndex] = candle;
+    return next;
+  }
+
+  const next = [...previous.slice(-(budget - 1)), candle];
+  return next.sort((a, b) => a.openTime - b.openTime);
+}
+
+// next가 previous에서 진행 중인 마지막 캔들만 바뀐 배열인지 (나머지 캔들은 같은 객체)
+export function isLastCandleUpdate<T extends TimedCandle>(
+  previous: T[],
+  next: T[]
+): boolean {
+  const lastIndex = next.length - 1;
+  if (
+    lastIndex < 0 ||
+    previous.length !== next.length ||
+    previous[lastIndex].openTime !== next[lastIndex].openTime
+  ) {
+    return false;
+  }
+  for (let index = 0; index < lastIndex; index += 1) {
+    if (previous[index] !== next[index]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// 시각순 점 배열의 마지막 점이 openTime이면 point로 교체 (null이면 제거, 없으면 끝에 추가)
+export function replaceLastPoint<P extends { x: number }>(
+  points: P[],
+  openTime: number,
+  point: P | null
+): void {
+  if (points[points.length - 1]?.x === openTime) {
+    points.pop();
+  }
+  if (point) {
+    points.push(point);
+  }
+}
@@ -0,0 +1,389 @@
+// 로컬 GraphQL과 거래소 API에서 캔들을 가져오고 실시간 구독 메시지를 캔들로 바꾸는 도우미
+
+import { createClient, type Client } from "graphql-ws";
+import {
+  aggregateCandles,
+  getCandleWindow,
+  getIntervalDefinition,
+} from "./intervals";
+
+export type Candle = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+  // 아래 항목은 참조 거래소 캔들에만 존재
+  closeTime?: number;
+  isFinal?: boolean;
+  trades?: number;
+  quoteVolume?: number;
+  takerBuyBaseVolume?: number;
+  takerBuyQuoteVolume?: number;
+};
+
+type KlineModel = {
+  symbol: string | null;
+  interval: number;
+  candleTime: string | null;
+  open: string;
+  close: string;
+  high: string;
+  low: string;
+  volume: number | null;
+};
+
+export type KlineSubModel = {
+  symbol: string | null;
+  interval: number;
+  candleTime: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: number | null;
+};
+
+// /api/exchanges/[exchange]/candles, /stream 공통 캔들 형식
+export type ExchangeCandlePayload = {
+  openTime: number;
+  closeTime: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  quoteVolume: string;
+  trades: number;
+  takerBuyBaseVolume: string;
+  takerBuyQuoteVolume: string;
+  isFinal: boolean;
+};
+
+// /api/exchanges/* 에러 응답 형식
+export type ApiErrorPayload = {
+  error: string;
+  code?: string;
+  retryAfter?: number;
+};
+
+// 로컬 심볼 → 거래소 마켓 매핑 (/api/exchanges/[exchange]/symbol-mappings)
+export type SymbolMappingPayload = {
+  localSymbol: string;
+  exchange: string;
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  localQuoteAsset: string | null;
+  source: "saved" | "suggested";
+};
+
+// /api/exchanges 응답의 거래소 항목
+export type ExchangeOption = {
+  id: string;
+  name: string;
+  intervals: string[];
+};
+
+export const MAX_CANDLES = 500;
+// 스크롤백으로 불러온 과거 캔들을 포함해 차트 하나가 메모리에 유지하는 최대 캔들 수
+export const MAX_LOADED_CANDLES = 5000;
+// 주/월봉 집계 시 한 번에 조회할 일봉 최대 개수
+const MAX_AGGREGATE_SOURCE_CANDLES = 2000;
+const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:58001";
+
+type GraphQLResponse<T> = {
+  data?: T;
+  errors?: { message: string }[];
+};
+
+export async function fetchGraphQL<T>(
+  query: string,
+  variables?: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(`${apiUrl}/graphql`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`GraphQL request failed with status ${response.status}`);
+  }
+
+  const payload = (await response.json()) as GraphQLResponse<T>;
+
+  if (payload.errors?.length) {
+    throw new Error(payload.errors.map((item) => item.message).join(", "));
+  }
+
+  if (!payload.data) {
+    throw new Error("GraphQL response did not include data");
+  }
+
+  return payload.data;
+}
+
+// API 에러 코드를 사용자에게 보여줄 메시지로 변환
+export function describeExchangeError(
+  detail: ApiErrorPayload | null,
+  exchangeName: string
+): string {
+  switch (detail?.code) {
+    case "INVALID_SYMBOL":
+      return `${exchangeName} 심볼 형식이 올바르지 않습니다.`;
+    case "UNKNOWN_SYMBOL":
+      return `${exchangeName}에 존재하지 않는 심볼입니다.`;
+    case "UNKNOWN_EXCHANGE":
+      return "지원하지 않는 거래소입니다.";
+    case "INVALID_INTERVAL":
+      return `${exchangeName}에서 지원하지 않는 간격입니다.`;
+    case "RANGE_TOO_LARGE":
+      return "요청한 기간이 너무 깁니다.";
+    case "RATE_LIMITED":
+      return `${exchangeName} 요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.`;
+    case "IP_BANNED":
+      return detail.retryAfter
+        ? `${exchangeName}가 서버 IP를 일시적으로 차단했습니다. ${Math.ceil(
+            detail.retryAfter / 60
+          )}분 후 다시 시도해주세요.`
+        : `${exchangeName}가 서버 IP를 일시적으로 차단했습니다.`;
+    default:
+      return detail?.error
+        ? `${exchangeName} 데이터를 불러오지 못했습니다. (${detail.error})`
+        : `${exchangeName} 데이터를 불러오지 못했습니다.`;
+  }
+}
+
+const buildWsUrl = () => {
+  const normalized = apiUrl.endsWith("/") ? apiUrl.slice(0, -1) : apiUrl;
+  return `${normalized.replace(/^http/i, "ws")}/graphql`;
+};
+
+let wsClient: Client | null = null;
+
+export const getWsClient = () => {
+  if (!wsClient) {
+    wsClient = createClient({
+      url: buildWsUrl(),
+      lazy: true,
+      retryAttempts: 25,
+      shouldRetry: () => true,
+    });
+  }
+  return wsClient;
+};
+
+export const KLINE_UPDATED_SUBSCRIPTION = `subscription KlineUpdated($symbol: String!, $interval: Float!) {
+  klineUpdated(symbol: $symbol, interval: $interval) {
+    symbol
+    interval
+    candleTime
+    open
+    high
+    low
+    close
+    volume
+  }
+}`;
+
+export function mapSubscriptionKlineToCandle(kline: KlineSubModel): Candle | null {
+  const openTime = Date.parse(kline.candleTime);
+  const open = parseFloat(kline.open);
+  const high = parseFloat(kline.high);
+  const low = parseFloat(kline.low);
+  const close = parseFloat(kline.close);
+  const volume =
+    typeof kline.volume === "number" ? kline.volume : Number(kline.volume ?? 0);
+
+  if (
+    Number.isNaN(openTime) ||
+    Number.isNaN(open) ||
+    Number.isNaN(high) ||
+    Number.isNaN(low) ||
+    Number.isNaN(close)
+  ) {
+    return null;
+  }
+
+  return {
+    openTime,
+    open,
+    high,
+    low,
+    close,
+    volume: Number.isNaN(volume) ? undefined : volume,
+  } satisfies Candle;
+}
+
+function mapModelToCandle(model: KlineModel): Candle | null {
+  const openTime = model.candleTime ? Date.parse(model.candleTime) : Number.NaN;
+  const open = parseFloat(model.open);
+  const high = parseFloat(model.high);
+  const low = parseFloat(model.low);
+  const close = parseFloat(model.close);
+  const volume =
+    typeof model.volume === "number"
+      ? model.volume
+      : Number(model.volume ?? Number.NaN);
+
+  if (
+    Number.isNaN(openTime) ||
+    Number.isNaN(open) ||
+    Number.isNaN(high) ||
+    Number.isNaN(low) ||
+    Number.isNaN(close)
+  ) {
+    return null;
+  }
+
+  return {
+    openTime,
+    open,
+    high,
+    low,
+    close,
+    volume: Number.isNaN(volume) ? undefined : volume,
+  } satisfies Candle;
+}
+
+function mapModelsToCandles(klines: KlineModel[]): Candle[] {
+  return klines
+    .map((item) => mapModelToCandle(item))
+    .filter((value): value is Candle => value !== null)
+    .sort((a, b) => a.openTime - b.openTime);
+}
+
+const parseOptionalNumber = (value: string | undefined): number | undefined => {
+  const parsed = parseFloat(value ?? "");
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export function mapExchangeCandle(payload: ExchangeCandlePayload): Candle | null {
+  const openTime = payload.openTime;
+  const open = parseFloat(payload.open);
+  const high = parseFloat(payload.high);
+  const low = parseFloat(payload.low);
+  const close = parseFloat(payload.close);
+
+  if (
+    Number.isNaN(openTime) ||
+    Number.isNaN(open) ||
+    Number.isNaN(high) ||
+    Number.isNaN(low) ||
+    Number.isNaN(close)
+  ) {
+    return null;
+  }
+
+  return {
+    openTime,
+    open,
+    high,
+    low,
+    close,
+    volume: parseOptionalNumber(payload.volume),
+    closeTime: payload.closeTime,
+    isFinal: payload.isFinal,
+    trades: payload.trades,
+    quoteVolume: parseOptionalNumber(payload.quoteVolume),
+    takerBuyBaseVolume: parseOptionalNumber(payload.takerBuyBaseVolume),
+    takerBuyQuoteVolume: parseOptionalNumber(payload.takerBuyQuoteVolume),
+  } satisfies Candle;
+}
+
+// end를 주면 그 시각 이전 MAX_CANDLES개 구간, 생략하면 현재까지의 최신 구간
+export async function fetchLocalCandles(
+  symbol: string,
+  intervalMinutes: number,
+  end?: number,
+  count = MAX_CANDLES
+): Promise<Candle[]> {
+  const definition = getIntervalDefinition(intervalMinutes);
+  const localMinutes = definition?.localMinutes ?? intervalMinutes;
+  // 주/월봉은 로컬에서 일봉을 받아 달력 기준으로 집계한다
+  const aggregated = localMinutes !== intervalMinutes;
+  const window = getCandleWindow(intervalMinutes, count, end);
+  const limit = aggregated ? MAX_AGGREGATE_SOURCE_CANDLES : count;
+  const startDate = new Date(
+    Math.max(window.start, window.end - limit * localMinutes * 60000)
+  );
+  const endDate = new Date(window.end);
+
+  const data = await fetchGraphQL<{ klines: KlineModel[] }>(
+    `query Klines($input: KlineInput!) {
+    klines(input: $input) {
+      symbol
+      interval
+      candleTime
+      open
+      close
+      high
+      low
+      volume
+    }
+  }`,
+    {
+      input: {
+        symbol,
+        intervalMin: localMinutes,
+        limit,
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
+      },
+    }
+  );
+
+  const mapped = mapModelsToCandles(data.klines);
+  return (
+    aggregated ? aggregateCandles(mapped, intervalMinutes) : mapped
+  ).slice(-count);
+}
+
+// 거래소 어댑터로 로컬 심볼의 캔들 구간을 불러온다. symbol은 스트림 구독에 쓸 거래소 심볼
+export async function fetchExchangeCandles(
+  exchange: { id: string; name: string },
+  symbol: string,
+  intervalMinutes: number,
+  end?: number,
+  count = MAX_CANDLES
+): Promise<{
+  symbol: string;
+  mapping: SymbolMappingPayload;
+  candles: Candle[];
+}> {
+  const intervalCode = getIntervalDefinition(intervalMinutes)?.binance;
+  if (!intervalCode) {
+    throw new Error(`${exchange.name}에서 지원하지 않는 간격입니다.`);
+  }
+
+  const window = getCandleWindow(intervalMinutes, count, end);
+  const response = await fetch(
+    `/api/exchanges/${exchange.id}/candles?symbol=${encodeURIComponent(
+      symbol
+    )}&interval=${intervalCode}&start=${window.start}&end=${window.end}`
+  );
+  if (!response.ok) {
+    const detail = (await response
+      .json()
+      .catch(() => null)) as ApiErrorPayload | null;
+    throw new Error(describeExchangeError(detail, exchange.name));
+  }
+
+  const payload = (await response.json()) as {
+    symbol: string;
+    mapping: SymbolMappingPayload;
+    candles: ExchangeCandlePayload[];
+  };
+  return {
+    symbol: payload.symbol,
+    mapping: payload.mapping,
+    candles: payload.candles
+      .map((item) => mapExchangeCandle(item))
+      .filter((value): value is Candle => value !== null),
+  };
+}
@@ -0,0 +1,97 @@
+// 멀티 차트 그리드의 패널 구성과 이름을 붙여 localStorage에 저장한 레이아웃
+import { createId } from "./ids";
+
+// 패널 데이터 소스. 로컬 GraphQL이 아니면 거래소 id
+export const LOCAL_SOURCE = "local";
+
+export type GridSize = 1 | 2 | 3;
+
+export const GRID_SIZES: GridSize[] = [1, 2, 3];
+
+export type ChartPanelConfig = {
+  source: string;
+  symbol: string;
+  intervalMinutes: number;
+};
+
+// 화면의 그리드 칸. 칸을 줄이거나 바꿔도 같은 패널의 차트가 유지되도록 id로 구분한다
+export type GridPanel = ChartPanelConfig & { id: string };
+
+export type ChartLayout = {
+  name: string;
+  size: GridSize;
+  panels: ChartPanelConfig[];
+  savedAt: number;
+};
+
+const STORAGE_KEY = "cex-kline:chart-layouts";
+
+const isPanelConfig = (value: any): value is ChartPanelConfig =>
+  typeof value?.source === "string" &&
+  typeof value.symbol === "string" &&
+  Number.isFinite(value.intervalMinutes);
+
+const isChartLayout = (value: any): value is ChartLayout =>
+  typeof value?.name === "string" &&
+  GRID_SIZES.includes(value.size) &&
+  Array.isArray(value.panels) &&
+  value.panels.every(isPanelConfig);
+
+// size×size 칸에 맞게 자르거나 fallback 패널로 채운다.
+// id가 없는 패널(저장된 레이아웃, 새로 채운 칸)에는 새 id를 붙인다
+export function resizePanels(
+  panels: (ChartPanelConfig & { id?: string })[],
+  size: GridSize,
+  fallback: ChartPanelConfig
+): GridPanel[] {
+  return Array.from({ length: size * size }, (_, index) => {
+    const panel = panels[index];
+    return panel?.id
+      ? { ...panel, id: panel.id }
+      : { ...(panel ?? fallback), id: createId() };
+  });
+}
+
+// 레이아웃에는 화면용 id를 빼고 저장
+export const toPanelConfig = ({
+  source,
+  symbol,
+  intervalMinutes,
+}: ChartPanelConfig): ChartPanelConfig => ({ source, symbol, intervalMinutes });
+
+export function loadLayouts(): ChartLayout[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isChartLayout) : [];
+  } catch (error) {
+    console.warn("저장된 레이아웃을 읽지 못했습니다:", error);
+    return [];
+  }
+}
+
+export function saveLayouts(layouts: ChartLayout[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+  } catch (error) {
+    console.warn("레이아웃을 저장하지 못했습니다:", error);
+  }
+}
+
+// 같은 이름이면 덮어쓰고 이름순으로 정렬
+export function upsertLayout(
+  layouts: ChartLayout[],
+  layout: ChartLayout
+): ChartLayout[] {
+  return [...layouts.filter((item) => item.name !== layout.name), layout].sort(
+    (a, b) => a.name.localeCompare(b.name)
+  );
+}
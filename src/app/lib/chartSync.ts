@@ -0,0 +1,91 @@
+// 연동 모드에서 여러 캔들 차트의 x축 구간, 십자선 위치, 같은 시각 캔들 비교를 공유한다
+
+export type ChartSyncRange = { start: number; end: number };
+
+export type ChartSyncCandle = { openTime: number; close: number };
+
+type ChartSyncListener = {
+  onRange: (range: ChartSyncRange) => void;
+  onHover: (openTime: number | null) => void;
+};
+
+type ChartSyncMember = ChartSyncListener & {
+  label: string;
+  candles: Map<number, ChartSyncCandle>;
+};
+
+// 같은 openTime의 다른 차트 캔들
+export type ChartSyncComparison = {
+  label: string;
+  own: ChartSyncCandle;
+  peer: ChartSyncCandle;
+};
+
+export type ChartSync = {
+  // 해제 함수를 반환
+  register: (id: string, listener: ChartSyncListener) => () => void;
+  setCandles: (id: string, label: string, candles: ChartSyncCandle[]) => void;
+  publishRange: (sourceId: string, range: ChartSyncRange) => void;
+  publishHover: (sourceId: string, openTime: number | null) => void;
+  compareAt: (sourceId: string, openTime: number) => ChartSyncComparison[];
+};
+
+export function createChartSync(): ChartSync {
+  const members = new Map<string, ChartSyncMember>();
+
+  const forEachPeer = (
+    sourceId: string,
+    callback: (member: ChartSyncMember) => void
+  ) => {
+    members.forEach((member, id) => {
+      if (id !== sourceId) {
+        callback(member);
+      }
+    });
+  };
+
+  return {
+    register: (id, listener) => {
+      const previous = members.get(id);
+      members.set(id, {
+        label: previous?.label ?? id,
+        candles: previous?.candles ?? new Map(),
+        ...listener,
+      });
+      return () => {
+        members.delete(id);
+      };
+    },
+    setCandles: (id, label, candles) => {
+      const member = members.get(id);
+      if (!member) {
+        return;
+      }
+      member.label = label;
+      member.candles = new Map(
+        candles.map((candle) => [candle.openTime, candle])
+      );
+    },
+    publishRange: (sourceId, range) => {
+      forEachPeer(sourceId, (member) => member.onRange(range));
+    },
+    publishHover: (sourceId, openTime) => {
+      forEachPeer(sourceId, (member) => member.onHover(openTime));
+    },
+    compareAt: (sourceId, openTime) => {
+      const own = members.get(sourceId)?.candles.get(openTime);
+      if (!own) {
+        return [];
+      }
+
+      const comparisons: ChartSyncComparison[] = [];
+      forEachPeer(sourceId, (member) => {
+        const peer = member.candles.get(openTime);
+        if (peer) {
+          comparisons.push({ label: member.label, own, peer });
+        }
+      });
+      return comparisons;
+    },
+  };
+}
@@ -0,0 +1,219 @@
+// 차트 위에 그리는 추세선, 수평선, 사각형, 메모와 심볼/봉 간격별 localStorage 저장
+
+export type DrawingPoint = { time: number; price: number };
+
+export type Drawing =
+  | { id: string; type: "trendLine"; start: DrawingPoint; end: DrawingPoint }
+  | { id: string; type: "horizontalLine"; price: number }
+  | { id: string; type: "rectangle"; start: DrawingPoint; end: DrawingPoint }
+  | { id: string; type: "text"; point: DrawingPoint; text: string };
+
+export type DrawingType = Drawing["type"];
+
+// eraser는 클릭한 위치의 그림을 지운다
+export type DrawingTool = DrawingType | "eraser";
+
+// 내보내기/가져오기 JSON 형식
+export type DrawingExport = {
+  version: number;
+  symbol: string;
+  intervalMinutes: number;
+  drawings: Drawing[];
+};
+
+type DrawingCandle = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+};
+
+export const DRAWING_EXPORT_VERSION = 1;
+
+const STORAGE_PREFIX = "cex-kline:drawings";
+
+export const DRAWING_TOOLS: { tool: DrawingTool; label: string }[] = [
+  { tool: "trendLine", label: "추세선" },
+  { tool: "horizontalLine", label: "수평선" },
+  { tool: "rectangle", label: "사각형" },
+  { tool: "text", label: "메모" },
+  { tool: "eraser", label: "지우개" },
+];
+
+export const DRAWING_COLORS: Record<DrawingType, string> = {
+  trendLine: "#38bdf8",
+  horizontalLine: "#facc15",
+  rectangle: "#a78bfa",
+  text: "#e2e8f0",
+};
+
+const isPoint = (value: any): value is DrawingPoint =>
+  Number.isFinite(value?.time) && Number.isFinite(value?.price);
+
+const isDrawing = (value: any): value is Drawing => {
+  if (typeof value?.id !== "string") {
+    return false;
+  }
+  switch (value.type) {
+    case "trendLine":
+    case "rectangle":
+      return isPoint(value.start) && isPoint(value.end);
+    case "horizontalLine":
+      return Number.isFinite(value.price);
+    case "text":
+      return isPoint(value.point) && typeof value.text === "string";
+    default:
+      return false;
+  }
+};
+
+// 가장 가까운 캔들의 시각으로 맞추고, 가격은 maxPriceDistance 안의 시/고/저/종가로 붙인다
+export function snapDrawingPoint(
+  point: DrawingPoint,
+  candles: DrawingCandle[],
+  maxPriceDistance: number
+): DrawingPoint {
+  if (candles.length === 0) {
+    return point;
+  }
+
+  let low = 0;
+  let high = candles.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (candles[mid].openTime < point.time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const candle =
+    low > 0 &&
+    point.time - candles[low - 1].openTime < candles[low].openTime - point.time
+      ? candles[low - 1]
+      : candles[low];
+
+  const nearestPrice = [candle.open, candle.high, candle.low, candle.close]
+    .map((price) => ({ price, distance: Math.abs(price - point.price) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  return {
+    time: candle.openTime,
+    price:
+      nearestPrice.distance <= maxPriceDistance
+        ? nearestPrice.price
+        : point.price,
+  };
+}
+
+const storageKey = (symbol: string, intervalMinutes: number) =>
+  `${STORAGE_PREFIX}:${symbol}:${intervalMinutes}`;
+
+export function loadDrawings(
+  symbol: string,
+  intervalMinutes: number
+): Drawing[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const stored = window.localStorage.getItem(
+      storageKey(symbol, intervalMinutes)
+    );
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isDrawing) : [];
+  } catch (error) {
+    console.warn("저장된 그림을 읽지 못했습니다:", error);
+    return [];
+  }
+}
+
+// 그림이 없으면 키를 지운다
+export function saveDrawings(
+  symbol: string,
+  intervalMinutes: number,
+  drawings: Drawing[]
+) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const key = storageKey(symbol, intervalMinutes);
+  try {
+    if (drawings.length === 0) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, JSON.stringify(drawings));
+    }
+  } catch (error) {
+    console.warn("그림을 저장하지 못했습니다:", error);
+  }
+}
+
+// 같은 id는 incoming이 우선
+export function mergeDrawings(
+  existing: Drawing[],
+  incoming: Drawing[]
+): Drawing[] {
+  const incomingIds = new Set(incoming.map((drawing) => drawing.id));
+  return [
+    ...existing.filter((drawing) => !incomingIds.has(drawing.id)),
+    ...incoming,
+  ];
+}
+
+export function serializeDrawings(
+  symbol: string,
+  intervalMinutes: number,
+  drawings: Drawing[]
+): string {
+  const payload: DrawingExport = {
+    version: DRAWING_EXPORT_VERSION,
+    symbol,
+    intervalMinutes,
+    drawings,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+// 형식이 맞지 않으면 화면에 그대로 보여줄 메시지로 Error를 던진다
+export function parseDrawingExport(text: string): DrawingExport {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error("JSON 파일이 아닙니다.");
+  }
+
+  if (payload?.version !== DRAWING_EXPORT_VERSION) {
+    throw new Error(
+      `지원하지 않는 그림 파일 버전입니다: ${payload?.version ?? "없음"}`
+    );
+  }
+  if (
+    typeof payload.symbol !== "string" ||
+    !payload.symbol ||
+    !Number.isFinite(payload.intervalMinutes) ||
+    !Array.isArray(payload.drawings)
+  ) {
+    throw new Error("심볼, 봉 간격, 그림 목록이 필요합니다.");
+  }
+
+  const drawings = payload.drawings.filter(isDrawing);
+  if (drawings.length !== payload.drawings.length) {
+    throw new Error(
+      `형식이 잘못된 그림이 ${
+        payload.drawings.length - drawings.length
+      }개 있습니다.`
+    );
+  }
+
+  return {
+    version: DRAWING_EXPORT_VERSION,
+    symbol: payload.symbol,
+    intervalMinutes: payload.intervalMinutes,
+    drawings,
+  };
+}
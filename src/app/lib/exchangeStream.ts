@@ -0,0 +1,290 @@
+// 거래소별로 SSE 연결을 공유하는 실시간 캔들 구독 허브.
+// 메인 참조 차트, 그리드 패널, 워치리스트가 같은 연결(스트림 50개마다 하나)을 쓰고
+// 구독 변경은 connectionId로 POST하여 연결을 다시 맺지 않는다
+
+export type ExchangeStreamStatus = "connecting" | "connected" | "reconnecting";
+
+export type ExchangeStreamHandlers<T> = {
+  onCandle: (candle: T) => void;
+  onStatus?: (status: ExchangeStreamStatus) => void;
+};
+
+export type ExchangeStream = {
+  // streamKey는 "BTCUSDT@1m" 형식. 해제 함수를 반환
+  subscribe: <T extends { openTime: number }>(
+    streamKey: string,
+    handlers: ExchangeStreamHandlers<T>
+  ) => () => void;
+};
+
+// 서버가 한 SSE 연결에 허용하는 스트림 수 (MAX_STREAMS_PER_CONNECTION)
+const MAX_STREAMS_PER_CONNECTION = 50;
+// 같은 렌더에서 일어난 구독 변경을 한 번의 연결/요청으로 모은다
+const SYNC_DELAY = 50;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+type Connection = {
+  // 구독해야 하는 스트림
+  keys: Set<string>;
+  // 현재 EventSource에 리스너를 붙이고 서버에 구독한 스트림
+  subscribedKeys: Set<string>;
+  source: EventSource | null;
+  // ready 이벤트로 받은 id. null이면 아직 연결 중
+  connectionId: string | null;
+  status: ExchangeStreamStatus;
+  updating: boolean;
+  reconnectAttempts: number;
+  syncTimer: ReturnType<typeof setTimeout> | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+};
+
+function createExchangeStream(exchangeId: string): ExchangeStream {
+  const connections: Connection[] = [];
+  const subscribers = new Map<string, Set<ExchangeStreamHandlers<any>>>();
+  // 재연결 시 스트림마다 이어 받을 마지막 캔들 시각
+  const positions = new Map<string, number>();
+  const endpoint = `/api/exchanges/${exchangeId}/stream`;
+
+  const handleMessage = (event: MessageEvent<string>) => {
+    if (!event.data) {
+      return;
+    }
+    try {
+      const { candle } = JSON.parse(event.data) as {
+        candle?: { openTime: number };
+      };
+      if (!candle) {
+        return;
+      }
+      positions.set(event.type, candle.openTime);
+      subscribers.get(event.type)?.forEach((handlers) => {
+        handlers.onCandle(candle);
+      });
+    } catch (error) {
+      console.error(`Failed to parse ${exchangeId} stream payload`, error);
+    }
+  };
+
+  const setStatus = (connection: Connection, status: ExchangeStreamStatus) => {
+    connection.status = status;
+    connection.keys.forEach((key) => {
+      subscribers.get(key)?.forEach((handlers) => handlers.onStatus?.(status));
+    });
+  };
+
+  const closeSource = (connection: Connection) => {
+    connection.source?.close();
+    connection.source = null;
+    connection.connectionId = null;
+    connection.subscribedKeys.clear();
+  };
+
+  // 끊기면 지수 백오프 후 스트림별 마지막 캔들 시각부터 이어 받는다
+  const reconnect = (connection: Connection) => {
+    closeSource(connection);
+    if (connection.reconnectTimer) {
+      return;
+    }
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** connection.reconnectAttempts,
+      RECONNECT_MAX_DELAY
+    );
+    connection.reconnectAttempts += 1;
+    setStatus(connection, "reconnecting");
+    connection.reconnectTimer = setTimeout(() => {
+      connection.reconnectTimer = null;
+      sync(connection);
+    }, delay);
+  };
+
+  const open = (connection: Connection) => {
+    const keys = Array.from(connection.keys);
+    const resume = keys
+      .filter((key) => positions.has(key))
+      .map((key) => `${key}:${positions.get(key)}`)
+      .join(",");
+    const source = new EventSource(
+      `${endpoint}?streams=${encodeURIComponent(keys.join(","))}${
+        resume ? `&resume=${encodeURIComponent(resume)}` : ""
+      }`
+    );
+
+    connection.source = source;
+    connection.connectionId = null;
+    connection.subscribedKeys = new Set(keys);
+    keys.forEach((key) => source.addEventListener(key, handleMessage));
+
+    source.addEventListener("ready", (event: MessageEvent<string>) => {
+      try {
+        const { connectionId } = JSON.parse(event.data) as {
+          connectionId: string;
+        };
+        connection.connectionId = connectionId;
+        connection.reconnectAttempts = 0;
+        setStatus(connection, "connected");
+        // 연결하는 동안 바뀐 구독을 반영
+        scheduleSync(connection);
+      } catch (error) {
+        console.error(
+          `Failed to parse ${exchangeId} stream ready event`,
+          error
+        );
+      }
+    });
+
+    source.onerror = (event) => {
+      if (connection.source !== source) {
+        return;
+      }
+      console.error(`${exchangeId} stream error`, event);
+      reconnect(connection);
+    };
+  };
+
+  // 구독해야 하는 스트림과 서버 구독을 맞춘다
+  const sync = (connection: Connection) => {
+    if (connection.keys.size === 0) {
+      closeSource(connection);
+      if (connection.reconnectTimer) {
+        clearTimeout(connection.reconnectTimer);
+        connection.reconnectTimer = null;
+      }
+      const index = connections.indexOf(connection);
+      if (index !== -1) {
+        connections.splice(index, 1);
+      }
+      return;
+    }
+
+    if (!connection.source) {
+      if (!connection.reconnectTimer) {
+        open(connection);
+      }
+      return;
+    }
+
+    const { source, connectionId } = connection;
+    if (!connectionId || connection.updating) {
+      return;
+    }
+
+    const add = Array.from(connection.keys).filter(
+      (key) => !connection.subscribedKeys.has(key)
+    );
+    const remove = Array.from(connection.subscribedKeys).filter(
+      (key) => !connection.keys.has(key)
+    );
+    if (add.length === 0 && remove.length === 0) {
+      return;
+    }
+
+    add.forEach((key) => {
+      source.addEventListener(key, handleMessage);
+      connection.subscribedKeys.add(key);
+    });
+    remove.forEach((key) => {
+      source.removeEventListener(key, handleMessage);
+      connection.subscribedKeys.delete(key);
+    });
+
+    connection.updating = true;
+    fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ connectionId, add, remove }),
+    })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`);
+        }
+      })
+      .catch((error) => {
+        // 서버가 연결을 잃었으면(STREAM_NOT_FOUND 등) 새 연결로 다시 구독
+        console.error(`Failed to update ${exchangeId} stream`, error);
+        if (connection.source === source) {
+          reconnect(connection);
+        }
+      })
+      .finally(() => {
+        connection.updating = false;
+        scheduleSync(connection);
+      });
+  };
+
+  const scheduleSync = (connection: Connection) => {
+    if (connection.syncTimer) {
+      return;
+    }
+    connection.syncTimer = setTimeout(() => {
+      connection.syncTimer = null;
+      sync(connection);
+    }, SYNC_DELAY);
+  };
+
+  const findConnection = (key: string): Connection => {
+    const existing =
+      connections.find((connection) => connection.keys.has(key)) ??
+      connections.find(
+        (connection) => connection.keys.size < MAX_STREAMS_PER_CONNECTION
+      );
+    if (existing) {
+      return existing;
+    }
+    const connection: Connection = {
+      keys: new Set(),
+      subscribedKeys: new Set(),
+      source: null,
+      connectionId: null,
+      status: "connecting",
+      updating: false,
+      reconnectAttempts: 0,
+      syncTimer: null,
+      reconnectTimer: null,
+    };
+    connections.push(connection);
+    return connection;
+  };
+
+  return {
+    subscribe: (streamKey, handlers) => {
+      const connection = findConnection(streamKey);
+      const keySubscribers = subscribers.get(streamKey) ?? new Set();
+      subscribers.set(streamKey, keySubscribers);
+      keySubscribers.add(handlers);
+      connection.keys.add(streamKey);
+      scheduleSync(connection);
+
+      // 이미 열린 연결이면 현재 상태를 알려준다 (구독한 쪽의 effect 밖에서 호출)
+      let active = true;
+      queueMicrotask(() => {
+        if (active) {
+          handlers.onStatus?.(connection.status);
+        }
+      });
+
+      return () => {
+        active = false;
+        keySubscribers.delete(handlers);
+        if (keySubscribers.size > 0) {
+          return;
+        }
+        subscribers.delete(streamKey);
+        positions.delete(streamKey);
+        connection.keys.delete(streamKey);
+        scheduleSync(connection);
+      };
+    },
+  };
+}
+
+const streams = new Map<string, ExchangeStream>();
+
+export function getExchangeStream(exchangeId: string): ExchangeStream {
+  let stream = streams.get(exchangeId);
+  if (!stream) {
+    stream = createExchangeStream(exchangeId);
+    streams.set(exchangeId, stream);
+  }
+  return stream;
+}
@@ -0,0 +1,40 @@
+// 가격, 등락률, 시각 표시용 포매터
+
+export const priceFormatter = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+export const percentFormatter = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+export const oscillatorFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 4,
+});
+
+export const volumeFormatter = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 2,
+});
+
+export const timeFormatter = new Intl.DateTimeFormat("ko-KR", {
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+export const dateFormatter = new Intl.DateTimeFormat("ko-KR", {
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+// 일봉 이상은 날짜로, 그 미만은 시각으로 캔들 시간 표시
+export const formatCandleTime = (time: number, intervalMinutes: number): string =>
+  intervalMinutes >= 1440
+    ? dateFormatter.format(time)
+    : timeFormatter.format(time);
+
+export const formatSigned = (value: number, formatter: Intl.NumberFormat) =>
+  `${value >= 0 ? "+" : "-"}${formatter.format(Math.abs(value))}`;
@@ -0,0 +1,112 @@
+// 참조 거래소 가격을 로컬 호가 통화로 환산할 때 쓰는 환율 기준
+// fixed: 고정 환율, exchange: 거래소 캔들(예: USDT/KRW 마켓), local: 로컬 인덱서의 환율 심볼
+export type FxRateSource =
+  | { type: "none" }
+  | { type: "fixed"; rate: number }
+  | { type: "exchange"; exchange: string; symbol: string; invert: boolean }
+  | { type: "local"; symbol: string; invert: boolean };
+
+// openTime부터 다음 점 전까지 유효한 환율 (참조 호가 통화 1단위의 로컬 호가 통화 가격)
+export type FxRatePoint = { openTime: number; rate: number };
+
+export type PremiumPoint = {
+  openTime: number;
+  localClose: number;
+  referenceClose: number;
+  // (로컬 - 참조) / 참조 × 100. 로컬이 KRW 마켓이면 김치 프리미엄
+  premium: number;
+};
+
+type PricedCandle = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+};
+
+// 환율 캔들의 종가를 시계열로 변환. 마켓이 반대 방향(KRW/USDT)이면 역수를 취한다
+export function toRateSeries(
+  candles: { openTime: number; close: number }[],
+  invert: boolean
+): FxRatePoint[] {
+  return candles
+    .filter((candle) => Number.isFinite(candle.close) && candle.close > 0)
+    .map((candle) => ({
+      openTime: candle.openTime,
+      rate: invert ? 1 / candle.close : candle.close,
+    }))
+    .sort((a, b) => a.openTime - b.openTime);
+}
+
+// 시각 time에 유효한 환율. 시계열보다 앞선 시각은 첫 환율, 이후는 마지막 환율을 사용
+export function getRateAt(
+  rates: FxRatePoint[],
+  time: number
+): number | undefined {
+  if (rates.length === 0) {
+    return undefined;
+  }
+
+  let low = 0;
+  let high = rates.length - 1;
+  let found = 0;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (rates[mid].openTime <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return rates[found].rate;
+}
+
+// 캔들마다 해당 시각의 환율로 가격을 환산 (거래량은 기준 자산 단위라 그대로 둔다)
+export function convertCandles<T extends PricedCandle>(
+  candles: T[],
+  rates: FxRatePoint[]
+): T[] {
+  if (rates.length === 0) {
+    return candles;
+  }
+
+  return candles.map((candle) => {
+    const rate = getRateAt(rates, candle.openTime) ?? 1;
+    return {
+      ...candle,
+      open: candle.open * rate,
+      high: candle.high * rate,
+      low: candle.low * rate,
+      close: candle.close * rate,
+    };
+  });
+}
+
+// openTime이 같은 캔들끼리 종가 프리미엄을 계산 (두 입력 모두 같은 호가 통화여야 한다)
+export function computePremiumSeries(
+  local: PricedCandle[],
+  reference: PricedCandle[]
+): PremiumPoint[] {
+  const referenceByTime = new Map(
+    reference.map((candle) => [candle.openTime, candle])
+  );
+
+  return local.flatMap((candle) => {
+    const matched = referenceByTime.get(candle.openTime);
+    if (!matched || matched.close === 0) {
+      return [];
+    }
+    return [
+      {
+        openTime: candle.openTime,
+        localClose: candle.close,
+        referenceClose: matched.close,
+        premium: ((candle.close - matched.close) / matched.close) * 100,
+      },
+    ];
+  });
+}
@@ -0,0 +1,5 @@
+// localStorage에 저장하는 그림, 알림, 그리드 패널 같은 항목의 id
+
+// 시각과 난수를 붙인 id. 한 브라우저 안에서만 구분되면 된다
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
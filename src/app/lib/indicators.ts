@@ -0,0 +1,508 @@
+// 캔들 배열로 가격 차트 위에 겹쳐 그리는 보조지표 (SMA, EMA, 볼린저 밴드, VWAP)
+import { isLastCandleUpdate, replaceLastPoint } from "./candleHistory";
+
+export type IndicatorCandle = {
+  openTime: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+};
+
+export type IndicatorType = "sma" | "ema" | "bollinger" | "vwap";
+
+export type IndicatorParam = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+};
+
+export type IndicatorConfig = {
+  type: IndicatorType;
+  enabled: boolean;
+  params: Record<string, number>;
+};
+
+export type IndicatorPoint = { x: number; y: number };
+
+// 차트에 선 하나로 그려지는 지표 결과
+export type IndicatorLine = {
+  id: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+  points: IndicatorPoint[];
+};
+
+type IndicatorDefinition = {
+  type: IndicatorType;
+  label: string;
+  color: string;
+  params: IndicatorParam[];
+  compute: (
+    candles: IndicatorCandle[],
+    params: Record<string, number>,
+    intervalMinutes: number
+  ) => IndicatorLine[];
+  // 진행 중인 마지막 캔들만 바뀌었을 때 선마다 마지막 값만 다시 계산 (previous는 직전 결과)
+  computeLast: (
+    candles: IndicatorCandle[],
+    params: Record<string, number>,
+    intervalMinutes: number,
+    previous: IndicatorLine[]
+  ) => (number | null)[];
+};
+
+const DAY_MINUTES = 1440;
+const DAY_MS = DAY_MINUTES * 60 * 1000;
+
+const PERIOD_PARAM: IndicatorParam = {
+  key: "period",
+  label: "기간",
+  min: 2,
+  max: 500,
+  step: 1,
+  defaultValue: 20,
+};
+
+// 기간 파라미터를 안전한 정수로 변환
+const toPeriod = (value: number | undefined) =>
+  Math.max(1, Math.floor(value ?? PERIOD_PARAM.defaultValue));
+
+export function computeSma(
+  values: number[],
+  period: number
+): (number | null)[] {
+  const result: (number | null)[] = [];
+  let sum = 0;
+
+  values.forEach((value, index) => {
+    sum += value;
+    if (index >= period) {
+      sum -= values[index - period];
+    }
+    result.push(index >= period - 1 ? sum / period : null);
+  });
+
+  return result;
+}
+
+export type EmaState = { count: number; sum: number; value: number | null };
+
+export const EMPTY_EMA: EmaState = { count: 0, sum: 0, value: null };
+
+// 첫 값은 SMA로 시작하는 표준 EMA 한 스텝 (오실레이터의 증분 계산과 공유)
+export const stepEma = (
+  state: EmaState,
+  value: number,
+  period: number
+): EmaState => {
+  if (state.value !== null) {
+    const alpha = 2 / (period + 1);
+    return { ...state, value: value * alpha + state.value * (1 - alpha) };
+  }
+  const count = state.count + 1;
+  const sum = state.sum + value;
+  return { count, sum, value: count === period ? sum / period : null };
+};
+
+export function computeEma(
+  values: number[],
+  period: number
+): (number | null)[] {
+  let state = EMPTY_EMA;
+
+  return values.map((value) => {
+    state = stepEma(state, value, period);
+    return state.value;
+  });
+}
+
+const lastValue = (values: (number | null)[]) =>
+  values.length > 0 ? values[values.length - 1] : null;
+
+// 끝에서부터 찾아 openTime 점의 값 (없으면 null)
+const findValueFromEnd = (points: IndicatorPoint[], openTime: number) => {
+  for (let index = points.length - 1; index >= 0; index -= 1) {
+    if (points[index].x === openTime) {
+      return points[index].y;
+    }
+    if (points[index].x < openTime) {
+      break;
+    }
+  }
+  return null;
+};
+
+const toPoints = (
+  candles: IndicatorCandle[],
+  values: (number | null)[]
+): IndicatorPoint[] =>
+  candles.flatMap((candle, index) => {
+    const value = values[index];
+    return value === null || !Number.isFinite(value)
+      ? []
+      : [{ x: candle.openTime, y: value }];
+  });
+
+function computeBollinger(
+  candles: IndicatorCandle[],
+  period: number,
+  multiplier: number
+) {
+  const closes = candles.map((candle) => candle.close);
+  const middle = computeSma(closes, period);
+  const upper: (number | null)[] = [];
+  const lower: (number | null)[] = [];
+
+  middle.forEach((mean, index) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    let variance = 0;
+    for (let offset = index - period + 1; offset <= index; offset += 1) {
+      variance += (closes[offset] - mean) ** 2;
+    }
+    const deviation = Math.sqrt(variance / period) * multiplier;
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  });
+
+  return { middle, upper, lower };
+}
+
+// 일봉 미만은 매일 00:00 UTC에 누적을 초기화하고, 그 이상은 전체 구간 누적
+function computeVwap(
+  candles: IndicatorCandle[],
+  intervalMinutes: number
+): (number | null)[] {
+  const anchored = intervalMinutes < DAY_MINUTES;
+  let session: number | null = null;
+  let priceVolume = 0;
+  let volume = 0;
+
+  return candles.map((candle) => {
+    const candleSession = anchored ? Math.floor(candle.openTime / DAY_MS) : 0;
+    if (candleSession !== session) {
+      session = candleSession;
+      priceVolume = 0;
+      volume = 0;
+    }
+
+    const candleVolume = candle.volume ?? 0;
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    priceVolume += typicalPrice * candleVolume;
+    volume += candleVolume;
+
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+// 마지막 캔들이 속한 세션의 캔들만 (일봉 이상은 전체 구간)
+const sliceVwapSession = (
+  candles: IndicatorCandle[],
+  intervalMinutes: number
+) => {
+  if (intervalMinutes >= DAY_MINUTES) {
+    return candles;
+  }
+  const session = Math.floor(candles[candles.length - 1].openTime / DAY_MS);
+  let start = candles.length - 1;
+  while (
+    start > 0 &&
+    Math.floor(candles[start - 1].openTime / DAY_MS) === session
+  ) {
+    start -= 1;
+  }
+  return candles.slice(start);
+};
+
+export const INDICATOR_DEFINITIONS: IndicatorDefinition[] = [
+  {
+    type: "sma",
+    label: "SMA",
+    color: "#facc15",
+    params: [PERIOD_PARAM],
+    compute: (candles, params) => {
+      const period = toPeriod(params.period);
+      return [
+        {
+          id: "sma",
+          label: `SMA(${period})`,
+          color: "#facc15",
+          points: toPoints(
+            candles,
+            computeSma(
+              candles.map((candle) => candle.close),
+              period
+            )
+          ),
+        },
+      ];
+    },
+    computeLast: (candles, params) => {
+      const period = toPeriod(params.period);
+      return [
+        lastValue(
+          computeSma(
+            candles.slice(-period).map((candle) => candle.close),
+            period
+          )
+        ),
+      ];
+    },
+  },
+  {
+    type: "ema",
+    label: "EMA",
+    color: "#38bdf8",
+    params: [{ ...PERIOD_PARAM, defaultValue: 50 }],
+    compute: (candles, params) => {
+      const period = toPeriod(params.period);
+      return [
+        {
+          id: "ema",
+          label: `EMA(${period})`,
+          color: "#38bdf8",
+          points: toPoints(
+            candles,
+            computeEma(
+              candles.map((candle) => candle.close),
+              period
+            )
+          ),
+        },
+      ];
+    },
+    computeLast: (candles, params, _intervalMinutes, previous) => {
+      const period = toPeriod(params.period);
+      const prior = candles[candles.length - 2];
+      const priorValue = prior
+        ? findValueFromEnd(previous[0]?.points ?? [], prior.openTime)
+        : null;
+      // 직전 EMA가 아직 없으면(초기 구간) 전체를 다시 계산
+      if (priorValue === null) {
+        return [
+          lastValue(
+            computeEma(
+              candles.map((candle) => candle.close),
+              period
+            )
+          ),
+        ];
+      }
+      return [
+        stepEma(
+          { count: period, sum: 0, value: priorValue },
+          candles[candles.length - 1].close,
+          period
+        ).value,
+      ];
+    },
+  },
+  {
+    type: "bollinger",
+    label: "볼린저 밴드",
+    color: "#c084fc",
+    params: [
+      PERIOD_PARAM,
+      {
+        key: "multiplier",
+        label: "표준편차",
+        min: 0.5,
+        max: 5,
+        step: 0.5,
+        defaultValue: 2,
+      },
+    ],
+    compute: (candles, params) => {
+      const period = toPeriod(params.period);
+      const multiplier = params.multiplier ?? 2;
+      const { middle, upper, lower } = computeBollinger(
+        candles,
+        period,
+        multiplier
+      );
+      const label = `BB(${period}, ${multiplier})`;
+      return [
+        {
+          id: "bollinger-upper",
+          label: `${label} 상단`,
+          color: "#c084fc",
+          dashed: true,
+          points: toPoints(candles, upper),
+        },
+        {
+          id: "bollinger-middle",
+          label: `${label} 중심`,
+          color: "#c084fc",
+          points: toPoints(candles, middle),
+        },
+        {
+          id: "bollinger-lower",
+          label: `${label} 하단`,
+          color: "#c084fc",
+          dashed: true,
+          points: toPoints(candles, lower),
+        },
+      ];
+    },
+    computeLast: (candles, params) => {
+      const period = toPeriod(params.period);
+      const { middle, upper, lower } = computeBollinger(
+        candles.slice(-period),
+        period,
+        params.multiplier ?? 2
+      );
+      return [lastValue(upper), lastValue(middle), lastValue(lower)];
+    },
+  },
+  {
+    type: "vwap",
+    label: "VWAP",
+    color: "#fb923c",
+    params: [],
+    compute: (candles, _params, intervalMinutes) => [
+      {
+        id: "vwap",
+        label: "VWAP",
+        color: "#fb923c",
+        points: toPoints(candles, computeVwap(candles, intervalMinutes)),
+      },
+    ],
+    computeLast: (candles, _params, intervalMinutes) => [
+      lastValue(
+        computeVwap(sliceVwapSession(candles, intervalMinutes), intervalMinutes)
+      ),
+    ],
+  },
+];
+
+export const DEFAULT_INDICATOR_CONFIGS: IndicatorConfig[] =
+  INDICATOR_DEFINITIONS.map((definition) => ({
+    type: definition.type,
+    enabled: false,
+    params: Object.fromEntries(
+      definition.params.map((param) => [param.key, param.defaultValue])
+    ),
+  }));
+
+export function getIndicatorDefinition(
+  type: IndicatorType
+): IndicatorDefinition | undefined {
+  return INDICATOR_DEFINITIONS.find((definition) => definition.type === type);
+}
+
+type IndicatorGroup = {
+  config: IndicatorConfig;
+  definition: IndicatorDefinition;
+  lines: IndicatorLine[];
+};
+
+// 켜진 지표를 설정별로 계산
+const computeIndicatorGroups = (
+  configs: IndicatorConfig[],
+  candles: IndicatorCandle[],
+  intervalMinutes: number
+): IndicatorGroup[] =>
+  candles.length === 0
+    ? []
+    : configs
+        .filter((config) => config.enabled)
+        .flatMap((config) => {
+          const definition = getIndicatorDefinition(config.type);
+          return definition
+            ? [
+                {
+                  config,
+                  definition,
+                  lines: definition.compute(
+                    candles,
+                    config.params,
+                    intervalMinutes
+                  ),
+                },
+              ]
+            : [];
+        });
+
+// 켜진 지표만 계산해 차트에 그릴 선 목록으로 변환
+export function computeIndicatorLines(
+  configs: IndicatorConfig[],
+  candles: IndicatorCandle[],
+  intervalMinutes: number
+): IndicatorLine[] {
+  return computeIndicatorGroups(configs, candles, intervalMinutes).flatMap(
+    (group) => group.lines
+  );
+}
+
+export type IndicatorTracker = {
+  update: (
+    configs: IndicatorConfig[],
+    candles: IndicatorCandle[],
+    intervalMinutes: number
+  ) => IndicatorLine[];
+};
+
+// 차트마다 하나씩 만들어 직전 결과를 캔들 배열 기준으로 기억한다
+// 진행 중인 마지막 캔들만 바뀌었으면 선마다 마지막 점만 다시 계산해 같은 배열에 반영
+export function createIndicatorTracker(): IndicatorTracker {
+  let previous: {
+    configs: IndicatorConfig[];
+    candles: IndicatorCandle[];
+    intervalMinutes: number;
+    groups: IndicatorGroup[];
+    lines: IndicatorLine[];
+  } | null = null;
+
+  return {
+    update: (configs, candles, intervalMinutes) => {
+      if (
+        !previous ||
+        previous.configs !== configs ||
+        previous.intervalMinutes !== intervalMinutes ||
+        !isLastCandleUpdate(previous.candles, candles)
+      ) {
+        const groups = computeIndicatorGroups(
+          configs,
+          candles,
+          intervalMinutes
+        );
+        previous = {
+          configs,
+          candles,
+          intervalMinutes,
+          groups,
+          lines: groups.flatMap((group) => group.lines),
+        };
+        return previous.lines;
+      }
+
+      if (previous.candles !== candles) {
+        const last = candles[candles.length - 1];
+        for (const { config, definition, lines } of previous.groups) {
+          definition
+            .computeLast(candles, config.params, intervalMinutes, lines)
+            .forEach((value, index) => {
+              replaceLastPoint(
+                lines[index].points,
+                last.openTime,
+                value === null || !Number.isFinite(value)
+                  ? null
+                  : { x: last.openTime, y: value }
+              );
+            });
+        }
+        previous.candles = candles;
+      }
+
+      return previous.lines;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { alignOpenTime, findCandleGaps } from "./intervals";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("alignOpenTime", () => {
+  it("주봉은 월요일 00:00 UTC로 맞춘다", () => {
+    const monday = Date.UTC(2024, 0, 1);
+
+    expect(alignOpenTime(Date.UTC(2024, 0, 3, 12, 34), "1w")).toBe(monday);
+    expect(alignOpenTime(Date.UTC(2024, 0, 7, 23, 59, 59), "1w")).toBe(
+      monday
+    );
+    expect(alignOpenTime(monday, "1w")).toBe(monday);
+    expect(alignOpenTime(Date.UTC(2024, 0, 8), "1w")).toBe(
+      Date.UTC(2024, 0, 8)
+    );
+  });
+
+  it("월봉은 달력 기준 매월 1일 00:00 UTC로 맞춘다", () => {
+    expect(alignOpenTime(Date.UTC(2024, 1, 29, 23, 59), "1M")).toBe(
+      Date.UTC(2024, 1, 1)
+    );
+    expect(alignOpenTime(Date.UTC(2024, 2, 1), "1M")).toBe(
+      Date.UTC(2024, 2, 1)
+    );
+    expect(alignOpenTime(Date.UTC(2023, 11, 31, 23, 59), "1M")).toBe(
+      Date.UTC(2023, 11, 1)
+    );
+  });
+});
+
+describe("findCandleGaps", () => {
+  it("연속된 캔들에는 누락 구간이 없다", () => {
+    expect(findCandleGaps([0, MINUTE_MS, 2 * MINUTE_MS], 1)).toEqual([]);
+  });
+
+  it("빠진 슬롯의 첫/마지막 시작 시각과 개수를 돌려준다", () => {
+    const openTimes = [0, 1, 4, 5, 7].map((index) => index * MINUTE_MS);
+
+    expect(findCandleGaps(openTimes, 1)).toEqual([
+      { start: 2 * MINUTE_MS, end: 3 * MINUTE_MS, count: 2 },
+      { start: 6 * MINUTE_MS, end: 6 * MINUTE_MS, count: 1 },
+    ]);
+  });
+
+  it("월봉은 달력 기준으로 센다", () => {
+    expect(
+      findCandleGaps([Date.UTC(2024, 0, 1), Date.UTC(2024, 3, 1)], 43200)
+    ).toEqual([
+      { start: Date.UTC(2024, 1, 1), end: Date.UTC(2024, 2, 1), count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,288 @@
+// 클라이언트 차트와 서버(거래소 어댑터, 캐시, 대사)가 함께 쓰는 봉 간격 표와 캔들 시작 시각 계산
+
+// 거래소 공통 간격 코드 (Binance 표기 기준)
+export type BinanceInterval =
+  | "1m"
+  | "3m"
+  | "5m"
+  | "15m"
+  | "30m"
+  | "1h"
+  | "2h"
+  | "4h"
+  | "6h"
+  | "8h"
+  | "12h"
+  | "1d"
+  | "3d"
+  | "1w"
+  | "1M";
+
+// fixed: epoch 기준 고정 길이, week: 월요일 00:00 UTC 시작, month: 매월 1일 00:00 UTC 시작
+export type IntervalBucket = "fixed" | "week" | "month";
+
+export type IntervalDefinition = {
+  minutes: number; // 선택 값으로 쓰이는 명목상 길이 (1M은 30일)
+  label: string;
+  binance: BinanceInterval;
+  // 로컬 GraphQL klines 조회에 사용할 intervalMin. 주/월봉은 일봉을 받아 클라이언트에서 집계
+  localMinutes: number;
+  bucket: IntervalBucket;
+};
+
+const DAY_MINUTES = 1440;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = DAY_MINUTES * MINUTE_MS;
+
+export const INTERVALS: IntervalDefinition[] = [
+  { minutes: 1, label: "1분", binance: "1m", localMinutes: 1, bucket: "fixed" },
+  { minutes: 3, label: "3분", binance: "3m", localMinutes: 3, bucket: "fixed" },
+  { minutes: 5, label: "5분", binance: "5m", localMinutes: 5, bucket: "fixed" },
+  {
+    minutes: 15,
+    label: "15분",
+    binance: "15m",
+    localMinutes: 15,
+    bucket: "fixed",
+  },
+  {
+    minutes: 30,
+    label: "30분",
+    binance: "30m",
+    localMinutes: 30,
+    bucket: "fixed",
+  },
+  {
+    minutes: 60,
+    label: "1시간",
+    binance: "1h",
+    localMinutes: 60,
+    bucket: "fixed",
+  },
+  {
+    minutes: 120,
+    label: "2시간",
+    binance: "2h",
+    localMinutes: 120,
+    bucket: "fixed",
+  },
+  {
+    minutes: 240,
+    label: "4시간",
+    binance: "4h",
+    localMinutes: 240,
+    bucket: "fixed",
+  },
+  {
+    minutes: 360,
+    label: "6시간",
+    binance: "6h",
+    localMinutes: 360,
+    bucket: "fixed",
+  },
+  {
+    minutes: 480,
+    label: "8시간",
+    binance: "8h",
+    localMinutes: 480,
+    bucket: "fixed",
+  },
+  {
+    minutes: 720,
+    label: "12시간",
+    binance: "12h",
+    localMinutes: 720,
+    bucket: "fixed",
+  },
+  {
+    minutes: DAY_MINUTES,
+    label: "1일",
+    binance: "1d",
+    localMinutes: DAY_MINUTES,
+    bucket: "fixed",
+  },
+  {
+    minutes: 3 * DAY_MINUTES,
+    label: "3일",
+    binance: "3d",
+    localMinutes: 3 * DAY_MINUTES,
+    bucket: "fixed",
+  },
+  {
+    minutes: 7 * DAY_MINUTES,
+    label: "1주",
+    binance: "1w",
+    localMinutes: DAY_MINUTES,
+    bucket: "week",
+  },
+  {
+    minutes: 30 * DAY_MINUTES,
+    label: "1개월",
+    binance: "1M",
+    localMinutes: DAY_MINUTES,
+    bucket: "month",
+  },
+];
+
+export const getIntervalDefinition = (
+  minutes: number
+): IntervalDefinition | undefined =>
+  INTERVALS.find((item) => item.minutes === minutes);
+
+export const formatIntervalLabel = (minutes: number): string =>
+  getIntervalDefinition(minutes)?.label ?? `${minutes}분`;
+
+// 1M은 달력 기준이라 길이가 일정하지 않으므로 가장 짧은 달(28일)로 계산해 개수를 넉넉하게 추정
+export const INTERVAL_DURATION_MS = Object.fromEntries(
+  INTERVALS.map((item) => [
+    item.binance,
+    item.bucket === "month" ? 28 * DAY_MS : item.minutes * MINUTE_MS,
+  ])
+) as Record<BinanceInterval, number>;
+
+const BUCKET_BY_INTERVAL = Object.fromEntries(
+  INTERVALS.map((item) => [item.binance, item.bucket])
+) as Record<BinanceInterval, IntervalBucket>;
+
+// 1970-01-01은 목요일이므로 월요일 시작 주봉은 4일만큼 밀려 있다
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+// 주어진 시각이 속한 캔들의 시작 시각 (UTC, 1M은 달력 기준)
+export function alignOpenTime(time: number, interval: BinanceInterval): number {
+  const bucket = BUCKET_BY_INTERVAL[interval];
+  if (bucket === "month") {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  const duration = INTERVAL_DURATION_MS[interval];
+  const offset = bucket === "week" ? WEEK_OFFSET_MS : 0;
+  return Math.floor((time - offset) / duration) * duration + offset;
+}
+
+// 캔들 시작 시각에서 count개 만큼 이동한 시작 시각
+export function shiftOpenTime(
+  openTime: number,
+  interval: BinanceInterval,
+  count: number
+): number {
+  if (BUCKET_BY_INTERVAL[interval] === "month") {
+    const date = new Date(openTime);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1);
+  }
+  return openTime + count * INTERVAL_DURATION_MS[interval];
+}
+
+// 주어진 시각이 속한 캔들의 시작 시각. 표에 없는 간격은 epoch 기준 고정 길이
+export function getBucketStart(time: number, minutes: number): number {
+  const definition = getIntervalDefinition(minutes);
+  if (definition) {
+    return alignOpenTime(time, definition.binance);
+  }
+  const intervalMs = minutes * MINUTE_MS;
+  return Math.floor(time / intervalMs) * intervalMs;
+}
+
+// 캔들 시작 시각에서 count개 만큼 이동한 시작 시각 (월봉은 달력 기준)
+export function addIntervals(
+  time: number,
+  minutes: number,
+  count: number
+): number {
+  const definition = getIntervalDefinition(minutes);
+  return definition
+    ? shiftOpenTime(time, definition.binance, count)
+    : time + count * minutes * MINUTE_MS;
+}
+
+// 현재 캔들을 포함하여 최근 count개 캔들을 덮는 조회 구간
+export function getCandleWindow(
+  minutes: number,
+  count: number,
+  end = Date.now()
+): { start: number; end: number } {
+  const currentStart = getBucketStart(end, minutes);
+  return { start: addIntervals(currentStart, minutes, -(count - 1)), end };
+}
+
+// [from, to) 구간에 들어가는 캔들 수 (월봉은 달력 기준)
+function countIntervals(from: number, to: number, minutes: number): number {
+  if (getIntervalDefinition(minutes)?.bucket === "month") {
+    const start = new Date(from);
+    const end = new Date(to);
+    return (
+      (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      end.getUTCMonth() -
+      start.getUTCMonth()
+    );
+  }
+  return Math.round((to - from) / (minutes * MINUTE_MS));
+}
+
+// 누락된 캔들 구간. start/end는 누락된 첫/마지막 캔들의 시작 시각
+export type CandleGap = { start: number; end: number; count: number };
+
+// 시간순으로 정렬된 캔들 시작 시각 사이에서 빠진 슬롯을 찾는다
+export function findCandleGaps(
+  openTimes: number[],
+  minutes: number
+): CandleGap[] {
+  const gaps: CandleGap[] = [];
+
+  for (let index = 1; index < openTimes.length; index += 1) {
+    const expected = addIntervals(openTimes[index - 1], minutes, 1);
+    const next = openTimes[index];
+
+    if (next > expected) {
+      gaps.push({
+        start: expected,
+        end: addIntervals(next, minutes, -1),
+        count: countIntervals(expected, next, minutes),
+      });
+    }
+  }
+
+  return gaps;
+}
+
+type AggregatableCandle = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+};
+
+// 주/월봉처럼 로컬에서 직접 제공하지 않는 간격을 하위 캔들로부터 집계 (입력은 시간순 정렬)
+export function aggregateCandles(
+  candles: AggregatableCandle[],
+  minutes: number
+): AggregatableCandle[] {
+  const buckets = new Map<number, AggregatableCandle>();
+
+  for (const candle of candles) {
+    const openTime = getBucketStart(candle.openTime, minutes);
+    const current = buckets.get(openTime);
+
+    if (!current) {
+      buckets.set(openTime, {
+        openTime,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      });
+      continue;
+    }
+
+    current.high = Math.max(current.high, candle.high);
+    current.low = Math.min(current.low, candle.low);
+    current.close = candle.close;
+    if (candle.volume !== undefined) {
+      current.volume = (current.volume ?? 0) + candle.volume;
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.openTime - b.openTime);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { IndicatorCandle } from "./indicators";
+import {
+  DEFAULT_OSCILLATOR_CONFIGS,
+  createOscillatorTracker,
+  type OscillatorConfig,
+} from "./oscillators";
+
+const MINUTE_MS = 60 * 1000;
+
+const CONFIGS: OscillatorConfig[] = DEFAULT_OSCILLATOR_CONFIGS.map(
+  (config) => ({ ...config, enabled: true })
+);
+
+const createCandle = (index: number, close: number): IndicatorCandle => ({
+  openTime: index * MINUTE_MS,
+  high: close + 1 + (index % 3),
+  low: close - 1 - (index % 2),
+  close,
+  volume: 10 + (index % 5),
+});
+
+const CANDLES = Array.from({ length: 80 }, (_, index) =>
+  createCandle(index, 100 + Math.sin(index / 4) * 10 + index * 0.1)
+);
+
+// 같은 캔들 배열로 새 트래커를 만들어 처음부터 계산한 결과
+const recomputeFromScratch = (candles: IndicatorCandle[]) =>
+  createOscillatorTracker().update(CONFIGS, candles);
+
+describe("createOscillatorTracker", () => {
+  it("캔들이 하나씩 추가될 때 한 스텝 계산이 전체 재계산과 같다", () => {
+    const tracker = createOscillatorTracker();
+    let candles = CANDLES.slice(0, 30);
+    tracker.update(CONFIGS, candles);
+
+    for (const candle of CANDLES.slice(30)) {
+      candles = [...candles, candle];
+      expect(tracker.update(CONFIGS, candles)).toEqual(
+        recomputeFromScratch(candles)
+      );
+    }
+  });
+
+  it("진행 중인 마지막 캔들이 여러 번 바뀌어도 전체 재계산과 같다", () => {
+    const tracker = createOscillatorTracker();
+    let candles = CANDLES.slice(0, 50);
+    tracker.update(CONFIGS, candles);
+
+    for (const close of [95, 120, 101.5, 88]) {
+      candles = [...candles.slice(0, -1), createCandle(49, close)];
+      expect(tracker.update(CONFIGS, candles)).toEqual(
+        recomputeFromScratch(candles)
+      );
+    }
+
+    candles = [...candles, createCandle(50, 90)];
+    expect(tracker.update(CONFIGS, candles)).toEqual(
+      recomputeFromScratch(candles)
+    );
+  });
+
+  it("이어지지 않는 배열이 오면 처음부터 다시 계산한다", () => {
+    const tracker = createOscillatorTracker();
+    tracker.update(CONFIGS, CANDLES.slice(0, 40));
+
+    const candles = CANDLES.slice(10, 60);
+    expect(tracker.update(CONFIGS, candles)).toEqual(
+      recomputeFromScratch(candles)
+    );
+  });
+});
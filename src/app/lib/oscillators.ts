@@ -0,0 +1,437 @@
+// 가격 차트 아래 별도 패널에 그리는 오실레이터 (RSI, MACD, 스토캐스틱)
+// 실시간 구독으로 마지막 캔들만 바뀌면 직전 캔들까지의 상태에서 한 스텝만 다시 계산한다
+import {
+  EMPTY_EMA,
+  stepEma,
+  type EmaState,
+  type IndicatorCandle,
+  type IndicatorParam,
+  type IndicatorPoint,
+} from "./indicators";
+
+export type OscillatorType = "rsi" | "macd" | "stochastic";
+
+export type OscillatorConfig = {
+  type: OscillatorType;
+  enabled: boolean;
+  params: Record<string, number>;
+};
+
+export type OscillatorSeries = {
+  id: string;
+  label: string;
+  color: string;
+  kind: "line" | "bar";
+  points: IndicatorPoint[];
+};
+
+export type OscillatorPane = {
+  type: OscillatorType;
+  label: string;
+  // 고정 축 범위 (RSI, 스토캐스틱은 0~100)
+  min?: number;
+  max?: number;
+  // 과매수/과매도 기준선
+  guides: number[];
+  series: OscillatorSeries[];
+};
+
+// 상태는 불변으로 다뤄서 같은 직전 상태에 진행 중인 캔들을 여러 번 적용할 수 있게 한다
+type OscillatorStepper<S> = {
+  initial: S;
+  step: (state: S, candle: IndicatorCandle) => [S, (number | null)[]];
+};
+
+type OscillatorDefinition = {
+  type: OscillatorType;
+  label: string;
+  color: string;
+  params: IndicatorParam[];
+  min?: number;
+  max?: number;
+  guides: number[];
+  series: (
+    params: Record<string, number>
+  ) => Omit<OscillatorSeries, "points">[];
+  createStepper: (params: Record<string, number>) => OscillatorStepper<any>;
+};
+
+const toPeriod = (value: number | undefined, fallback: number) =>
+  Math.max(1, Math.floor(value ?? fallback));
+
+const periodParam = (
+  key: string,
+  label: string,
+  defaultValue: number
+): IndicatorParam => ({ key, label, min: 2, max: 200, step: 1, defaultValue });
+
+type RsiState = {
+  previousClose: number | null;
+  count: number;
+  gainSum: number;
+  lossSum: number;
+  averageGain: number | null;
+  averageLoss: number;
+};
+
+// Wilder 평활 RSI
+const createRsi = (period: number): OscillatorStepper<RsiState> => ({
+  initial: {
+    previousClose: null,
+    count: 0,
+    gainSum: 0,
+    lossSum: 0,
+    averageGain: null,
+    averageLoss: 0,
+  },
+  step: (state, candle) => {
+    if (state.previousClose === null) {
+      return [{ ...state, previousClose: candle.close }, [null]];
+    }
+
+    const change = candle.close - state.previousClose;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    let next: RsiState;
+
+    if (state.averageGain === null) {
+      const count = state.count + 1;
+      const gainSum = state.gainSum + gain;
+      const lossSum = state.lossSum + loss;
+      next = {
+        previousClose: candle.close,
+        count,
+        gainSum,
+        lossSum,
+        averageGain: count === period ? gainSum / period : null,
+        averageLoss: count === period ? lossSum / period : 0,
+      };
+    } else {
+      next = {
+        ...state,
+        previousClose: candle.close,
+        averageGain: (state.averageGain * (period - 1) + gain) / period,
+        averageLoss: (state.averageLoss * (period - 1) + loss) / period,
+      };
+    }
+
+    if (next.averageGain === null) {
+      return [next, [null]];
+    }
+    if (next.averageLoss === 0) {
+      return [next, [next.averageGain === 0 ? 50 : 100]];
+    }
+    return [next, [100 - 100 / (1 + next.averageGain / next.averageLoss)]];
+  },
+});
+
+type MacdState = { fast: EmaState; slow: EmaState; signal: EmaState };
+
+const createMacd = (
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): OscillatorStepper<MacdState> => ({
+  initial: { fast: EMPTY_EMA, slow: EMPTY_EMA, signal: EMPTY_EMA },
+  step: (state, candle) => {
+    const fast = stepEma(state.fast, candle.close, fastPeriod);
+    const slow = stepEma(state.slow, candle.close, slowPeriod);
+    if (fast.value === null || slow.value === null) {
+      return [{ ...state, fast, slow }, [null, null, null]];
+    }
+
+    const macd = fast.value - slow.value;
+    const signal = stepEma(state.signal, macd, signalPeriod);
+    return [
+      { fast, slow, signal },
+      [macd, signal.value, signal.value === null ? null : macd - signal.value],
+    ];
+  },
+});
+
+type StochasticState = { highs: number[]; lows: number[]; ks: number[] };
+
+// %K = 최근 kPeriod 고저 범위 내 종가 위치, %D = %K의 dPeriod 단순 평균
+const createStochastic = (
+  kPeriod: number,
+  dPeriod: number
+): OscillatorStepper<StochasticState> => ({
+  initial: { highs: [], lows: [], ks: [] },
+  step: (state, candle) => {
+    const highs = [...state.highs, candle.high].slice(-kPeriod);
+    const lows = [...state.lows, candle.low].slice(-kPeriod);
+    if (highs.length < kPeriod) {
+      return [{ ...state, highs, lows }, [null, null]];
+    }
+
+    const highest = Math.max(...highs);
+    const lowest = Math.min(...lows);
+    const k =
+      highest === lowest
+        ? 50
+        : ((candle.close - lowest) / (highest - lowest)) * 100;
+    const ks = [...state.ks, k].slice(-dPeriod);
+    const d =
+      ks.length < dPeriod
+        ? null
+        : ks.reduce((sum, value) => sum + value, 0) / dPeriod;
+
+    return [{ highs, lows, ks }, [k, d]];
+  },
+});
+
+export const OSCILLATOR_DEFINITIONS: OscillatorDefinition[] = [
+  {
+    type: "rsi",
+    label: "RSI",
+    color: "#a78bfa",
+    params: [periodParam("period", "기간", 14)],
+    min: 0,
+    max: 100,
+    guides: [30, 70],
+    series: (params) => [
+      {
+        id: "rsi",
+        label: `RSI(${toPeriod(params.period, 14)})`,
+        color: "#a78bfa",
+        kind: "line",
+      },
+    ],
+    createStepper: (params) => createRsi(toPeriod(params.period, 14)),
+  },
+  {
+    type: "macd",
+    label: "MACD",
+    color: "#38bdf8",
+    params: [
+      periodParam("fast", "단기", 12),
+      periodParam("slow", "장기", 26),
+      periodParam("signal", "시그널", 9),
+    ],
+    guides: [0],
+    series: (params) => {
+      const label = `MACD(${toPeriod(params.fast, 12)}, ${toPeriod(
+        params.slow,
+        26
+      )}, ${toPeriod(params.signal, 9)})`;
+      return [
+        { id: "macd", label, color: "#38bdf8", kind: "line" },
+        { id: "macd-signal", label: "시그널", color: "#fb923c", kind: "line" },
+        {
+          id: "macd-histogram",
+          label: "히스토그램",
+          color: "#94a3b8",
+          kind: "bar",
+        },
+      ];
+    },
+    createStepper: (params) =>
+      createMacd(
+        toPeriod(params.fast, 12),
+        toPeriod(params.slow, 26),
+        toPeriod(params.signal, 9)
+      ),
+  },
+  {
+    type: "stochastic",
+    label: "스토캐스틱",
+    color: "#f472b6",
+    params: [periodParam("k", "%K", 14), periodParam("d", "%D", 3)],
+    min: 0,
+    max: 100,
+    guides: [20, 80],
+    series: (params) => [
+      {
+        id: "stochastic-k",
+        label: `%K(${toPeriod(params.k, 14)})`,
+        color: "#f472b6",
+        kind: "line",
+      },
+      {
+        id: "stochastic-d",
+        label: `%D(${toPeriod(params.d, 3)})`,
+        color: "#facc15",
+        kind: "line",
+      },
+    ],
+    createStepper: (params) =>
+      createStochastic(toPeriod(params.k, 14), toPeriod(params.d, 3)),
+  },
+];
+
+export const DEFAULT_OSCILLATOR_CONFIGS: OscillatorConfig[] =
+  OSCILLATOR_DEFINITIONS.map((definition) => ({
+    type: definition.type,
+    enabled: false,
+    params: Object.fromEntries(
+      definition.params.map((param) => [param.key, param.defaultValue])
+    ),
+  }));
+
+type OscillatorRuntime = {
+  stepper: OscillatorStepper<any>;
+  // 마지막 캔들을 제외한 상태와 마지막 캔들까지 포함한 상태
+  prefixState: any;
+  state: any;
+  previousCandle: IndicatorCandle | null;
+  lastCandle: IndicatorCandle | null;
+  points: IndicatorPoint[][];
+};
+
+const pushValues = (
+  points: IndicatorPoint[][],
+  openTime: number,
+  values: (number | null)[]
+) => {
+  values.forEach((value, index) => {
+    if (value !== null && Number.isFinite(value)) {
+      points[index].push({ x: openTime, y: value });
+    }
+  });
+};
+
+const popValues = (points: IndicatorPoint[][], openTime: number) => {
+  for (const series of points) {
+    if (series[series.length - 1]?.x === openTime) {
+      series.pop();
+    }
+  }
+};
+
+const recompute = (
+  runtime: OscillatorRuntime,
+  candles: IndicatorCandle[],
+  seriesCount: number
+) => {
+  runtime.points = Array.from({ length: seriesCount }, () => []);
+  let state = runtime.stepper.initial;
+
+  candles.forEach((candle, index) => {
+    if (index === candles.length - 1) {
+      runtime.prefixState = state;
+    }
+    const [next, values] = runtime.stepper.step(state, candle);
+    pushValues(runtime.points, candle.openTime, values);
+    state = next;
+  });
+
+  runtime.state = state;
+  runtime.previousCandle = candles[candles.length - 2] ?? null;
+  runtime.lastCandle = candles[candles.length - 1] ?? null;
+};
+
+// 새 캔들 배열이 이전 배열에서 마지막 캔들만 바뀌었거나 하나 추가된 경우 한 스텝만 계산
+const advance = (
+  runtime: OscillatorRuntime,
+  candles: IndicatorCandle[],
+  seriesCount: number
+) => {
+  const last = candles[candles.length - 1];
+  const previous = candles[candles.length - 2] ?? null;
+
+  if (last === runtime.lastCandle) {
+    // 변화 없음
+  } else if (previous !== null && previous === runtime.lastCandle) {
+    // 새 캔들 추가
+    runtime.prefixState = runtime.state;
+    const [next, values] = runtime.stepper.step(runtime.prefixState, last);
+    pushValues(runtime.points, last.openTime, values);
+    runtime.state = next;
+    runtime.previousCandle = previous;
+    runtime.lastCandle = last;
+  } else if (
+    previous === runtime.previousCandle &&
+    last.openTime === runtime.lastCandle?.openTime
+  ) {
+    // 진행 중인 마지막 캔들 갱신
+    popValues(runtime.points, last.openTime);
+    const [next, values] = runtime.stepper.step(runtime.prefixState, last);
+    pushValues(runtime.points, last.openTime, values);
+    runtime.state = next;
+    runtime.lastCandle = last;
+  } else {
+    recompute(runtime, candles, seriesCount);
+    return;
+  }
+
+  // 표시 개수 제한으로 앞쪽 캔들이 빠졌으면 해당 점도 제거
+  const firstOpenTime = candles[0].openTime;
+  for (const series of runtime.points) {
+    while (series.length > 0 && series[0].x < firstOpenTime) {
+      series.shift();
+    }
+  }
+};
+
+export type OscillatorTracker = {
+  update: (
+    configs: OscillatorConfig[],
+    candles: IndicatorCandle[]
+  ) => OscillatorPane[];
+};
+
+// 차트마다 하나씩 만들어 지표별 계산 상태를 캔들 갱신 사이에 유지한다
+export function createOscillatorTracker(): OscillatorTracker {
+  const runtimes = new Map<string, OscillatorRuntime>();
+
+  return {
+    update: (configs, candles) => {
+      const enabled = configs.filter((config) => config.enabled);
+      const activeKeys = new Set<string>();
+
+      const panes = enabled.flatMap((config): OscillatorPane[] => {
+        const definition = OSCILLATOR_DEFINITIONS.find(
+          (item) => item.type === config.type
+        );
+        if (!definition) {
+          return [];
+        }
+
+        const key = `${config.type}:${JSON.stringify(config.params)}`;
+        activeKeys.add(key);
+        const series = definition.series(config.params);
+
+        let runtime = runtimes.get(key);
+        if (!runtime) {
+          runtime = {
+            stepper: definition.createStepper(config.params),
+            prefixState: null,
+            state: null,
+            previousCandle: null,
+            lastCandle: null,
+            points: [],
+          };
+          runtimes.set(key, runtime);
+          recompute(runtime, candles, series.length);
+        } else if (candles.length === 0) {
+          recompute(runtime, candles, series.length);
+        } else {
+          advance(runtime, candles, series.length);
+        }
+
+        const points = runtime.points;
+        return [
+          {
+            type: definition.type,
+            label: definition.label,
+            min: definition.min,
+            max: definition.max,
+            guides: definition.guides,
+            series: series.map((item, index) => ({
+              ...item,
+              points: points[index] ?? [],
+            })),
+          },
+        ];
+      });
+
+      for (const key of Array.from(runtimes.keys())) {
+        if (!activeKeys.has(key)) {
+          runtimes.delete(key);
+        }
+      }
+
+      return panes;
+    },
+  };
+}
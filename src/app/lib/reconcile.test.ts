@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  reconcileCandles,
+  reconcileRowsToCsv,
+  type ReconcileCandle,
+} from "./reconcile";
+
+const MINUTE_MS = 60 * 1000;
+
+const createCandle = (
+  index: number,
+  close: number,
+  volume = 10
+): ReconcileCandle => ({
+  openTime: index * MINUTE_MS,
+  open: 100,
+  high: 110,
+  low: 90,
+  close,
+  volume,
+});
+
+describe("reconcileCandles", () => {
+  it("openTime으로 맞춰 일치, 이상치, 누락, 로컬 전용 캔들을 구분한다", () => {
+    const local = [
+      createCandle(0, 100),
+      createCandle(1, 102),
+      createCandle(3, 100),
+    ];
+    const reference = [
+      createCandle(0, 100.1),
+      createCandle(1, 100),
+      createCandle(2, 100),
+    ];
+
+    const { rows, summary } = reconcileCandles(local, reference);
+
+    expect(rows.map((row) => [row.openTime, row.status])).toEqual([
+      [0, "match"],
+      [MINUTE_MS, "outlier"],
+      [2 * MINUTE_MS, "missing"],
+      [3 * MINUTE_MS, "extra"],
+    ]);
+    expect(rows[1].outlierFields).toEqual(["close"]);
+    expect(rows[1].deltas.close).toEqual({
+      local: 102,
+      reference: 100,
+      diff: 2,
+      percent: 2,
+    });
+    expect(summary).toMatchObject({
+      total: 4,
+      matched: 1,
+      outliers: 1,
+      missing: 1,
+      extra: 1,
+      matchRate: 25,
+    });
+    expect(summary.fields.close.maxAbsDiff).toBeCloseTo(2);
+    expect(summary.fields.close.meanAbsDiff).toBeCloseTo(1.05);
+  });
+
+  it("허용 오차와 조회 구간을 옵션으로 받는다", () => {
+    const local = [createCandle(0, 100), createCandle(1, 102)];
+    const reference = [createCandle(0, 100), createCandle(1, 100)];
+
+    const { rows } = reconcileCandles(local, reference, {
+      thresholds: { pricePercent: 5, volumePercent: 50 },
+      start: MINUTE_MS,
+    });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].status).toBe("match");
+  });
+
+  it("참조 값이 0이면 차이가 있을 때만 이상치로 본다", () => {
+    const { rows } = reconcileCandles(
+      [createCandle(0, 100, 5), createCandle(1, 100, 0)],
+      [createCandle(0, 100, 0), createCandle(1, 100, 0)]
+    );
+
+    expect(rows[0].deltas.volume?.percent).toBeNull();
+    expect(rows[0].outlierFields).toEqual(["volume"]);
+    expect(rows[1].status).toBe("match");
+  });
+});
+
+describe("reconcileRowsToCsv", () => {
+  it("캔들 한 줄씩 필드별 로컬, 참조, 차이, 비율을 쓴다", () => {
+    const { rows } = reconcileCandles(
+      [createCandle(0, 102)],
+      [createCandle(0, 100), createCandle(1, 100)]
+    );
+
+    const [header, outlier, missing, ...rest] =
+      reconcileRowsToCsv(rows).split("\n");
+
+    expect(header.split(",").slice(0, 6)).toEqual([
+      "openTime",
+      "status",
+      "local_open",
+      "reference_open",
+      "open_diff",
+      "open_pct",
+    ]);
+    expect(header.split(",").at(-1)).toBe("outlierFields");
+    expect(outlier).toBe(
+      [
+        "1970-01-01T00:00:00.000Z",
+        "outlier",
+        ...["100", "100", "0", "0"],
+        ...["110", "110", "0", "0"],
+        ...["90", "90", "0", "0"],
+        ...["102", "100", "2", "2"],
+        ...["10", "10", "0", "0"],
+        "close",
+      ].join(",")
+    );
+    expect(missing).toBe(
+      ["1970-01-01T00:01:00.000Z", "missing", ...Array(20).fill(""), ""].join(
+        ","
+      )
+    );
+    expect(rest).toEqual([""]);
+  });
+});
@@ -0,0 +1,256 @@
+// 로컬 klines와 참조 거래소 캔들을 openTime 기준으로 맞춰 캔들별 차이를 계산하는 대사 엔진
+
+export type ReconcileCandle = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+};
+
+export type ReconcileField = "open" | "high" | "low" | "close" | "volume";
+
+export const RECONCILE_FIELDS: ReconcileField[] = [
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+];
+
+const PRICE_FIELDS: ReconcileField[] = ["open", "high", "low", "close"];
+
+// 참조 대비 로컬의 허용 오차 (%). 넘으면 outlier로 표시
+export type ReconcileThresholds = {
+  pricePercent: number;
+  volumePercent: number;
+};
+
+export const DEFAULT_RECONCILE_THRESHOLDS: ReconcileThresholds = {
+  pricePercent: 0.5,
+  volumePercent: 50,
+};
+
+// match: 허용 오차 이내, outlier: 허용 오차 초과,
+// missing: 참조에만 있음 (로컬 인덱서 누락), extra: 로컬에만 있음
+export type ReconcileStatus = "match" | "outlier" | "missing" | "extra";
+
+export type FieldDelta = {
+  local: number;
+  reference: number;
+  diff: number; // local - reference
+  percent: number | null; // diff / reference × 100
+};
+
+export type ReconcileRow = {
+  openTime: number;
+  status: ReconcileStatus;
+  deltas: Partial<Record<ReconcileField, FieldDelta>>;
+  outlierFields: ReconcileField[];
+};
+
+export type FieldStats = {
+  maxAbsDiff: number;
+  meanAbsDiff: number;
+  maxAbsPercent: number;
+  meanAbsPercent: number;
+};
+
+export type ReconcileSummary = {
+  total: number;
+  matched: number;
+  outliers: number;
+  missing: number;
+  extra: number;
+  // 전체 캔들 중 허용 오차 이내로 일치한 비율 (%)
+  matchRate: number;
+  fields: Record<ReconcileField, FieldStats>;
+};
+
+export type ReconcileReport = {
+  rows: ReconcileRow[];
+  summary: ReconcileSummary;
+};
+
+export type ReconcileOptions = {
+  thresholds?: ReconcileThresholds;
+  // openTime 기준 포함 구간. 생략하면 전체
+  start?: number;
+  end?: number;
+};
+
+const buildDelta = (local: number, reference: number): FieldDelta => {
+  const diff = local - reference;
+  return {
+    local,
+    reference,
+    diff,
+    percent: reference === 0 ? null : (diff / reference) * 100,
+  };
+};
+
+const compareCandles = (
+  local: ReconcileCandle,
+  reference: ReconcileCandle,
+  thresholds: ReconcileThresholds
+): Pick<ReconcileRow, "status" | "deltas" | "outlierFields"> => {
+  const deltas: ReconcileRow["deltas"] = {};
+  const outlierFields: ReconcileField[] = [];
+
+  for (const field of RECONCILE_FIELDS) {
+    const localValue = local[field];
+    const referenceValue = reference[field];
+    if (localValue === undefined || referenceValue === undefined) {
+      continue;
+    }
+
+    const delta = buildDelta(localValue, referenceValue);
+    deltas[field] = delta;
+
+    const limit = PRICE_FIELDS.includes(field)
+      ? thresholds.pricePercent
+      : thresholds.volumePercent;
+    const exceeded =
+      delta.percent === null
+        ? delta.diff !== 0
+        : Math.abs(delta.percent) > limit;
+    if (exceeded) {
+      outlierFields.push(field);
+    }
+  }
+
+  return {
+    status: outlierFields.length > 0 ? "outlier" : "match",
+    deltas,
+    outlierFields,
+  };
+};
+
+const emptyStats = (): FieldStats => ({
+  maxAbsDiff: 0,
+  meanAbsDiff: 0,
+  maxAbsPercent: 0,
+  meanAbsPercent: 0,
+});
+
+const summarize = (rows: ReconcileRow[]): ReconcileSummary => {
+  const fields = Object.fromEntries(
+    RECONCILE_FIELDS.map((field) => [field, emptyStats()])
+  ) as Record<ReconcileField, FieldStats>;
+
+  for (const field of RECONCILE_FIELDS) {
+    const deltas = rows
+      .map((row) => row.deltas[field])
+      .filter((delta): delta is FieldDelta => delta !== undefined);
+    const percents = deltas
+      .map((delta) => delta.percent)
+      .filter((percent): percent is number => percent !== null);
+
+    if (deltas.length > 0) {
+      const absDiffs = deltas.map((delta) => Math.abs(delta.diff));
+      fields[field].maxAbsDiff = Math.max(...absDiffs);
+      fields[field].meanAbsDiff =
+        absDiffs.reduce((sum, value) => sum + value, 0) / absDiffs.length;
+    }
+    if (percents.length > 0) {
+      const absPercents = percents.map((percent) => Math.abs(percent));
+      fields[field].maxAbsPercent = Math.max(...absPercents);
+      fields[field].meanAbsPercent =
+        absPercents.reduce((sum, value) => sum + value, 0) / absPercents.length;
+    }
+  }
+
+  const count = (status: ReconcileStatus) =>
+    rows.filter((row) => row.status === status).length;
+  const matched = count("match");
+
+  return {
+    total: rows.length,
+    matched,
+    outliers: count("outlier"),
+    missing: count("missing"),
+    extra: count("extra"),
+    matchRate: rows.length === 0 ? 0 : (matched / rows.length) * 100,
+    fields,
+  };
+};
+
+export function reconcileCandles(
+  local: ReconcileCandle[],
+  reference: ReconcileCandle[],
+  {
+    thresholds = DEFAULT_RECONCILE_THRESHOLDS,
+    start,
+    end,
+  }: ReconcileOptions = {}
+): ReconcileReport {
+  const inRange = (candle: ReconcileCandle) =>
+    (start === undefined || candle.openTime >= start) &&
+    (end === undefined || candle.openTime <= end);
+
+  const localByTime = new Map(
+    local.filter(inRange).map((candle) => [candle.openTime, candle])
+  );
+  const referenceByTime = new Map(
+    reference.filter(inRange).map((candle) => [candle.openTime, candle])
+  );
+  const openTimes = Array.from(
+    new Set([...localByTime.keys(), ...referenceByTime.keys()])
+  ).sort((a, b) => a - b);
+
+  const rows = openTimes.map((openTime): ReconcileRow => {
+    const localCandle = localByTime.get(openTime);
+    const referenceCandle = referenceByTime.get(openTime);
+
+    if (!localCandle) {
+      return { openTime, status: "missing", deltas: {}, outlierFields: [] };
+    }
+    if (!referenceCandle) {
+      return { openTime, status: "extra", deltas: {}, outlierFields: [] };
+    }
+    return {
+      openTime,
+      ...compareCandles(localCandle, referenceCandle, thresholds),
+    };
+  });
+
+  return { rows, summary: summarize(rows) };
+}
+
+const formatCsvNumber = (value: number | null | undefined) =>
+  value === null || value === undefined ? "" : String(value);
+
+// 대사 결과를 캔들 한 줄씩 CSV로 변환 (시각은 ISO 8601 UTC)
+export function reconcileRowsToCsv(rows: ReconcileRow[]): string {
+  const header = [
+    "openTime",
+    "status",
+    ...RECONCILE_FIELDS.flatMap((field) => [
+      `local_${field}`,
+      `reference_${field}`,
+      `${field}_diff`,
+      `${field}_pct`,
+    ]),
+    "outlierFields",
+  ];
+
+  const lines = rows.map((row) =>
+    [
+      new Date(row.openTime).toISOString(),
+      row.status,
+      ...RECONCILE_FIELDS.flatMap((field) => {
+        const delta = row.deltas[field];
+        return [
+          formatCsvNumber(delta?.local),
+          formatCsvNumber(delta?.reference),
+          formatCsvNumber(delta?.diff),
+          formatCsvNumber(delta?.percent),
+        ];
+      }),
+      row.outlierFields.join("|"),
+    ].join(",")
+  );
+
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
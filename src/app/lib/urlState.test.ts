@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_INDICATOR_CONFIGS,
+  INDICATOR_DEFINITIONS,
+} from "./indicators";
+import {
+  DEFAULT_OSCILLATOR_CONFIGS,
+  OSCILLATOR_DEFINITIONS,
+} from "./oscillators";
+import { buildChartUrlSearch, parseChartUrlState } from "./urlState";
+
+const DEFINITIONS = {
+  indicatorDefinitions: INDICATOR_DEFINITIONS,
+  oscillatorDefinitions: OSCILLATOR_DEFINITIONS,
+};
+
+const DEFAULTS = {
+  ...DEFINITIONS,
+  indicators: DEFAULT_INDICATOR_CONFIGS,
+  oscillators: DEFAULT_OSCILLATOR_CONFIGS,
+};
+
+const enableFirst = <T extends { enabled: boolean; params: object }>(
+  configs: T[],
+  params: Record<string, number>
+): T[] =>
+  configs.map((config, index) =>
+    index === 0
+      ? { ...config, enabled: true, params: { ...config.params, ...params } }
+      : config
+  );
+
+describe("parseChartUrlState / buildChartUrlSearch", () => {
+  it("만든 쿼리를 다시 읽으면 같은 상태가 된다", () => {
+    const state = {
+      symbol: "BTC-KRW",
+      intervalMinutes: 5,
+      range: { start: 1760000000000, end: 1760030000000 },
+      indicators: enableFirst(DEFAULT_INDICATOR_CONFIGS, { period: 50 }),
+      oscillators: enableFirst(DEFAULT_OSCILLATOR_CONFIGS, { period: 21 }),
+      view: "overlay" as const,
+      showVolume: false,
+      grid: {
+        size: 2 as const,
+        panels: [
+          { source: "local", symbol: "BTC-KRW", intervalMinutes: 5 },
+          { source: "binance", symbol: "ETH:KRW", intervalMinutes: 60 },
+        ],
+      },
+    };
+
+    const search = buildChartUrlSearch(state, DEFINITIONS);
+
+    expect(parseChartUrlState(search, DEFAULTS)).toEqual(state);
+  });
+
+  it("기본값과 같은 항목은 쿼리에서 생략한다", () => {
+    const search = buildChartUrlSearch(
+      {
+        symbol: "BTC-KRW",
+        intervalMinutes: 1,
+        range: null,
+        indicators: DEFAULT_INDICATOR_CONFIGS,
+        oscillators: DEFAULT_OSCILLATOR_CONFIGS,
+        view: "split",
+        showVolume: true,
+        grid: null,
+      },
+      DEFINITIONS
+    );
+
+    expect(search).toBe("symbol=BTC-KRW&interval=1");
+    expect(parseChartUrlState(search, DEFAULTS)).toEqual({
+      symbol: "BTC-KRW",
+      intervalMinutes: 1,
+    });
+  });
+
+  it("범위를 벗어난 파라미터는 기본값으로 바꾼다", () => {
+    const state = parseChartUrlState(
+      `?ind=${DEFAULT_INDICATOR_CONFIGS[0].type}_100000`,
+      DEFAULTS
+    );
+
+    expect(state.indicators?.[0]).toEqual({
+      ...DEFAULT_INDICATOR_CONFIGS[0],
+      enabled: true,
+    });
+  });
+});
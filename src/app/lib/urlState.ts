@@ -0,0 +1,226 @@
+// 차트 상태(심볼, 봉 간격, 보이는 구간, 지표, 보기 방식, 멀티 차트 그리드)를 URL 쿼리 문자열로 주고받는다
+// 예: ?symbol=BTC-KRW&interval=5&from=1760000000000&to=1760030000000&ind=sma_20&ind=bollinger_20_2&osc=rsi_14&view=overlay&grid=2&panel=local:BTC-KRW:5&panel=binance:ETH-KRW:60
+
+import {
+  GRID_SIZES,
+  type ChartPanelConfig,
+  type GridSize,
+} from "./chartLayouts";
+import type { IndicatorParam } from "./indicators";
+
+type ParamConfig<T extends string> = {
+  type: T;
+  enabled: boolean;
+  params: Record<string, number>;
+};
+
+type ParamDefinition<T extends string> = {
+  type: T;
+  params: IndicatorParam[];
+};
+
+export type ChartUrlState<I extends string, O extends string> = {
+  symbol?: string;
+  intervalMinutes?: number;
+  range?: { start: number; end: number };
+  // 쿼리에 없으면 undefined (기본값 유지)
+  indicators?: ParamConfig<I>[];
+  oscillators?: ParamConfig<O>[];
+  view?: "split" | "overlay";
+  showVolume?: boolean;
+  grid?: ChartGridUrlState;
+};
+
+// 패널 수가 size×size보다 적으면 받는 쪽에서 기본 패널로 채운다
+export type ChartGridUrlState = {
+  size: GridSize;
+  panels: ChartPanelConfig[];
+};
+
+const PARAM_SEPARATOR = "_";
+// 패널은 "소스:심볼:봉 간격(분)". 심볼에 ':'가 있어도 첫/마지막 구분자로 나눈다
+const PANEL_SEPARATOR = ":";
+
+const parsePanel = (value: string): ChartPanelConfig | null => {
+  const first = value.indexOf(PANEL_SEPARATOR);
+  const last = value.lastIndexOf(PANEL_SEPARATOR);
+  const source = value.slice(0, first);
+  const symbol = value.slice(first + 1, last);
+  const intervalMinutes = Number(value.slice(last + 1));
+  if (
+    first <= 0 ||
+    first === last ||
+    !symbol ||
+    !Number.isFinite(intervalMinutes) ||
+    intervalMinutes <= 0
+  ) {
+    return null;
+  }
+  return { source, symbol, intervalMinutes };
+};
+
+// "bollinger_20_2" → 정의 순서대로 파라미터를 채운 설정. 범위를 벗어난 값은 기본값
+const parseConfigs = <T extends string>(
+  values: string[],
+  defaults: ParamConfig<T>[],
+  definitions: ParamDefinition<T>[]
+): ParamConfig<T>[] => {
+  const entries = new Map(
+    values.map((value) => {
+      const [type, ...params] = value.split(PARAM_SEPARATOR);
+      return [type, params.map(Number)] as const;
+    })
+  );
+
+  return defaults.map((config) => {
+    const values = entries.get(config.type);
+    const definition = definitions.find((item) => item.type === config.type);
+    if (!values || !definition) {
+      return { ...config, enabled: false };
+    }
+    return {
+      ...config,
+      enabled: true,
+      params: Object.fromEntries(
+        definition.params.map((param, index) => {
+          const value = values[index];
+          return [
+            param.key,
+            Number.isFinite(value) && value >= param.min && value <= param.max
+              ? value
+              : config.params[param.key] ?? param.defaultValue,
+          ];
+        })
+      ),
+    };
+  });
+};
+
+const serializeConfigs = <T extends string>(
+  configs: ParamConfig<T>[],
+  definitions: ParamDefinition<T>[]
+): string[] =>
+  configs
+    .filter((config) => config.enabled)
+    .map((config) => {
+      const params =
+        definitions
+          .find((item) => item.type === config.type)
+          ?.params.map((param) => config.params[param.key]) ?? [];
+      return [config.type, ...params].join(PARAM_SEPARATOR);
+    });
+
+export function parseChartUrlState<I extends string, O extends string>(
+  search: string,
+  defaults: {
+    indicators: ParamConfig<I>[];
+    indicatorDefinitions: ParamDefinition<I>[];
+    oscillators: ParamConfig<O>[];
+    oscillatorDefinitions: ParamDefinition<O>[];
+  }
+): ChartUrlState<I, O> {
+  const params = new URLSearchParams(search);
+  const state: ChartUrlState<I, O> = {};
+
+  const symbol = params.get("symbol")?.trim();
+  if (symbol) {
+    state.symbol = symbol;
+  }
+
+  const intervalMinutes = Number(params.get("interval"));
+  if (Number.isFinite(intervalMinutes) && intervalMinutes > 0) {
+    state.intervalMinutes = intervalMinutes;
+  }
+
+  const start = Number(params.get("from"));
+  const end = Number(params.get("to"));
+  if (params.has("from") && params.has("to") && start < end) {
+    state.range = { start, end };
+  }
+
+  if (params.has("ind")) {
+    state.indicators = parseConfigs(
+      params.getAll("ind"),
+      defaults.indicators,
+      defaults.indicatorDefinitions
+    );
+  }
+  if (params.has("osc")) {
+    state.oscillators = parseConfigs(
+      params.getAll("osc"),
+      defaults.oscillators,
+      defaults.oscillatorDefinitions
+    );
+  }
+
+  const view = params.get("view");
+  if (view === "split" || view === "overlay") {
+    state.view = view;
+  }
+  if (params.has("volume")) {
+    state.showVolume = params.get("volume") !== "0";
+  }
+
+  const size = Number(params.get("grid")) as GridSize;
+  if (GRID_SIZES.includes(size)) {
+    state.grid = {
+      size,
+      panels: params
+        .getAll("panel")
+        .map(parsePanel)
+        .filter((panel) => panel !== null),
+    };
+  }
+
+  return state;
+}
+
+// 기본값과 같은 항목(꺼진 지표, 분할 보기, 거래량 표시, 닫힌 그리드)은 생략해 링크를 짧게 유지
+export function buildChartUrlSearch<I extends string, O extends string>(
+  state: Required<
+    Pick<ChartUrlState<I, O>, "symbol" | "intervalMinutes" | "view">
+  > & {
+    range: ChartUrlState<I, O>["range"] | null;
+    indicators: ParamConfig<I>[];
+    oscillators: ParamConfig<O>[];
+    showVolume: boolean;
+    grid: ChartGridUrlState | null;
+  },
+  definitions: {
+    indicatorDefinitions: ParamDefinition<I>[];
+    oscillatorDefinitions: ParamDefinition<O>[];
+  }
+): string {
+  const params = new URLSearchParams();
+  params.set("symbol", state.symbol);
+  params.set("interval", String(state.intervalMinutes));
+  if (state.range) {
+    params.set("from", String(Math.round(state.range.start)));
+    params.set("to", String(Math.round(state.range.end)));
+  }
+  serializeConfigs(state.indicators, definitions.indicatorDefinitions).forEach(
+    (value) => params.append("ind", value)
+  );
+  serializeConfigs(
+    state.oscillators,
+    definitions.oscillatorDefinitions
+  ).forEach((value) => params.append("osc", value));
+  if (state.view !== "split") {
+    params.set("view", state.view);
+  }
+  if (!state.showVolume) {
+    params.set("volume", "0");
+  }
+  if (state.grid) {
+    params.set("grid", String(state.grid.size));
+    state.grid.panels.forEach((panel) =>
+      params.append(
+        "panel",
+        [panel.source, panel.symbol, panel.intervalMinutes].join(
+          PANEL_SEPARATOR
+        )
+      )
+    );
+  }
+  return params.toString();
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  WATCHLIST_PAGE_SIZE,
+  getDayChange,
+  getWatchlistPage,
+  type WatchlistTicker,
+} from "./watchlist";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const createTicker = (
+  points: [hour: number, close: number][],
+  lastPrice: number | null = null
+): WatchlistTicker => ({
+  symbol: "BTC-KRW",
+  points: points.map(([hour, close]) => ({ openTime: hour * HOUR_MS, close })),
+  lastPrice,
+  minutes: [],
+});
+
+describe("getDayChange", () => {
+  it("24시간 전 칸의 종가를 기준으로 한다", () => {
+    const ticker = createTicker([
+      [0, 100],
+      [12, 150],
+      [24, 120],
+    ]);
+
+    expect(getDayChange(ticker)).toBeCloseTo(20);
+  });
+
+  it("24시간 전 칸이 비어 있으면 그 이전 마지막 칸을 기준으로 한다", () => {
+    const ticker = createTicker([
+      [0, 100],
+      [1, 110],
+      [3, 90],
+      [26, 132],
+    ]);
+
+    expect(getDayChange(ticker)).toBeCloseTo(20);
+  });
+
+  it("데이터가 24시간보다 짧으면 가장 오래된 칸을 기준으로 한다", () => {
+    const ticker = createTicker([
+      [0, 100],
+      [5, 150],
+    ]);
+
+    expect(getDayChange(ticker)).toBeCloseTo(50);
+  });
+
+  it("마지막 가격이 있으면 마지막 칸 종가 대신 쓴다", () => {
+    const ticker = createTicker(
+      [
+        [0, 100],
+        [24, 120],
+      ],
+      90
+    );
+
+    expect(getDayChange(ticker)).toBeCloseTo(-10);
+  });
+
+  it("칸이 하나뿐이면 계산하지 않는다", () => {
+    expect(getDayChange(createTicker([[0, 100]]))).toBeNull();
+    expect(getDayChange(createTicker([]))).toBeNull();
+  });
+});
+
+describe("getWatchlistPage", () => {
+  const activeSymbols = Array.from(
+    { length: WATCHLIST_PAGE_SIZE + 5 },
+    (_, index) => `SYM${index}-KRW`
+  );
+
+  it("고정한 심볼이 없어도 활성 심볼 전체를 페이지로 나눈다", () => {
+    const first = getWatchlistPage(activeSymbols, [], false, 0);
+    const second = getWatchlistPage(activeSymbols, [], false, 1);
+
+    expect(first.symbols).toEqual(activeSymbols.slice(0, WATCHLIST_PAGE_SIZE));
+    expect(second.symbols).toEqual(activeSymbols.slice(WATCHLIST_PAGE_SIZE));
+    expect(first.pageCount).toBe(2);
+  });
+
+  it("고정한 심볼을 먼저 보여주고 비활성 심볼은 뺀다", () => {
+    const page = getWatchlistPage(
+      activeSymbols,
+      ["SYM24-KRW", "OLD-KRW", "SYM3-KRW"],
+      false,
+      0
+    );
+
+    expect(page.symbols.slice(0, 3)).toEqual([
+      "SYM24-KRW",
+      "SYM3-KRW",
+      "SYM0-KRW",
+    ]);
+    expect(page.symbols).toHaveLength(WATCHLIST_PAGE_SIZE);
+  });
+
+  it("고정한 심볼만 보기에서는 고정한 활성 심볼만 남긴다", () => {
+    expect(
+      getWatchlistPage(activeSymbols, ["SYM3-KRW", "OLD-KRW"], true, 0)
+    ).toEqual({ symbols: ["SYM3-KRW"], page: 0, pageCount: 1 });
+  });
+
+  it("범위를 벗어난 페이지는 마지막 페이지로 맞춘다", () => {
+    expect(getWatchlistPage(activeSymbols, [], false, 5).page).toBe(1);
+    expect(getWatchlistPage([], [], true, 3)).toEqual({
+      symbols: [],
+      page: 0,
+      pageCount: 1,
+    });
+  });
+});
@@ -0,0 +1,238 @@
+// 워치리스트 미니 티커: 1시간 단위 종가로 24시간 변동률과 스파크라인을 만들고 실시간 1분봉으로 갱신.
+// 실시간 1분봉은 화면에 없는 심볼의 알림 평가에도 쓴다. 활성 심볼 전체를 페이지로 나눠 보여주고, 고정한 심볼은 localStorage에 저장
+
+export type WatchlistPoint = { openTime: number; close: number };
+
+export type WatchlistTicker = {
+  symbol: string;
+  // 1시간 단위 종가 (오래된 순, 마지막 점은 진행 중인 시간)
+  points: WatchlistPoint[];
+  lastPrice: number | null;
+  // 구독 이후 받은 1분봉 종가 (오래된 순)
+  minutes: WatchlistPoint[];
+};
+
+// 참조 거래소 최신 종가. 호가 통화가 달라 로컬과 비교할 수 없으면 comparable이 false
+export type WatchlistReference = {
+  price: number | null;
+  comparable: boolean;
+  // 참조 거래소 1분봉 종가 (오래된 순, 환산하지 않은 값)
+  minutes: WatchlistPoint[];
+};
+
+const BUCKET_MS = 60 * 60 * 1000;
+// 24시간 전 종가까지 포함하도록 한 칸 더 유지
+export const WATCHLIST_BUCKETS = 25;
+// 알림의 N봉 변동률을 계산할 수 있도록 유지하는 1분봉 수
+const MAX_MINUTE_POINTS = 500;
+
+const toBucket = (openTime: number) =>
+  Math.floor(openTime / BUCKET_MS) * BUCKET_MS;
+
+// 같은 분이면 교체, 새 분이면 추가. 지난 분의 캔들은 무시
+const upsertMinute = (
+  minutes: WatchlistPoint[],
+  candle: WatchlistPoint
+): WatchlistPoint[] => {
+  const last = minutes[minutes.length - 1];
+  const point = { openTime: candle.openTime, close: candle.close };
+  if (last && candle.openTime < last.openTime) {
+    return minutes;
+  }
+  return last && candle.openTime === last.openTime
+    ? [...minutes.slice(0, -1), point]
+    : [...minutes, point].slice(-MAX_MINUTE_POINTS);
+};
+
+export function createWatchlistTicker(
+  symbol: string,
+  hourlyCandles: WatchlistPoint[]
+): WatchlistTicker {
+  const points = hourlyCandles
+    .map((candle) => ({ openTime: candle.openTime, close: candle.close }))
+    .slice(-WATCHLIST_BUCKETS);
+  return {
+    symbol,
+    points,
+    lastPrice: points[points.length - 1]?.close ?? null,
+    minutes: [],
+  };
+}
+
+// 실시간 캔들을 해당 시간 칸에 반영. 지난 칸의 캔들은 무시
+export function applyWatchlistCandle(
+  ticker: WatchlistTicker,
+  candle: WatchlistPoint
+): WatchlistTicker {
+  const bucket = toBucket(candle.openTime);
+  const last = ticker.points[ticker.points.length - 1];
+
+  if (last && bucket < last.openTime) {
+    return ticker;
+  }
+
+  const points =
+    last && bucket === last.openTime
+      ? [
+          ...ticker.points.slice(0, -1),
+          { openTime: bucket, close: candle.close },
+        ]
+      : [...ticker.points, { openTime: bucket, close: candle.close }].slice(
+          -WATCHLIST_BUCKETS
+        );
+
+  return {
+    ...ticker,
+    points,
+    lastPrice: candle.close,
+    minutes: upsertMinute(ticker.minutes, candle),
+  };
+}
+
+export function createWatchlistReference(
+  minuteCandles: WatchlistPoint[],
+  comparable: boolean
+): WatchlistReference {
+  const minutes = minuteCandles.reduce<WatchlistPoint[]>(upsertMinute, []);
+  return {
+    price: minutes[minutes.length - 1]?.close ?? null,
+    comparable,
+    minutes,
+  };
+}
+
+// 참조 거래소 실시간 1분봉으로 최신가와 1분봉 종가를 갱신
+export function applyWatchlistReferenceCandle(
+  reference: WatchlistReference,
+  candle: WatchlistPoint
+): WatchlistReference {
+  return {
+    ...reference,
+    price: candle.close,
+    minutes: upsertMinute(reference.minutes, candle),
+  };
+}
+
+// 마지막 칸 기준 24시간 전(또는 그 이전) 마지막 칸의 종가 대비 변동률 (%).
+// 데이터가 짧으면 가장 오래된 칸 기준
+export function getDayChange(ticker: WatchlistTicker): number | null {
+  const last = ticker.points[ticker.points.length - 1];
+  const cutoff = (last?.openTime ?? 0) - 24 * BUCKET_MS;
+  const base =
+    ticker.points.filter((point) => point.openTime <= cutoff).pop() ??
+    ticker.points[0];
+  if (!last || !base || base === last || base.close === 0) {
+    return null;
+  }
+  return (((ticker.lastPrice ?? last.close) - base.close) / base.close) * 100;
+}
+
+// 로컬 대비 참조 거래소 괴리율 (%). 비교할 수 없으면 null
+export function getReferenceDivergence(
+  ticker: WatchlistTicker | undefined,
+  reference: WatchlistReference | undefined
+): number | null {
+  if (!ticker || ticker.lastPrice === null || !reference?.comparable) {
+    return null;
+  }
+  return reference.price
+    ? ((ticker.lastPrice - reference.price) / reference.price) * 100
+    : null;
+}
+
+// 스파크라인 SVG polyline 좌표 (width×height 상자에 맞춤)
+export function toSparklinePath(
+  points: WatchlistPoint[],
+  width: number,
+  height: number
+): string {
+  if (points.length < 2) {
+    return "";
+  }
+
+  const closes = points.map((point) => point.close);
+  const min = Math.min(...closes);
+  const range = Math.max(...closes) - min || 1;
+  const step = width / (points.length - 1);
+
+  return closes
+    .map(
+      (close, index) =>
+        `${(index * step).toFixed(1)},${(
+          height -
+          ((close - min) / range) * height
+        ).toFixed(1)}`
+    )
+    .join(" ");
+}
+
+const STORAGE_KEY = "cex-kline:watchlist";
+// 심볼마다 로컬 구독, 초기 조회, 참조 거래소 스트림이 하나씩 생기므로 한 페이지에 보여주고 구독하는 심볼 수를 제한
+export const WATCHLIST_PAGE_SIZE = 20;
+
+export type WatchlistPage = {
+  symbols: string[];
+  // 범위 안으로 맞춘 페이지 번호 (0부터)
+  page: number;
+  pageCount: number;
+};
+
+// 활성 심볼 전체(고정한 심볼이 먼저) 또는 고정한 심볼만 페이지로 나눈다
+export function getWatchlistPage(
+  activeSymbols: string[],
+  pinnedSymbols: string[],
+  pinnedOnly: boolean,
+  page: number
+): WatchlistPage {
+  const pinned = pinnedSymbols.filter((symbol) =>
+    activeSymbols.includes(symbol)
+  );
+  const symbols = pinnedOnly
+    ? pinned
+    : [
+        ...pinned,
+        ...activeSymbols.filter((symbol) => !pinnedSymbols.includes(symbol)),
+      ];
+  const pageCount = Math.max(
+    1,
+    Math.ceil(symbols.length / WATCHLIST_PAGE_SIZE)
+  );
+  const current = Math.min(Math.max(0, page), pageCount - 1);
+  return {
+    symbols: symbols.slice(
+      current * WATCHLIST_PAGE_SIZE,
+      (current + 1) * WATCHLIST_PAGE_SIZE
+    ),
+    page: current,
+    pageCount,
+  };
+}
+
+export function loadWatchlistSymbols(): string[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((symbol): symbol is string => typeof symbol === "string")
+      : [];
+  } catch (error) {
+    console.warn("저장된 워치리스트를 읽지 못했습니다:", error);
+    return [];
+  }
+}
+
+export function saveWatchlistSymbols(symbols: string[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(symbols));
+  } catch (error) {
+    console.warn("워치리스트를 저장하지 못했습니다:", error);
+  }
+}
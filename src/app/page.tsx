@@ -1,45 +1,123 @@
 "use client";
 
-import { Chart, type ChartDataset } from "chart.js";
-import { createClient, type Client } from "graphql-ws";
-import type { ChangeEvent } from "react";
+import type { CSSProperties, ChangeEvent } from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Select, { type SingleValue } from "react-select";
-import { ensureFinancialChartRegistered } from "./lib/registerFinancialChart";
+import {
+  AlertPanel,
+  getNotificationState,
+  showAlertNotification,
+  type NotificationState,
+} from "./components/AlertPanel";
+import { CandleSnapshot } from "./components/CandleSnapshot";
+import { ChartGrid } from "./components/ChartGrid";
+import type { SelectOption } from "./components/ChartPanel";
+import { ComparisonPanel } from "./components/ComparisonPanel";
+import { DrawingToolbar } from "./components/DrawingToolbar";
+import { IndicatorToggle } from "./components/IndicatorToggle";
+import {
+  MinuteChart,
+  type CandleOverlay,
+  type VisibleRange,
+} from "./components/MinuteChart";
+import { ReconcilePanel } from "./components/ReconcilePanel";
+import { ReferenceChartCard } from "./components/ReferenceChartCard";
+import { Watchlist } from "./components/Watchlist";
+import { useWatchlist } from "./hooks/useWatchlist";
+import {
+  createAlertEvaluator,
+  loadAlerts,
+  saveAlerts,
+  type AlertCondition,
+  type AlertDefinition,
+  type AlertTrigger,
+} from "./lib/alerts";
+import {
+  mergeCandles,
+  trimCandles,
+  upsertLiveCandle,
+} from "./lib/candleHistory";
+import {
+  KLINE_UPDATED_SUBSCRIPTION,
+  MAX_CANDLES,
+  MAX_LOADED_CANDLES,
+  describeExchangeError,
+  fetchExchangeCandles,
+  fetchGraphQL,
+  fetchLocalCandles,
+  getWsClient,
+  mapExchangeCandle,
+  mapSubscriptionKlineToCandle,
+  type ApiErrorPayload,
+  type Candle,
+  type ExchangeCandlePayload,
+  type ExchangeOption,
+  type KlineSubModel,
+  type SymbolMappingPayload,
+} from "./lib/candleSources";
+import {
+  LOCAL_SOURCE,
+  loadLayouts,
+  resizePanels,
+  saveLayouts,
+  toPanelConfig,
+  type ChartLayout,
+  type GridPanel,
+  type GridSize,
+} from "./lib/chartLayouts";
+import { createChartSync } from "./lib/chartSync";
+import {
+  loadDrawings,
+  mergeDrawings,
+  parseDrawingExport,
+  saveDrawings,
+  serializeDrawings,
+  type Drawing,
+  type DrawingTool,
+} from "./lib/drawings";
+import { getExchangeStream } from "./lib/exchangeStream";
+import { formatCandleTime } from "./lib/format";
+import {
+  computePremiumSeries,
+  convertCandles,
+  toRateSeries,
+  type FxRatePoint,
+  type FxRateSource,
+} from "./lib/fx";
+import { createId } from "./lib/ids";
+import {
+  DEFAULT_INDICATOR_CONFIGS,
+  INDICATOR_DEFINITIONS,
+  type IndicatorConfig,
+  type IndicatorType,
+} from "./lib/indicators";
+import {
+  INTERVALS,
+  addIntervals,
+  findCandleGaps,
+  formatIntervalLabel,
+  getIntervalDefinition,
+  type CandleGap,
+} from "./lib/intervals";
+import {
+  DEFAULT_OSCILLATOR_CONFIGS,
+  OSCILLATOR_DEFINITIONS,
+  type OscillatorConfig,
+  type OscillatorType,
+} from "./lib/oscillators";
+import {
+  DEFAULT_RECONCILE_THRESHOLDS,
+  reconcileCandles,
+  type ReconcileThresholds,
+} from "./lib/reconcile";
+import { buildChartUrlSearch, parseChartUrlState } from "./lib/urlState";
+import {
+  getWatchlistPage,
+  loadWatchlistSymbols,
+  saveWatchlistSymbols,
+} from "./lib/watchlist";
 import styles from "./page.module.css";
 
-type CandlestickDataPoint = {
-  x: number; // Timestamp or numerical x-coordinate
-  o: number; // Open value
-  h: number; // High value
-  l: number; // Low value
-  c: number; // Close value
-  v: number; // Volume value
-};
-
-// Extended dataset type for candlestick charts
-type CandlestickDataset = ChartDataset<
-  "candlestick",
-  CandlestickDataPoint[]
-> & {
-  upColor?: string;
-  downColor?: string;
-  borderColor?: string;
-  borderUpColor?: string;
-  borderDownColor?: string;
-  wickUpColor?: string;
-  wickDownColor?: string;
-};
-
-type Candle = {
-  openTime: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume?: number;
-};
-
 type GraphQLSymbol = {
   id: string;
   is_active: boolean;
@@ -47,50 +125,15 @@ type GraphQLSymbol = {
   updated_at?: string;
 };
 
-type SelectOption = {
-  value: string;
-  label: string;
-};
-
-type KlineModel = {
-  symbol: string | null;
-  interval: number;
-  candleTime: string | null;
-  open: string;
-  close: string;
-  high: string;
-  low: string;
-  volume: number | null;
-};
-
-type KlineSubModel = {
-  symbol: string | null;
-  interval: number;
-  candleTime: string;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: number | null;
-};
-
-type BinanceRestCandlePayload = {
-  openTime: number;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: string;
-};
+// 스크롤백 상태. detached면 메모리 예산 때문에 최신 캔들을 비워 실시간 갱신을 멈춘 상태
+type HistorySide = "local" | "reference";
+type HistoryState = { loading: boolean; exhausted: boolean; detached: boolean };
 
-type BinanceStreamCandlePayload = {
-  startTime: number;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: string;
-};
+const createHistoryState = (): HistoryState => ({
+  loading: false,
+  exhausted: false,
+  detached: false,
+});
 
 // Health API 관련 타입 정의
 type ServerStatus = {
@@ -103,94 +146,19 @@ type HealthResponse = {
 };
 
 const DEFAULT_INTERVAL_MINUTES = 1;
-const MAX_CANDLES = 500;
-const INTERVAL_OPTIONS = [1, 3, 5, 15, 30, 60, 120, 240];
-const BINANCE_INTERVAL_MAP = {
-  1: "1m",
-  3: "3m",
-  5: "5m",
-  15: "15m",
-  30: "30m",
-  60: "1h",
-  120: "2h",
-  240: "4h",
-} as const;
-type BinanceInterval =
-  (typeof BINANCE_INTERVAL_MAP)[keyof typeof BINANCE_INTERVAL_MAP];
-
-const priceFormatter = new Intl.NumberFormat("en-US", {
-  minimumFractionDigits: 2,
-  maximumFractionDigits: 2,
-});
-
-const percentFormatter = new Intl.NumberFormat("en-US", {
-  minimumFractionDigits: 2,
-  maximumFractionDigits: 2,
-});
-
-const volumeFormatter = new Intl.NumberFormat("en-US", {
-  minimumFractionDigits: 0,
-  maximumFractionDigits: 2,
-});
-
-const timeFormatter = new Intl.DateTimeFormat("ko-KR", {
-  hour: "2-digit",
-  minute: "2-digit",
-});
-
-// 데이터 범위를 분석하여 적절한 시간 단위 결정
-const getTimeUnitFromData = (
-  data: CandlestickDataPoint[]
-): "minute" | "hour" | "day" => {
-  if (data.length === 0) {
-    return "minute";
-  }
-
-  const minTime = Math.min(...data.map((d) => d.x));
-  const maxTime = Math.max(...data.map((d) => d.x));
-  const timeRange = maxTime - minTime;
-
-  // 시간 범위에 따라 적절한 단위 선택
-  const oneHour = 60 * 60 * 1000; // 1시간 (밀리초)
-  const oneDay = 24 * oneHour; // 1일 (밀리초)
-
-  if (timeRange <= oneHour * 12) {
-    // 12시간 이내
-    return "minute";
-  } else if (timeRange <= oneDay * 7) {
-    // 7일 이내
-    return "hour";
-  } else {
-    // 7일 초과
-    return "day";
-  }
-};
-
-// 분봉 간격에 따른 Chart.js 시간 단위 결정 (fallback)
-const getTimeUnit = (intervalMinutes: number): "minute" | "hour" | "day" => {
-  if (intervalMinutes <= 5) {
-    return "minute";
-  } else if (intervalMinutes <= 30) {
-    return "minute";
-  } else if (intervalMinutes <= 120) {
-    return "hour";
-  } else {
-    return "hour";
-  }
-};
-
-// 분봉 간격에 따른 시간 표시 형식 결정
-const getTimeDisplayFormat = (intervalMinutes: number): string => {
-  if (intervalMinutes <= 5) {
-    return "HH:mm";
-  } else if (intervalMinutes <= 30) {
-    return "HH:mm";
-  } else if (intervalMinutes <= 120) {
-    return "MM/dd HH:mm";
-  } else {
-    return "MM/dd HH:mm";
-  }
+const DEFAULT_REFERENCE_EXCHANGE: ExchangeOption = {
+  id: "binance",
+  name: "Binance",
+  intervals: [],
 };
+// 보이는 구간의 시작이 가장 오래된 캔들에서 이 개수 안으로 들어오면 이전 페이지를 불러온다
+const SCROLL_BACK_MARGIN_CANDLES = 20;
+// 캔들 시계열 환율은 1분마다 다시 불러온다
+const FX_REFRESH_INTERVAL = 60000;
+// 화면에 남길 알림 기록 수
+const MAX_ALERT_LOG = 100;
+// 확대/이동 중에는 주소창 갱신을 모아서 한 번에 반영
+const URL_UPDATE_DELAY = 300;
 
 // Custom styles for react-select to match existing design
 const customSelectStyles = {
@@ -276,8 +244,6 @@ const customSelectStyles = {
   }),
 };
 
-const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:58001";
-
 // Health API 호출 함수
 async function fetchHealthStatus(): Promise<ServerStatus[]> {
   try {
@@ -298,11 +264,6 @@ async function fetchHealthStatus(): Promise<ServerStatus[]> {
   }
 }
 
-type GraphQLResponse<T> = {
-  data?: T;
-  errors?: { message: string }[];
-};
-
 type SymbolInsertInput = {
   symbol: string;
 };
@@ -314,36 +275,6 @@ type SymbolModel = {
   updated_at?: string;
 };
 
-async function fetchGraphQL<T>(
-  query: string,
-  variables?: Record<string, unknown>
-): Promise<T> {
-  const response = await fetch(`${apiUrl}/graphql`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify({ query, variables }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`GraphQL request failed with status ${response.status}`);
-  }
-
-  const payload = (await response.json()) as GraphQLResponse<T>;
-
-  if (payload.errors?.length) {
-    throw new Error(payload.errors.map((item) => item.message).join(", "));
-  }
-
-  if (!payload.data) {
-    throw new Error("GraphQL response did not include data");
-  }
-
-  return payload.data;
-}
-
 async function insertSymbol(input: SymbolInsertInput): Promise<SymbolModel> {
   const data = await fetchGraphQL<{ insertSymbol: SymbolModel }>(
     `mutation InsertSymbol($input: SymbolInsertInput!) {
@@ -359,6 +290,44 @@ async function insertSymbol(input: SymbolInsertInput): Promise<SymbolModel> {
   return data.insertSymbol;
 }
 
+async function fetchSymbolMappingSuggestions(
+  exchange: string,
+  localSymbol: string
+): Promise<SymbolMappingPayload[]> {
+  const response = await fetch(
+    `/api/exchanges/${exchange}/symbol-mappings?symbol=${encodeURIComponent(
+      localSymbol
+    )}`
+  );
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  const payload = (await response.json()) as {
+    suggestions: SymbolMappingPayload[];
+  };
+  return payload.suggestions;
+}
+
+async function saveSymbolMapping(
+  exchange: string,
+  localSymbol: string,
+  symbol: string
+): Promise<SymbolMappingPayload> {
+  const response = await fetch(`/api/exchanges/${exchange}/symbol-mappings`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ localSymbol, symbol }),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      (payload as ApiErrorPayload | null)?.error ??
+        `Request failed with status ${response.status}`
+    );
+  }
+  return (payload as { mapping: SymbolMappingPayload }).mapping;
+}
+
 async function deleteSymbol(id: string): Promise<boolean> {
   const data = await fetchGraphQL<{ deleteSymbol: boolean }>(
     `mutation DeleteSymbol($id: String!) {
@@ -369,471 +338,204 @@ async function deleteSymbol(id: string): Promise<boolean> {
   return data.deleteSymbol;
 }
 
-async function indexKline(symbol: string): Promise<boolean> {
-  const data = await fetchGraphQL<{ indexKline: boolean }>(
-    `mutation IndexKline($symbol: String!) {
-      indexKline(symbol: $symbol)
-    }`,
-    { symbol }
-  );
-  return data.indexKline;
-}
-
-const buildWsUrl = () => {
-  const normalized = apiUrl.endsWith("/") ? apiUrl.slice(0, -1) : apiUrl;
-  return `${normalized.replace(/^http/i, "ws")}/graphql`;
+type MutationFieldsPayload = {
+  __type: {
+    fields: { name: string; args: { name: string }[] }[];
+  } | null;
 };
 
-let wsClient: Client | null = null;
-
-const getWsClient = () => {
-  if (!wsClient) {
-    wsClient = createClient({
-      url: buildWsUrl(),
-      lazy: true,
-      retryAttempts: 25,
-      shouldRetry: () => true,
-    });
-  }
-  return wsClient;
-};
-
-function mapSubscriptionKlineToCandle(kline: KlineSubModel): Candle | null {
-  const openTime = Date.parse(kline.candleTime);
-  const open = parseFloat(kline.open);
-  const high = parseFloat(kline.high);
-  const low = parseFloat(kline.low);
-  const close = parseFloat(kline.close);
-  const volume =
-    typeof kline.volume === "number" ? kline.volume : Number(kline.volume ?? 0);
-
-  if (
-    Number.isNaN(openTime) ||
-    Number.isNaN(open) ||
-    Number.isNaN(high) ||
-    Number.isNaN(low) ||
-    Number.isNaN(close)
-  ) {
-    return null;
-  }
-
-  return {
-    openTime,
-    open,
-    high,
-    low,
-    close,
-    volume: Number.isNaN(volume) ? undefined : volume,
-  } satisfies Candle;
-}
-
-function mapModelToCandle(model: KlineModel): Candle | null {
-  const openTime = model.candleTime ? Date.parse(model.candleTime) : Number.NaN;
-  const open = parseFloat(model.open);
-  const high = parseFloat(model.high);
-  const low = parseFloat(model.low);
-  const close = parseFloat(model.close);
-  const volume =
-    typeof model.volume === "number"
-      ? model.volume
-      : Number(model.volume ?? Number.NaN);
-
-  if (
-    Number.isNaN(openTime) ||
-    Number.isNaN(open) ||
-    Number.isNaN(high) ||
-    Number.isNaN(low) ||
-    Number.isNaN(close)
-  ) {
-    return null;
+let rangeIndexSupport: Promise<boolean> | null = null;
+
+// 구간 인덱싱은 백엔드 스키마에 indexKline(symbol, start, end)가 있어야 한다 (README 참고)
+// 인트로스펙션이 막혀 있으면 확인할 수 없으므로 지원한다고 보고 뮤테이션 에러에 맡긴다
+function supportsRangeIndexing(): Promise<boolean> {
+  if (!rangeIndexSupport) {
+    rangeIndexSupport = fetchGraphQL<MutationFieldsPayload>(
+      `query MutationFields {
+        __type(name: "Mutation") {
+          fields {
+            name
+            args {
+              name
+            }
+          }
+        }
+      }`
+    )
+      .then((data) => {
+        const field = data.__type?.fields.find(
+          (item) => item.name === "indexKline"
+        );
+        if (!field) {
+          return true;
+        }
+        const argNames = field.args.map((arg) => arg.name);
+        return argNames.includes("start") && argNames.includes("end");
+      })
+      .catch((error) => {
+        console.warn("Failed to inspect the GraphQL schema", error);
+        rangeIndexSupport = null;
+        return true;
+      });
   }
-
-  return {
-    openTime,
-    open,
-    high,
-    low,
-    close,
-    volume: Number.isNaN(volume) ? undefined : volume,
-  } satisfies Candle;
+  return rangeIndexSupport;
 }
 
-function mapModelsToCandles(klines: KlineModel[]): Candle[] {
-  return klines
-    .map((item) => mapModelToCandle(item))
-    .filter((value): value is Candle => value !== null)
-    .sort((a, b) => a.openTime - b.openTime);
-}
-
-const normalizeBinanceSymbol = (symbol: string): string => {
-  if (!symbol) {
-    return "";
-  }
-  const normalized = symbol.replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
-  if (normalized.length === 0) {
-    return "";
-  }
-  return normalized.endsWith("USDT") ? normalized : `${normalized}USDT`;
-};
-
-function mapBinanceRestCandle(
-  payload: BinanceRestCandlePayload
-): Candle | null {
-  const openTime = payload.openTime;
-  const open = parseFloat(payload.open);
-  const high = parseFloat(payload.high);
-  const low = parseFloat(payload.low);
-  const close = parseFloat(payload.close);
-  const volume = parseFloat(payload.volume);
-
-  if (
-    Number.isNaN(openTime) ||
-    Number.isNaN(open) ||
-    Number.isNaN(high) ||
-    Number.isNaN(low) ||
-    Number.isNaN(close)
-  ) {
-    return null;
+// range가 없으면 서버 기본 구간(최근 3개월)을, 있으면 해당 구간만 인덱싱
+async function indexKline(
+  symbol: string,
+  range?: { start: number; end: number }
+): Promise<boolean> {
+  if (!range) {
+    const data = await fetchGraphQL<{ indexKline: boolean }>(
+      `mutation IndexKline($symbol: String!) {
+        indexKline(symbol: $symbol)
+      }`,
+      { symbol }
+    );
+    return data.indexKline;
   }
 
-  return {
-    openTime,
-    open,
-    high,
-    low,
-    close,
-    volume: Number.isNaN(volume) ? undefined : volume,
-  } satisfies Candle;
+  const data = await fetchGraphQL<{ indexKline: boolean }>(
+    `mutation IndexKlineRange($symbol: String!, $start: String!, $end: String!) {
+      indexKline(symbol: $symbol, start: $start, end: $end)
+    }`,
+    {
+      symbol,
+      start: new Date(range.start).toISOString(),
+      end: new Date(range.end).toISOString(),
+    }
+  );
+  return data.indexKline;
 }
 
-function mapBinanceStreamCandle(
-  payload: BinanceStreamCandlePayload
-): Candle | null {
-  const openTime = payload.startTime;
-  const open = parseFloat(payload.open);
-  const high = parseFloat(payload.high);
-  const low = parseFloat(payload.low);
-  const close = parseFloat(payload.close);
-  const volume = parseFloat(payload.volume);
-
-  if (
-    Number.isNaN(openTime) ||
-    Number.isNaN(open) ||
-    Number.isNaN(high) ||
-    Number.isNaN(low) ||
-    Number.isNaN(close)
-  ) {
-    return null;
-  }
-
-  return {
-    openTime,
-    open,
-    high,
-    low,
-    close,
-    volume: Number.isNaN(volume) ? undefined : volume,
-  } satisfies Candle;
+// 환율 기준 캔들(end 이전 MAX_CANDLES개 구간)을 불러와 환율 시계열로 변환
+async function fetchFxRates(
+  source: Extract<FxRateSource, { type: "exchange" | "local" }>,
+  intervalMinutes: number,
+  end?: number
+): Promise<FxRatePoint[]> {
+  const symbol = source.symbol.trim();
+  const series =
+    source.type === "exchange"
+      ? (
+          await fetchExchangeCandles(
+            { id: source.exchange, name: source.exchange },
+            symbol,
+            intervalMinutes,
+            end
+          )
+        ).candles
+      : await fetchLocalCandles(symbol, intervalMinutes, end);
+  return toRateSeries(series, source.invert);
 }
 
-const toCandlestickPoints = (candles: Candle[]): CandlestickDataPoint[] => {
-  const points = candles.map((candle) => ({
-    x: candle.openTime,
-    o: candle.open,
-    h: candle.high,
-    l: candle.low,
-    c: candle.close,
-    v: candle.volume ?? 0,
-  }));
-
-  // 시간 범위가 너무 넓은 경우 최근 데이터만 사용
-  if (points.length > 0) {
-    const now = Date.now();
-    const maxAge = 30 * 24 * 60 * 60 * 1000; // 30일
-    const filteredPoints = points.filter((point) => now - point.x <= maxAge);
-
-    if (filteredPoints.length > 0) {
-      return filteredPoints;
-    }
-  }
-
-  return points;
-};
-
-type MinuteChartProps = {
-  data: Candle[];
-  symbol: string;
-  intervalMinutes: number;
-};
-
-function MinuteChart({ data, symbol, intervalMinutes }: MinuteChartProps) {
-  const containerRef = useRef<HTMLDivElement | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const chartRef = useRef<Chart | null>(null);
-  const initialRenderRef = useRef(true);
-  const lastSymbolRef = useRef<string | null>(null);
-  const lastIntervalRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    const container = containerRef.current;
-    const canvas = canvasRef.current;
-
-    if (!container || !canvas || chartRef.current) {
-      return;
-    }
-
-    let disposed = false;
-    let resizeObserver: ResizeObserver | null = null;
-    let chartInstance: Chart | null = null;
-
-    const initializeChart = async () => {
-      await ensureFinancialChartRegistered();
-
-      if (disposed || !container || !canvas) {
-        return;
-      }
-
-      const chart = new Chart(canvas, {
-        type: "candlestick",
-        data: {
-          datasets: [
-            {
-              label: "",
-              data: [] as CandlestickDataPoint[],
-              upColor: "#34d399",
-              downColor: "#fb7185",
-              borderColor: "rgba(148, 163, 184, 0.25)",
-              borderUpColor: "#34d399",
-              borderDownColor: "#fb7185",
-              wickUpColor: "#34d399",
-              wickDownColor: "#fb7185",
-            } as CandlestickDataset,
-          ],
-        },
-        options: {
-          animation: false,
-          responsive: true,
-          maintainAspectRatio: false,
-          parsing: false,
-          interaction: {
-            mode: "nearest",
-            intersect: false,
-          },
-          plugins: {
-            legend: {
-              display: false,
-            },
-            tooltip: {
-              callbacks: {
-                label: (context) => {
-                  const raw = context.raw as CandlestickDataPoint | undefined;
-
-                  if (!raw) {
-                    return "";
-                  }
+// 캔들/참조 캔들이 어느 심볼·봉 간격의 것인지 구분하는 키
+const toCandleKey = (symbol: string, intervalMinutes: number) =>
+  `${symbol}:${intervalMinutes}`;
 
-                  return [
-                    `시가: ${priceFormatter.format(raw.o)}`,
-                    `고가: ${priceFormatter.format(raw.h)}`,
-                    `저가: ${priceFormatter.format(raw.l)}`,
-                    `종가: ${priceFormatter.format(raw.c)}`,
-                    `거래: ${volumeFormatter.format(raw.v)}`,
-                  ];
-                },
-              },
-            },
-            zoom: {
-              limits: {
-                y: { min: "original", max: "original" },
-              },
-              pan: {
-                enabled: true,
-                mode: "x",
-              },
-              zoom: {
-                wheel: {
-                  enabled: true,
-                },
-                pinch: {
-                  enabled: true,
-                },
-                mode: "x",
-              },
-            } as Record<string, unknown>,
-          },
-          scales: {
-            x: {
-              type: "time",
-              time: {
-                unit: getTimeUnit(intervalMinutes),
-                tooltipFormat: getTimeDisplayFormat(intervalMinutes),
-                displayFormats: {
-                  minute: "HH:mm",
-                  hour: "MM/dd HH:mm",
-                  day: "MM/dd",
-                },
-                minUnit: "minute",
-              },
-              grid: {
-                color: "rgba(148, 163, 184, 0.08)",
-              },
-              ticks: {
-                color: "rgba(226, 232, 240, 0.65)",
-                maxRotation: 0,
-                source: "data",
-                maxTicksLimit: 10,
-              },
-              border: {
-                color: "rgba(148, 163, 184, 0.2)",
-              },
-            },
-            y: {
-              position: "right",
-              grid: {
-                color: "rgba(148, 163, 184, 0.08)",
-              },
-              ticks: {
-                color: "rgba(226, 232, 240, 0.7)",
-                callback: (value) => priceFormatter.format(Number(value)),
-              },
-              border: {
-                color: "rgba(148, 163, 184, 0.2)",
-              },
-            },
-          },
-        },
-      });
-
-      chartRef.current = chart;
-      chartInstance = chart;
-
-      resizeObserver =
-        typeof ResizeObserver !== "undefined"
-          ? new ResizeObserver(() => chart.resize())
-          : null;
-
-      if (resizeObserver) {
-        resizeObserver.observe(container);
-      }
-    };
-
-    void initializeChart();
-
-    return () => {
-      disposed = true;
-      resizeObserver?.disconnect();
-      chartInstance?.destroy();
-      chartRef.current = null;
-      initialRenderRef.current = true;
-      lastSymbolRef.current = null;
-      lastIntervalRef.current = null;
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  useEffect(() => {
-    if (lastSymbolRef.current !== symbol) {
-      lastSymbolRef.current = symbol;
-      initialRenderRef.current = true;
-    }
-
-    if (lastIntervalRef.current !== intervalMinutes) {
-      lastIntervalRef.current = intervalMinutes;
-      initialRenderRef.current = true;
-    }
-
-    const chart = chartRef.current;
-
-    if (!chart) {
-      return;
-    }
-
-    const dataset = chart.data.datasets[0] as CandlestickDataset;
-
-    if (!data.length) {
-      dataset.data = [];
-      chart.update("none");
-      return;
-    }
-
-    dataset.label = symbol ? `${symbol} ${intervalMinutes}분봉` : dataset.label;
-    dataset.data = toCandlestickPoints(data);
-
-    // 분봉 간격이 변경되었을 때 차트 재생성
-    if (lastIntervalRef.current !== intervalMinutes) {
-      // 차트를 완전히 재생성하여 시간 축 설정을 새로 적용
-      chart.destroy();
-      chartRef.current = null;
-      initialRenderRef.current = true;
-      lastSymbolRef.current = null;
-      lastIntervalRef.current = null;
-      return; // 차트가 재생성되므로 여기서 종료
-    }
-
-    // 데이터 범위에 맞는 시간 단위 자동 선택
-    if (data.length > 0) {
-      const timeUnit = getTimeUnitFromData(toCandlestickPoints(data));
-      const timeDisplayFormat = getTimeDisplayFormat(intervalMinutes);
-
-      if (chart.options.scales?.x && "time" in chart.options.scales.x) {
-        (chart.options.scales.x as any).time.unit = timeUnit;
-        (chart.options.scales.x as any).time.tooltipFormat = timeDisplayFormat;
-      }
-    }
-
-    if (initialRenderRef.current) {
-      if (
-        typeof (chart as unknown as Record<string, unknown>).resetZoom ===
-        "function"
-      ) {
-        (
-          (chart as unknown as Record<string, unknown>).resetZoom as () => void
-        )();
-      }
-      chart.update("none");
-      initialRenderRef.current = false;
-    } else {
-      chart.update();
-    }
-  }, [data, symbol, intervalMinutes]);
-
-  return (
-    <div className={styles.chartRoot}>
-      <div ref={containerRef} className={styles.chartContainer}>
-        <canvas ref={canvasRef} className={styles.chartCanvas} />
-      </div>
-      {data.length === 0 && (
-        <div className={styles.chartPlaceholder}>
-          데이터를 불러오는 중입니다…
-        </div>
-      )}
-    </div>
-  );
-}
+// 실시간 캔들은 목록을 늘리지 않는다: 최신 구간(MAX_CANDLES) 또는 스크롤백으로 불러온 만큼만 유지
+const getLiveCandleBudget = (candles: Candle[]) =>
+  Math.min(Math.max(MAX_CANDLES, candles.length), MAX_LOADED_CANDLES);
 
 export default function Home() {
   const [selectedSymbol, setSelectedSymbol] = useState("");
   const [symbolOptions, setSymbolOptions] = useState<GraphQLSymbol[]>([]);
   const [candles, setCandles] = useState<Candle[]>([]);
+  // candles/referenceCandles를 불러온 심볼·봉 간격 (전환 직후 이전 심볼 캔들로 알림을 평가하지 않도록)
+  const [candleKey, setCandleKey] = useState("");
+  const [referenceCandleKey, setReferenceCandleKey] = useState("");
   const [isStreaming, setIsStreaming] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [selectedInterval, setSelectedInterval] = useState(
     DEFAULT_INTERVAL_MINUTES
   );
-  const [binanceCandles, setBinanceCandles] = useState<Candle[]>([]);
-  const [binanceStatus, setBinanceStatus] = useState<
+  const [exchangeOptions, setExchangeOptions] = useState<ExchangeOption[]>([
+    DEFAULT_REFERENCE_EXCHANGE,
+  ]);
+  const [referenceExchangeId, setReferenceExchangeId] = useState(
+    DEFAULT_REFERENCE_EXCHANGE.id
+  );
+  // 서버가 로컬 심볼을 변환한 참조 거래소 마켓 심볼
+  const [referenceSymbol, setReferenceSymbol] = useState("");
+  const [referenceMapping, setReferenceMapping] =
+    useState<SymbolMappingPayload | null>(null);
+  const [fxSource, setFxSource] = useState<FxRateSource>({ type: "none" });
+  const [fxRates, setFxRates] = useState<FxRatePoint[]>([]);
+  const [fxErrorMessage, setFxErrorMessage] = useState<string | null>(null);
+  const [visibleRange, setVisibleRange] = useState<VisibleRange | null>(null);
+  // 공유 링크로 열었을 때 첫 캔들을 불러온 뒤 보여줄 심볼·봉 간격·구간
+  const pendingLinkRef = useRef<{
+    symbol?: string;
+    intervalMinutes: number;
+    range?: VisibleRange;
+  } | null>(null);
+  const [initialRange, setInitialRange] = useState<VisibleRange | null>(null);
+  const [gridSize, setGridSize] = useState<GridSize | null>(null);
+  const [gridPanels, setGridPanels] = useState<GridPanel[]>([]);
+  const historyRef = useRef<Record<HistorySide, HistoryState>>({
+    local: createHistoryState(),
+    reference: createHistoryState(),
+  });
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isHistoryDetached, setIsHistoryDetached] = useState(false);
+  // 최신 캔들로 돌아갈 때 차트 확대 상태를 초기화하기 위한 키
+  const [chartResetKey, setChartResetKey] = useState(0);
+  const [reconcileThresholds, setReconcileThresholds] =
+    useState<ReconcileThresholds>(DEFAULT_RECONCILE_THRESHOLDS);
+  const [indicatorConfigs, setIndicatorConfigs] = useState<IndicatorConfig[]>(
+    DEFAULT_INDICATOR_CONFIGS
+  );
+  const [oscillatorConfigs, setOscillatorConfigs] = useState<
+    OscillatorConfig[]
+  >(DEFAULT_OSCILLATOR_CONFIGS);
+  const [showVolume, setShowVolume] = useState(true);
+  // 현재 심볼/봉 간격의 그림 (localStorage에 저장)
+  const [drawings, setDrawings] = useState<Drawing[]>([]);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool | null>(null);
+  const [snapDrawings, setSnapDrawings] = useState(true);
+  const [drawingMessage, setDrawingMessage] = useState<string | null>(null);
+  // 알림 정의는 전체 심볼을 한 목록으로 localStorage에 저장
+  const [alerts, setAlerts] = useState<AlertDefinition[]>([]);
+  const [pinnedSymbols, setPinnedSymbols] = useState<string[]>([]);
+  const [showPinnedOnly, setShowPinnedOnly] = useState(false);
+  const [watchlistPage, setWatchlistPage] = useState(0);
+  const [alertLog, setAlertLog] = useState<AlertTrigger[]>([]);
+  const [alertEvaluator] = useState(createAlertEvaluator);
+  const [notificationState, setNotificationState] =
+    useState<NotificationState>("default");
+  // 멀티 차트 그리드에서 이름을 붙여 저장한 레이아웃
+  const [chartLayouts, setChartLayouts] = useState<ChartLayout[]>([]);
+  // 로컬/참조 차트의 확대·이동, 십자선, 툴팁 연동
+  const [isChartLinked, setIsChartLinked] = useState(false);
+  // split: 로컬/참조 차트를 따로, overlay: 로컬 차트 위에 참조 캔들을 겹쳐 표시
+  const [chartView, setChartView] = useState<"split" | "overlay">("split");
+  const [overlayStyle, setOverlayStyle] =
+    useState<CandleOverlay["style"]>("line");
+  const [chartSync] = useState(createChartSync);
+  const [referenceCandles, setReferenceCandles] = useState<Candle[]>([]);
+  const [referenceStatus, setReferenceStatus] = useState<
     "idle" | "connecting" | "connected" | "error"
   >("idle");
-  const [binanceErrorMessage, setBinanceErrorMessage] = useState<string | null>(
-    null
-  );
+  const [referenceErrorMessage, setReferenceErrorMessage] = useState<
+    string | null
+  >(null);
   const [isDeletingSymbol, setIsDeletingSymbol] = useState<string | null>(null);
   const [symbolMessage, setSymbolMessage] = useState<string | null>(null);
   const [isIndexing, setIsIndexing] = useState(false);
   const [indexMessage, setIndexMessage] = useState<string | null>(null);
+  // 복구 중인 누락 구간의 시작 시각 (전체 복구는 "all")
+  const [repairingGap, setRepairingGap] = useState<number | "all" | null>(null);
+  const [gapMessage, setGapMessage] = useState<string | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [newSymbolInput, setNewSymbolInput] = useState("");
   const [isAddingSymbol, setIsAddingSymbol] = useState(false);
+  const [mappingSymbolInput, setMappingSymbolInput] = useState("");
+  const [mappingSuggestions, setMappingSuggestions] = useState<
+    SymbolMappingPayload[]
+  >([]);
+  const [isLoadingMappingSuggestions, setIsLoadingMappingSuggestions] =
+    useState(false);
   const [isLoadingSymbols, setIsLoadingSymbols] = useState(true);
 
   // 서버 상태 관련 state
@@ -841,16 +543,165 @@ export default function Home() {
   const [isLoadingHealth, setIsLoadingHealth] = useState(true);
 
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // 자동으로 채운 매핑 값. 사용자가 직접 수정하지 않았을 때만 추천으로 덮어쓴다
+  const autoMappingSymbolRef = useRef("");
 
   const latestCandle = useMemo(() => candles[candles.length - 1], [candles]);
-  const latestBinanceCandle = useMemo(
-    () => binanceCandles[binanceCandles.length - 1],
-    [binanceCandles]
+  // 오실레이터 패널 수만큼 차트 높이를 늘린다
+  const chartWrapperStyle = {
+    "--oscillator-panes": oscillatorConfigs.filter((config) => config.enabled)
+      .length,
+  } as CSSProperties;
+  const candleGaps = useMemo(
+    () =>
+      findCandleGaps(
+        candles.map((candle) => candle.openTime),
+        selectedInterval
+      ),
+    [candles, selectedInterval]
   );
-  const binanceSymbol = useMemo(
-    () => normalizeBinanceSymbol(selectedSymbol),
-    [selectedSymbol]
+  const missingCandleCount = candleGaps.reduce(
+    (sum, gap) => sum + gap.count,
+    0
   );
+  const latestReferenceCandle = useMemo(
+    () => referenceCandles[referenceCandles.length - 1],
+    [referenceCandles]
+  );
+  const referenceExchange = useMemo(
+    () =>
+      exchangeOptions.find((option) => option.id === referenceExchangeId) ??
+      DEFAULT_REFERENCE_EXCHANGE,
+    [exchangeOptions, referenceExchangeId]
+  );
+  const referenceExchangeName = referenceExchange.name;
+
+  // 로컬과 참조 거래소의 호가 통화가 다르면(예: KRW vs USDT) 참조 가격을 로컬 통화로 환산
+  const fxQuote = referenceMapping?.localQuoteAsset ?? null;
+  const isFxApplied = fxQuote !== null && fxRates.length > 0;
+  const comparableReferenceCandles = useMemo(
+    () =>
+      isFxApplied
+        ? convertCandles(referenceCandles, fxRates)
+        : referenceCandles,
+    [fxRates, isFxApplied, referenceCandles]
+  );
+  // 환산이 필요한데 환율이 없으면 가격 축이 달라 겹쳐 그릴 수 없다
+  const canOverlayReference = fxQuote === null || isFxApplied;
+  const referenceOverlays = useMemo<CandleOverlay[]>(
+    () =>
+      chartView === "overlay" && canOverlayReference
+        ? [
+            {
+              id: "reference",
+              label: `${referenceExchangeName} ${referenceSymbol}${
+                isFxApplied ? ` (${fxQuote} 환산)` : ""
+              }`,
+              data: comparableReferenceCandles,
+              style: overlayStyle,
+              color: "#38bdf8",
+            },
+          ]
+        : [],
+    [
+      canOverlayReference,
+      chartView,
+      comparableReferenceCandles,
+      fxQuote,
+      isFxApplied,
+      overlayStyle,
+      referenceExchangeName,
+      referenceSymbol,
+    ]
+  );
+  const latestComparableReferenceCandle =
+    comparableReferenceCandles[comparableReferenceCandles.length - 1];
+  // 환산이 필요한데 환율이 없으면 프리미엄이 의미 없으므로 계산하지 않는다
+  const premiumSeries = useMemo(
+    () =>
+      fxQuote !== null && !isFxApplied
+        ? []
+        : computePremiumSeries(candles, comparableReferenceCandles),
+    [candles, comparableReferenceCandles, fxQuote, isFxApplied]
+  );
+
+  // 화면에 보이는 구간의 전체 캔들을 대사. 진행 중인 참조 캔들부터는 값이 변하므로 제외
+  const reconcileReport = useMemo(() => {
+    if (
+      candles.length === 0 ||
+      comparableReferenceCandles.length === 0 ||
+      (fxQuote !== null && !isFxApplied)
+    ) {
+      return null;
+    }
+    const inProgress = comparableReferenceCandles.find(
+      (candle) => candle.isFinal === false
+    );
+    const end = Math.min(
+      visibleRange?.end ?? Infinity,
+      inProgress ? inProgress.openTime - 1 : Infinity
+    );
+    return reconcileCandles(candles, comparableReferenceCandles, {
+      thresholds: reconcileThresholds,
+      start: visibleRange?.start,
+      end: Number.isFinite(end) ? end : undefined,
+    });
+  }, [
+    candles,
+    comparableReferenceCandles,
+    fxQuote,
+    isFxApplied,
+    reconcileThresholds,
+    visibleRange,
+  ]);
+
+  const activeSymbols = useMemo(
+    () => symbolOptions.map((symbol) => symbol.id),
+    [symbolOptions]
+  );
+  // 활성 심볼 전체(또는 고정한 심볼만) 중 현재 페이지만 표시하고 구독
+  const watchlist = useMemo(
+    () =>
+      getWatchlistPage(
+        activeSymbols,
+        pinnedSymbols,
+        showPinnedOnly,
+        watchlistPage
+      ),
+    [activeSymbols, pinnedSymbols, showPinnedOnly, watchlistPage]
+  );
+  // 알림이 켜진 심볼은 워치리스트에 없어도 알림 평가를 위해 구독한다
+  const alertSymbolsKey = Array.from(
+    new Set(
+      alerts.filter((alert) => alert.enabled).map((alert) => alert.symbol)
+    )
+  )
+    .filter((symbol) => activeSymbols.includes(symbol))
+    .sort()
+    .join(",");
+  const watchlistFeedSymbols = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...watchlist.symbols,
+          ...(alertSymbolsKey ? alertSymbolsKey.split(",") : []),
+        ])
+      ),
+    [alertSymbolsKey, watchlist.symbols]
+  );
+  // 워치리스트 표시와 알림 평가가 같은 구독을 쓴다
+  const { tickers: watchlistTickers, references: watchlistReferences } =
+    useWatchlist(watchlistFeedSymbols, referenceExchange);
+
+  const handlePinnedSymbolsChange = useCallback((next: string[]) => {
+    setPinnedSymbols(next);
+    saveWatchlistSymbols(next);
+  }, []);
+
+  const handleShowPinnedOnlyChange = useCallback((next: boolean) => {
+    setShowPinnedOnly(next);
+    setWatchlistPage(0);
+  }, []);
 
   // Convert symbolOptions to react-select format
   const selectOptions = useMemo(
@@ -872,31 +723,31 @@ export default function Home() {
     );
   }, [selectOptions, selectedSymbol, isLoadingSymbols]);
   const differenceSummary = useMemo(() => {
-    if (!latestCandle || !latestBinanceCandle) {
+    if (!latestCandle || !latestComparableReferenceCandle) {
       return null;
     }
 
     const buildMetric = (
       label: string,
       localValue: number | undefined,
-      binanceValue: number | undefined,
+      referenceValue: number | undefined,
       formatter: "price" | "volume"
     ) => {
       if (
         localValue === undefined ||
         Number.isNaN(localValue) ||
-        binanceValue === undefined ||
-        Number.isNaN(binanceValue)
+        referenceValue === undefined ||
+        Number.isNaN(referenceValue)
       ) {
         return null;
       }
 
-      const diff = binanceValue - localValue;
+      const diff = referenceValue - localValue;
       const percent = localValue === 0 ? null : (diff / localValue) * 100;
       return {
         label,
         localValue,
-        binanceValue,
+        referenceValue,
         diff,
         percent,
         formatter,
@@ -904,73 +755,71 @@ export default function Home() {
     };
 
     const metrics = [
-      buildMetric("시가", latestCandle.open, latestBinanceCandle.open, "price"),
-      buildMetric("고가", latestCandle.high, latestBinanceCandle.high, "price"),
-      buildMetric("저가", latestCandle.low, latestBinanceCandle.low, "price"),
+      buildMetric(
+        "시가",
+        latestCandle.open,
+        latestComparableReferenceCandle.open,
+        "price"
+      ),
+      buildMetric(
+        "고가",
+        latestCandle.high,
+        latestComparableReferenceCandle.high,
+        "price"
+      ),
+      buildMetric(
+        "저가",
+        latestCandle.low,
+        latestComparableReferenceCandle.low,
+        "price"
+      ),
       buildMetric(
         "종가",
         latestCandle.close,
-        latestBinanceCandle.close,
+        latestComparableReferenceCandle.close,
         "price"
       ),
       buildMetric(
         "거래량",
         latestCandle.volume,
-        latestBinanceCandle.volume,
+        latestComparableReferenceCandle.volume,
         "volume"
       ),
     ].filter((value): value is NonNullable<typeof value> => value !== null);
 
     const timeDiffMinutes =
-      (latestBinanceCandle.openTime - latestCandle.openTime) / 60000;
+      (latestComparableReferenceCandle.openTime - latestCandle.openTime) /
+      60000;
 
     return {
       metrics,
       timeDiffMinutes,
       localOpenTime: latestCandle.openTime,
-      binanceOpenTime: latestBinanceCandle.openTime,
+      referenceOpenTime: latestComparableReferenceCandle.openTime,
     };
-  }, [latestBinanceCandle, latestCandle]);
+  }, [latestComparableReferenceCandle, latestCandle]);
 
-  const applyCandles = useCallback((nextCandles: Candle[]) => {
-    setCandles(nextCandles);
+  const syncHistoryFlags = useCallback(() => {
+    const { local, reference } = historyRef.current;
+    setIsLoadingHistory(local.loading || reference.loading);
+    setIsHistoryDetached(local.detached || reference.detached);
   }, []);
 
-  const fetchCandles = useCallback(
-    async (symbol: string, intervalMinutes: number) => {
-      const limit = MAX_CANDLES;
-      const endDate = new Date();
-      const startDate = new Date(
-        endDate.getTime() - intervalMinutes * limit * 60000
-      );
-
-      const data = await fetchGraphQL<{ klines: KlineModel[] }>(
-        `query Klines($input: KlineInput!) {
-        klines(input: $input) {
-          symbol
-          interval
-          candleTime
-          open
-          close
-          high
-          low
-          volume
-        }
-      }`,
-        {
-          input: {
-            symbol,
-            intervalMin: intervalMinutes,
-            limit,
-            start: startDate.toISOString(),
-            end: endDate.toISOString(),
-          },
-        }
-      );
+  const resetHistory = useCallback(
+    (side: HistorySide) => {
+      historyRef.current[side] = createHistoryState();
+      syncHistoryFlags();
+    },
+    [syncHistoryFlags]
+  );
 
-      return mapModelsToCandles(data.klines).slice(-MAX_CANDLES);
+  // 최신 구간으로 캔들을 통째로 교체 (스크롤백 상태도 초기화)
+  const applyCandles = useCallback(
+    (nextCandles: Candle[]) => {
+      resetHistory("local");
+      setCandles(nextCandles);
     },
-    []
+    [resetHistory]
   );
 
   const queueSilentRefresh = useCallback(() => {
@@ -984,14 +833,27 @@ export default function Home() {
 
     refreshTimeoutRef.current = setTimeout(async () => {
       refreshTimeoutRef.current = null;
+      if (historyRef.current.local.detached) {
+        return;
+      }
       try {
-        const refreshed = await fetchCandles(selectedSymbol, selectedInterval);
-        applyCandles(refreshed);
+        const refreshed = await fetchLocalCandles(
+          selectedSymbol,
+          selectedInterval
+        );
+        // 스크롤백으로 불러온 과거 캔들은 유지하고 최신 구간만 덮어쓴다
+        setCandles((previous) =>
+          trimCandles(
+            mergeCandles(previous, refreshed),
+            MAX_LOADED_CANDLES,
+            "newest"
+          )
+        );
       } catch (error) {
         console.error("Failed to refresh aggregated candles", error);
       }
     }, 300);
-  }, [applyCandles, fetchCandles, selectedSymbol, selectedInterval]);
+  }, [selectedSymbol, selectedInterval]);
 
   useEffect(() => {
     return () => {
@@ -1002,6 +864,137 @@ export default function Home() {
     };
   }, []);
 
+  // 환율 기준에 따라 환율 시계열을 준비 (캔들 시계열은 참조 차트와 같은 구간)
+  useEffect(() => {
+    if (!fxQuote || fxSource.type === "none") {
+      setFxRates([]);
+      setFxErrorMessage(null);
+      return;
+    }
+
+    if (fxSource.type === "fixed") {
+      setFxRates(
+        fxSource.rate > 0 ? [{ openTime: 0, rate: fxSource.rate }] : []
+      );
+      setFxErrorMessage(null);
+      return;
+    }
+
+    const source = fxSource;
+    const symbol = source.symbol.trim();
+
+    if (!symbol) {
+      setFxRates([]);
+      setFxErrorMessage(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    // 처음에는 최신 구간으로 교체하고, 주기적 갱신은 스크롤백으로 불러온 과거 환율에 합친다
+    const load = async (replace: boolean) => {
+      try {
+        const rates = await fetchFxRates(source, selectedInterval);
+
+        if (cancelled) {
+          return;
+        }
+
+        setFxRates((previous) =>
+          replace ? rates : mergeCandles(previous, rates)
+        );
+        setFxErrorMessage(
+          rates.length === 0 ? `${symbol} 환율 데이터가 없습니다.` : null
+        );
+      } catch (error) {
+        console.error("Failed to load FX rates", error);
+        if (!cancelled) {
+          setFxRates([]);
+          setFxErrorMessage(
+            `환율 데이터를 불러오지 못했습니다.${
+              error instanceof Error ? ` (${error.message})` : ""
+            }`
+          );
+        }
+      }
+    };
+
+    void load(true);
+    const timer = setInterval(() => void load(false), FX_REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [fxQuote, fxSource, selectedInterval]);
+
+  // 스크롤백으로 불러온 참조 캔들이 환율 시계열보다 오래되면 그 구간의 환율을 앞에 붙인다
+  // (더 불러올 환율이 없으면 시계열이 바뀌지 않아 다시 요청하지 않는다)
+  const oldestReferenceTime = referenceCandles[0]?.openTime;
+  const oldestFxRateTime = fxRates[0]?.openTime;
+  useEffect(() => {
+    if (
+      !fxQuote ||
+      (fxSource.type !== "exchange" && fxSource.type !== "local") ||
+      oldestReferenceTime === undefined ||
+      oldestFxRateTime === undefined ||
+      oldestReferenceTime >= oldestFxRateTime
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchFxRates(fxSource, selectedInterval, oldestFxRateTime - 1)
+      .then((older) => {
+        const page = older.filter((rate) => rate.openTime < oldestFxRateTime);
+        if (!cancelled && page.length > 0) {
+          setFxRates((previous) => mergeCandles(previous, page));
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load older FX rates", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    fxQuote,
+    fxSource,
+    oldestFxRateTime,
+    oldestReferenceTime,
+    selectedInterval,
+  ]);
+
+  // 참조 패널에서 선택할 수 있는 거래소 목록
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchExchanges = async () => {
+      try {
+        const response = await fetch("/api/exchanges");
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`);
+        }
+        const payload = (await response.json()) as {
+          exchanges: ExchangeOption[];
+        };
+        if (!cancelled && payload.exchanges.length > 0) {
+          setExchangeOptions(payload.exchanges);
+        }
+      } catch (error) {
+        console.error("Failed to fetch exchanges", error);
+      }
+    };
+
+    fetchExchanges();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Health API 주기적 호출
   useEffect(() => {
     const fetchHealth = async () => {
@@ -1020,6 +1013,56 @@ export default function Home() {
     return () => clearInterval(interval);
   }, []);
 
+  // 공유 링크 쿼리로 봉 간격, 지표, 보기 방식을 복원 (심볼과 구간은 심볼 목록/캔들을 불러온 뒤 적용)
+  useEffect(() => {
+    const urlState = parseChartUrlState(window.location.search, {
+      indicators: DEFAULT_INDICATOR_CONFIGS,
+      indicatorDefinitions: INDICATOR_DEFINITIONS,
+      oscillators: DEFAULT_OSCILLATOR_CONFIGS,
+      oscillatorDefinitions: OSCILLATOR_DEFINITIONS,
+    });
+    const intervalMinutes =
+      urlState.intervalMinutes &&
+      getIntervalDefinition(urlState.intervalMinutes)
+        ? urlState.intervalMinutes
+        : DEFAULT_INTERVAL_MINUTES;
+
+    pendingLinkRef.current = {
+      symbol: urlState.symbol,
+      intervalMinutes,
+      range: urlState.range,
+    };
+    setSelectedInterval(intervalMinutes);
+    if (urlState.indicators) {
+      setIndicatorConfigs(urlState.indicators);
+    }
+    if (urlState.oscillators) {
+      setOscillatorConfigs(urlState.oscillators);
+    }
+    if (urlState.view) {
+      setChartView(urlState.view);
+    }
+    if (urlState.showVolume !== undefined) {
+      setShowVolume(urlState.showVolume);
+    }
+    if (urlState.grid) {
+      setGridSize(urlState.grid.size);
+      setGridPanels(
+        resizePanels(
+          urlState.grid.panels.filter((panel) =>
+            getIntervalDefinition(panel.intervalMinutes)
+          ),
+          urlState.grid.size,
+          {
+            source: LOCAL_SOURCE,
+            symbol: urlState.symbol ?? "",
+            intervalMinutes,
+          }
+        )
+      );
+    }
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -1042,7 +1085,10 @@ export default function Home() {
         const activeSymbols = data.symbols.filter((item) => item.is_active);
         setSymbolOptions(activeSymbols);
         if (!selectedSymbol && activeSymbols.length > 0) {
-          setSelectedSymbol(activeSymbols[0].id);
+          const linkedSymbol = activeSymbols.find(
+            (item) => item.id === pendingLinkRef.current?.symbol
+          );
+          setSelectedSymbol((linkedSymbol ?? activeSymbols[0]).id);
         }
       } catch (error) {
         console.error("Failed to fetch symbols", error);
@@ -1078,13 +1124,37 @@ export default function Home() {
     setIsStreaming(false);
     setErrorMessage(null);
 
+    // 공유 링크의 구간이 지난 시각이면 그 구간 끝까지의 캔들을 불러오고 실시간 갱신은 멈춘다
+    const link = pendingLinkRef.current;
+    const linkedRange =
+      link?.range &&
+      link.symbol === selectedSymbol &&
+      link.intervalMinutes === selectedInterval
+        ? link.range
+        : null;
+    const end =
+      linkedRange && linkedRange.end < Date.now() ? linkedRange.end : undefined;
+
     const load = async () => {
       try {
-        const mapped = await fetchCandles(selectedSymbol, selectedInterval);
+        const mapped = await fetchLocalCandles(
+          selectedSymbol,
+          selectedInterval,
+          end
+        );
         if (cancelled) {
           return;
         }
+        pendingLinkRef.current = null;
         applyCandles(mapped);
+        if (end !== undefined) {
+          historyRef.current.local.detached = true;
+          syncHistoryFlags();
+        }
+        if (linkedRange) {
+          setInitialRange(linkedRange);
+        }
+        setCandleKey(toCandleKey(selectedSymbol, selectedInterval));
         setIsStreaming(true);
       } catch (error) {
         console.error("Failed to fetch klines", error);
@@ -1101,73 +1171,79 @@ export default function Home() {
     return () => {
       cancelled = true;
     };
-  }, [applyCandles, fetchCandles, selectedInterval, selectedSymbol]);
+  }, [applyCandles, selectedInterval, selectedSymbol, syncHistoryFlags]);
 
   useEffect(() => {
     if (!selectedSymbol) {
-      setBinanceCandles([]);
-      setBinanceStatus("idle");
-      setBinanceErrorMessage(null);
+      setReferenceCandles([]);
+      setReferenceSymbol("");
+      setReferenceMapping(null);
+      setReferenceStatus("idle");
+      setReferenceErrorMessage(null);
       return;
     }
 
-    const intervalCode = BINANCE_INTERVAL_MAP[
-      selectedInterval as keyof typeof BINANCE_INTERVAL_MAP
-    ] as BinanceInterval | undefined;
+    const intervalCode = getIntervalDefinition(selectedInterval)?.binance;
 
     if (!intervalCode) {
-      setBinanceCandles([]);
-      setBinanceStatus("error");
-      setBinanceErrorMessage("지원하지 않는 간격입니다.");
-      return;
-    }
-
-    const normalizedSymbol = normalizeBinanceSymbol(selectedSymbol);
-
-    if (!normalizedSymbol) {
-      setBinanceCandles([]);
-      setBinanceStatus("error");
-      setBinanceErrorMessage("바이낸스 심볼을 확인할 수 없습니다.");
+      setReferenceCandles([]);
+      setReferenceStatus("error");
+      setReferenceErrorMessage("지원하지 않는 간격입니다.");
       return;
     }
 
     let cancelled = false;
-    let source: EventSource | null = null;
+    let unsubscribe: (() => void) | null = null;
+    // 심볼 변환은 서버 어댑터가 담당하므로 캔들 응답을 받은 뒤 스트림 키를 정한다
+    let streamKey = "";
+    // 공유 링크의 구간이 지난 시각이면 로컬 차트처럼 그 구간 끝까지 불러오고 실시간 갱신은 멈춘다
+    const link = pendingLinkRef.current;
+    const linkedEnd =
+      link?.range &&
+      link.symbol === selectedSymbol &&
+      link.intervalMinutes === selectedInterval &&
+      link.range.end < Date.now()
+        ? link.range.end
+        : undefined;
 
     const load = async () => {
-      setBinanceStatus("connecting");
-      setBinanceErrorMessage(null);
+      setReferenceStatus("connecting");
+      setReferenceErrorMessage(null);
 
       try {
-        const response = await fetch(
-          `/api/binance/candles?symbol=${normalizedSymbol}&interval=${intervalCode}`
+        // 로컬 분봉 조회와 같은 시간 구간을 요청하여 두 차트의 범위를 맞춘다
+        const page = await fetchExchangeCandles(
+          { id: referenceExchangeId, name: referenceExchangeName },
+          selectedSymbol,
+          selectedInterval,
+          linkedEnd
         );
 
-        if (!response.ok) {
-          throw new Error(
-            `Failed to fetch Binance candles: ${response.status}`
-          );
-        }
-
-        const payload = (await response.json()) as {
-          candles: BinanceRestCandlePayload[];
-        };
-
         if (cancelled) {
           return;
         }
 
-        const mappedCandles = payload.candles
-          .map((item) => mapBinanceRestCandle(item))
-          .filter((value): value is Candle => value !== null)
-          .slice(-MAX_CANDLES);
+        resetHistory("reference");
+        if (linkedEnd !== undefined) {
+          historyRef.current.reference.detached = true;
+          syncHistoryFlags();
+        }
 
-        setBinanceCandles(mappedCandles);
+        streamKey = `${page.symbol}@${intervalCode}`;
+        setReferenceSymbol(page.symbol);
+        setReferenceMapping(page.mapping);
+        setReferenceCandles(page.candles.slice(-MAX_CANDLES));
+        setReferenceCandleKey(toCandleKey(selectedSymbol, selectedInterval));
       } catch (error) {
-        console.error("Failed to load Binance candles", error);
+        console.error(`Failed to load ${referenceExchangeName} candles`, error);
         if (!cancelled) {
-          setBinanceStatus("error");
-          setBinanceErrorMessage("바이낸스 데이터를 불러오지 못했습니다.");
+          setReferenceCandles([]);
+          setReferenceStatus("error");
+          setReferenceErrorMessage(
+            error instanceof Error
+              ? error.message
+              : describeExchangeError(null, referenceExchangeName)
+          );
         }
         return;
       }
@@ -1176,75 +1252,53 @@ export default function Home() {
         return;
       }
 
-      source = new EventSource(
-        `/api/binance/stream?symbol=${normalizedSymbol}&interval=${intervalCode}`
-      );
-
-      source.onopen = () => {
-        if (!cancelled) {
-          setBinanceStatus("connected");
-        }
-      };
-
-      source.onmessage = (event) => {
-        if (cancelled || !event.data) {
-          return;
-        }
-
-        try {
-          const parsed = JSON.parse(event.data) as {
-            candle?: BinanceStreamCandlePayload;
-          };
-
-          if (!parsed.candle) {
-            return;
-          }
+      connect();
+    };
 
-          const candle = mapBinanceStreamCandle(parsed.candle);
-          if (!candle) {
+    // 그리드 패널, 워치리스트와 같은 공유 연결로 구독하고, 끊기면 허브가 스트림별 마지막 캔들부터 이어 받는다
+    const connect = () => {
+      unsubscribe = getExchangeStream(
+        referenceExchangeId
+      ).subscribe<ExchangeCandlePayload>(streamKey, {
+        onCandle: (payload) => {
+          const candle = mapExchangeCandle(payload);
+          if (cancelled || !candle || historyRef.current.reference.detached) {
             return;
           }
-
-          setBinanceCandles((previous) => {
-            if (previous.length === 0) {
-              return [candle];
-            }
-
-            const existingIndex = previous.findIndex(
-              (item) => item.openTime === candle.openTime
-            );
-
-            if (existingIndex !== -1) {
-              const next = [...previous];
-              next[existingIndex] = candle;
-              return next;
-            }
-
-            const next = [...previous.slice(-(MAX_CANDLES - 1)), candle];
-            return next.sort((a, b) => a.openTime - b.openTime);
-          });
-        } catch (error) {
-          console.error("Failed to parse Binance stream payload", error);
-        }
-      };
-
-      source.onerror = (event) => {
-        console.error("Binance stream error", event);
-        source?.close();
-        if (!cancelled) {
-          setBinanceStatus("error");
-          setBinanceErrorMessage("바이낸스 실시간 연결이 끊어졌습니다.");
-        }
-      };
+          setReferenceCandles((previous) =>
+            upsertLiveCandle(previous, candle, getLiveCandleBudget(previous))
+          );
+        },
+        onStatus: (status) => {
+          if (cancelled) {
+            return;
+          }
+          setReferenceStatus(
+            status === "connected" ? "connected" : "connecting"
+          );
+          setReferenceErrorMessage(
+            status === "reconnecting"
+              ? `${referenceExchangeName} 실시간 연결이 끊어졌습니다. 재연결 중입니다…`
+              : null
+          );
+        },
+      });
     };
 
     void load();
 
     return () => {
       cancelled = true;
-      source?.close();
+      unsubscribe?.();
     };
-  }, [selectedInterval, selectedSymbol]);
+  }, [
+    referenceExchangeId,
+    referenceExchangeName,
+    resetHistory,
+    selectedInterval,
+    selectedSymbol,
+    syncHistoryFlags,
+  ]);
 
   useEffect(() => {
     if (!selectedSymbol) {
@@ -1253,24 +1307,16 @@ export default function Home() {
 
     let active = true;
     const client = getWsClient();
+    // 주/월봉은 일봉 업데이트를 받아 다시 집계한다
+    const localInterval =
+      getIntervalDefinition(selectedInterval)?.localMinutes ?? selectedInterval;
 
     const dispose = client.subscribe(
       {
-        query: `subscription KlineUpdated($symbol: String!, $interval: Float!) {
-          klineUpdated(symbol: $symbol, interval: $interval) {
-            symbol
-            interval
-            candleTime
-            open
-            high
-            low
-            close
-            volume
-          }
-        }`,
+        query: KLINE_UPDATED_SUBSCRIPTION,
         variables: {
           symbol: selectedSymbol,
-          interval: selectedInterval,
+          interval: localInterval,
         },
       },
       {
@@ -1293,7 +1339,7 @@ export default function Home() {
             return;
           }
 
-          if (payload.interval !== selectedInterval) {
+          if (payload.interval !== localInterval) {
             return;
           }
 
@@ -1302,28 +1348,14 @@ export default function Home() {
             return;
           }
 
+          if (historyRef.current.local.detached) {
+            return;
+          }
+
           if (selectedInterval === 1) {
-            setCandles((previous) => {
-              if (previous.length === 0) {
-                return [candle];
-              }
-
-              const existingIndex = previous.findIndex(
-                (item) => item.openTime === candle.openTime
-              );
-
-              if (existingIndex !== -1) {
-                const nextCandles = [...previous];
-                nextCandles[existingIndex] = candle;
-                return nextCandles;
-              }
-
-              const nextCandles = [
-                ...previous.slice(-(MAX_CANDLES - 1)),
-                candle,
-              ];
-              return nextCandles.sort((a, b) => a.openTime - b.openTime);
-            });
+            setCandles((previous) =>
+              upsertLiveCandle(previous, candle, getLiveCandleBudget(previous))
+            );
           } else {
             queueSilentRefresh();
           }
@@ -1370,12 +1402,35 @@ export default function Home() {
 
     try {
       const newSymbol = await insertSymbol({ symbol: newSymbolInput.trim() });
+      const mappingSymbol = mappingSymbolInput.trim();
+      let mappingError: string | null = null;
+
+      if (mappingSymbol) {
+        try {
+          await saveSymbolMapping(
+            referenceExchangeId,
+            newSymbol.id,
+            mappingSymbol
+          );
+        } catch (error) {
+          console.error("Failed to save symbol mapping", error);
+          mappingError =
+            error instanceof Error ? error.message : "알 수 없는 오류";
+        }
+      }
 
       // Add to symbol options
       setSymbolOptions((prev) => [...prev, newSymbol]);
       setNewSymbolInput("");
+      setMappingSymbolInput("");
+      setMappingSuggestions([]);
+      autoMappingSymbolRef.current = "";
       setIsAddModalOpen(false);
-      setSymbolMessage(`심볼 "${newSymbol.id}"이 성공적으로 추가되었습니다.`);
+      setSymbolMessage(
+        mappingError
+          ? `심볼 "${newSymbol.id}"은 추가되었지만 ${referenceExchangeName} 매핑 저장에 실패했습니다. (${mappingError})`
+          : `심볼 "${newSymbol.id}"이 성공적으로 추가되었습니다.`
+      );
 
       // Clear success message after 3 seconds
       setTimeout(() => setSymbolMessage(null), 3000);
@@ -1390,9 +1445,62 @@ export default function Home() {
   const handleCloseModal = () => {
     setIsAddModalOpen(false);
     setNewSymbolInput("");
+    setMappingSymbolInput("");
+    setMappingSuggestions([]);
+    autoMappingSymbolRef.current = "";
     setSymbolMessage(null);
   };
 
+  // 입력한 로컬 심볼에 맞는 거래소 마켓을 추천받아 매핑 입력란을 채운다
+  useEffect(() => {
+    const localSymbol = newSymbolInput.trim();
+
+    if (!isAddModalOpen || !localSymbol) {
+      setMappingSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoadingMappingSuggestions(true);
+      try {
+        const suggestions = await fetchSymbolMappingSuggestions(
+          referenceExchangeId,
+          localSymbol
+        );
+        if (cancelled) {
+          return;
+        }
+        setMappingSuggestions(suggestions);
+        setMappingSymbolInput((current) => {
+          if (current && current !== autoMappingSymbolRef.current) {
+            return current;
+          }
+          autoMappingSymbolRef.current = suggestions[0]?.symbol ?? "";
+          return autoMappingSymbolRef.current;
+        });
+      } catch (error) {
+        console.error("Failed to fetch symbol mapping suggestions", error);
+        if (!cancelled) {
+          setMappingSuggestions([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingMappingSuggestions(false);
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isAddModalOpen, newSymbolInput, referenceExchangeId]);
+
+  const selectedMappingSuggestion = mappingSuggestions.find(
+    (item) => item.symbol === mappingSymbolInput.trim().toUpperCase()
+  );
+
   // Handle ESC key to close modal
   useEffect(() => {
     const handleEscKey = (event: KeyboardEvent) => {
@@ -1440,6 +1548,61 @@ export default function Home() {
     }
   };
 
+  // 누락 구간만 다시 인덱싱한 뒤 차트를 새로 불러온다
+  const handleRepairGaps = async (gaps: CandleGap[]) => {
+    if (!selectedSymbol || gaps.length === 0) {
+      return;
+    }
+
+    setRepairingGap(gaps.length === 1 ? gaps[0].start : "all");
+    setGapMessage(null);
+
+    if (!(await supportsRangeIndexing())) {
+      setGapMessage(
+        "백엔드가 구간 인덱싱을 지원하지 않습니다. indexKline(symbol, start, end) 뮤테이션이 필요합니다. (README 참고)"
+      );
+      setRepairingGap(null);
+      return;
+    }
+
+    let failed = 0;
+    let lastError: string | null = null;
+    for (const gap of gaps) {
+      try {
+        const success = await indexKline(selectedSymbol, {
+          start: gap.start,
+          end: addIntervals(gap.end, selectedInterval, 1) - 1,
+        });
+        if (!success) {
+          failed += 1;
+        }
+      } catch (error) {
+        console.error("Failed to repair candle gap", gap, error);
+        failed += 1;
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    try {
+      const refreshedCandles = await fetchLocalCandles(
+        selectedSymbol,
+        selectedInterval
+      );
+      applyCandles(refreshedCandles);
+    } catch (refreshError) {
+      console.error("Failed to refresh chart after gap repair", refreshError);
+    }
+
+    setGapMessage(
+      failed === 0
+        ? `누락 구간 ${gaps.length}개의 재인덱싱을 요청했습니다.`
+        : `누락 구간 ${gaps.length}개 중 ${failed}개의 재인덱싱에 실패했습니다.${
+            lastError ? ` (${lastError})` : ""
+          }`
+    );
+    setRepairingGap(null);
+  };
+
   const handleIndexKline = async () => {
     if (!selectedSymbol) {
       setIndexMessage("인덱싱할 심볼을 먼저 선택해주세요.");
@@ -1459,7 +1622,7 @@ export default function Home() {
 
         // Refresh chart data after successful indexing
         try {
-          const refreshedCandles = await fetchCandles(
+          const refreshedCandles = await fetchLocalCandles(
             selectedSymbol,
             selectedInterval
           );
@@ -1488,19 +1651,390 @@ export default function Home() {
     }
   };
 
+  // 참조 거래소 캔들 한 페이지 (end 이전 MAX_CANDLES개 구간)
+  const fetchReferencePage = async (end: number): Promise<Candle[]> =>
+    (
+      await fetchExchangeCandles(
+        { id: referenceExchangeId, name: referenceExchangeName },
+        selectedSymbol,
+        selectedInterval,
+        end
+      )
+    ).candles;
+
+  // 가장 오래된 캔들 이전 페이지를 불러와 앞에 붙인다.
+  // 메모리 예산을 넘으면 반대쪽(최신) 캔들을 비우고 실시간 갱신을 멈춘다
+  const loadOlderCandles = async (side: HistorySide) => {
+    const state = historyRef.current[side];
+    const current = side === "local" ? candles : referenceCandles;
+    const setSideCandles = side === "local" ? setCandles : setReferenceCandles;
+    const oldest = current[0];
+
+    if (!selectedSymbol || !oldest || state.loading || state.exhausted) {
+      return;
+    }
+
+    state.loading = true;
+    syncHistoryFlags();
+
+    try {
+      const page = (
+        side === "local"
+          ? await fetchLocalCandles(
+              selectedSymbol,
+              selectedInterval,
+              oldest.openTime - 1
+            )
+          : await fetchReferencePage(oldest.openTime - 1)
+      ).filter((candle) => candle.openTime < oldest.openTime);
+
+      // 그 사이 심볼/간격이 바뀌어 상태가 초기화됐으면 버린다
+      if (historyRef.current[side] !== state) {
+        return;
+      }
+      if (page.length === 0) {
+        state.exhausted = true;
+        return;
+      }
+      if (current.length + page.length > MAX_LOADED_CANDLES) {
+        state.detached = true;
+      }
+
+      setSideCandles((previous) =>
+        trimCandles(mergeCandles(previous, page), MAX_LOADED_CANDLES, "oldest")
+      );
+    } catch (error) {
+      console.error(`Failed to load older ${side} candles`, error);
+    } finally {
+      state.loading = false;
+      syncHistoryFlags();
+    }
+  };
+
+  const isNearOldestCandle = (range: VisibleRange, list: Candle[]) =>
+    list.length > 0 &&
+    range.start <=
+      addIntervals(
+        list[0].openTime,
+        selectedInterval,
+        SCROLL_BACK_MARGIN_CANDLES
+      );
+
+  const handleLocalVisibleRangeChange = (range: VisibleRange | null) => {
+    setVisibleRange(range);
+    if (!range) {
+      return;
+    }
+    if (isNearOldestCandle(range, candles)) {
+      void loadOlderCandles("local");
+    }
+    // 겹쳐 보기에서는 참조 캔들도 같은 구간까지 불러온다
+    if (
+      chartView === "overlay" &&
+      isNearOldestCandle(range, referenceCandles)
+    ) {
+      void loadOlderCandles("reference");
+    }
+  };
+
+  const handleReferenceVisibleRangeChange = (range: VisibleRange | null) => {
+    if (range && isNearOldestCandle(range, referenceCandles)) {
+      void loadOlderCandles("reference");
+    }
+  };
+
+  // 비웠던 최신 캔들을 다시 불러오고 실시간 갱신을 재개
+  const handleReturnToLatest = async () => {
+    if (!selectedSymbol) {
+      return;
+    }
+
+    try {
+      if (historyRef.current.local.detached) {
+        applyCandles(await fetchLocalCandles(selectedSymbol, selectedInterval));
+      }
+      if (historyRef.current.reference.detached) {
+        const latest = await fetchReferencePage(Date.now());
+        resetHistory("reference");
+        setReferenceCandles(latest.slice(-MAX_CANDLES));
+      }
+      setChartResetKey((key) => key + 1);
+    } catch (error) {
+      console.error("Failed to reload latest candles", error);
+    }
+  };
+
+  // 심볼/봉 간격이 바뀌면 그 조합으로 저장된 그림을 불러온다
+  useEffect(() => {
+    setDrawings(
+      selectedSymbol ? loadDrawings(selectedSymbol, selectedInterval) : []
+    );
+    setDrawingMessage(null);
+  }, [selectedSymbol, selectedInterval]);
+
+  const handleDrawingsChange = useCallback(
+    (next: Drawing[]) => {
+      setDrawings(next);
+      if (selectedSymbol) {
+        saveDrawings(selectedSymbol, selectedInterval, next);
+      }
+    },
+    [selectedSymbol, selectedInterval]
+  );
+
+  const handleExportDrawings = () => {
+    const blob = new Blob(
+      [serializeDrawings(selectedSymbol, selectedInterval, drawings)],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `drawings-${selectedSymbol}-${selectedInterval}m.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // 파일에 적힌 심볼/봉 간격의 저장소에 합치고, 지금 보는 차트면 바로 반영
+  const handleImportDrawings = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const imported = parseDrawingExport(await file.text());
+      const merged = mergeDrawings(
+        loadDrawings(imported.symbol, imported.intervalMinutes),
+        imported.drawings
+      );
+      saveDrawings(imported.symbol, imported.intervalMinutes, merged);
+      if (
+        imported.symbol === selectedSymbol &&
+        imported.intervalMinutes === selectedInterval
+      ) {
+        setDrawings(merged);
+      }
+      setDrawingMessage(
+        `${imported.symbol} ${formatIntervalLabel(
+          imported.intervalMinutes
+        )}봉 그림 ${imported.drawings.length}개를 가져왔습니다.`
+      );
+    } catch (error) {
+      setDrawingMessage(
+        `그림을 가져오지 못했습니다: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  useEffect(() => {
+    setAlerts(loadAlerts());
+    setPinnedSymbols(loadWatchlistSymbols());
+    setNotificationState(getNotificationState());
+    setChartLayouts(loadLayouts());
+  }, []);
+
+  // 현재 차트 상태를 주소창 쿼리에 반영 (히스토리는 쌓지 않는다).
+  // 선택한 심볼의 캔들을 불러오기 전에는 공유 링크의 구간이 남도록 덮어쓰지 않는다
+  useEffect(() => {
+    if (candleKey !== toCandleKey(selectedSymbol, selectedInterval)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const search = buildChartUrlSearch(
+        {
+          symbol: selectedSymbol,
+          intervalMinutes: selectedInterval,
+          range: visibleRange,
+          indicators: indicatorConfigs,
+          oscillators: oscillatorConfigs,
+          view: chartView,
+          showVolume,
+          grid: gridSize
+            ? { size: gridSize, panels: gridPanels.map(toPanelConfig) }
+            : null,
+        },
+        {
+          indicatorDefinitions: INDICATOR_DEFINITIONS,
+          oscillatorDefinitions: OSCILLATOR_DEFINITIONS,
+        }
+      );
+      window.history.replaceState(
+        null,
+        "",
+        `${window.location.pathname}?${search}`
+      );
+    }, URL_UPDATE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [
+    candleKey,
+    chartView,
+    gridPanels,
+    gridSize,
+    indicatorConfigs,
+    oscillatorConfigs,
+    selectedInterval,
+    selectedSymbol,
+    showVolume,
+    visibleRange,
+  ]);
+
+  const handleGridChange = useCallback(
+    (size: GridSize | null, panels: GridPanel[]) => {
+      setGridSize(size);
+      setGridPanels(panels);
+    },
+    []
+  );
+
+  const handleChartLayoutsChange = useCallback((next: ChartLayout[]) => {
+    setChartLayouts(next);
+    saveLayouts(next);
+  }, []);
+
+  const handleAlertsChange = useCallback((next: AlertDefinition[]) => {
+    setAlerts(next);
+    saveAlerts(next);
+  }, []);
+
+  // 실시간 캔들이 갱신될 때마다 알림 조건을 심볼별로 평가.
+  // 선택한 심볼은 차트 캔들(환산한 참조 캔들 포함), 나머지는 워치리스트 1분봉으로 평가한다.
+  // N봉 변동률은 알림에 저장된 간격의 캔들로만 평가 (차트 간격이 다르면 1분봉을 집계)
+  useEffect(() => {
+    const key = toCandleKey(selectedSymbol, selectedInterval);
+    const triggers: AlertTrigger[] = [];
+
+    if (selectedSymbol && candleKey === key) {
+      triggers.push(
+        ...alertEvaluator.evaluate(alerts, {
+          symbol: selectedSymbol,
+          intervalMinutes: selectedInterval,
+          candles,
+          minuteCandles: watchlistTickers[selectedSymbol]?.minutes ?? [],
+          referenceCandles:
+            canOverlayReference && referenceCandleKey === key
+              ? comparableReferenceCandles
+              : [],
+        })
+      );
+    }
+
+    new Set(
+      alerts
+        .filter((alert) => alert.enabled && alert.symbol !== selectedSymbol)
+        .map((alert) => alert.symbol)
+    ).forEach((symbol) => {
+      const reference = watchlistReferences[symbol];
+      const minutes = watchlistTickers[symbol]?.minutes ?? [];
+      triggers.push(
+        ...alertEvaluator.evaluate(alerts, {
+          symbol,
+          intervalMinutes: 1,
+          candles: minutes,
+          minuteCandles: minutes,
+          referenceCandles: reference?.comparable ? reference.minutes : [],
+        })
+      );
+    });
+
+    if (triggers.length === 0) {
+      return;
+    }
+
+    setAlertLog((previous) =>
+      [...triggers, ...previous].slice(0, MAX_ALERT_LOG)
+    );
+    triggers.forEach(showAlertNotification);
+
+    // 반복하지 않는 알림은 한 번 울린 뒤 끈다
+    const fired = new Set(triggers.map((trigger) => trigger.alertId));
+    if (alerts.some((alert) => fired.has(alert.id) && !alert.repeat)) {
+      handleAlertsChange(
+        alerts.map((alert) =>
+          fired.has(alert.id) && !alert.repeat
+            ? { ...alert, enabled: false }
+            : alert
+        )
+      );
+    }
+  }, [
+    alertEvaluator,
+    alerts,
+    candleKey,
+    candles,
+    canOverlayReference,
+    comparableReferenceCandles,
+    handleAlertsChange,
+    referenceCandleKey,
+    selectedInterval,
+    selectedSymbol,
+    watchlistReferences,
+    watchlistTickers,
+  ]);
+
+  const handleAddAlert = (condition: AlertCondition, repeat: boolean) => {
+    handleAlertsChange([
+      ...alerts,
+      {
+        id: createId(),
+        symbol: selectedSymbol,
+        condition,
+        repeat,
+        enabled: true,
+        createdAt: Date.now(),
+      },
+    ]);
+  };
+
+  const handleRequestNotifications = async () => {
+    if (getNotificationState() === "unsupported") {
+      return;
+    }
+    setNotificationState(await Notification.requestPermission());
+  };
+
+  const handleReferenceExchangeChange = (
+    event: ChangeEvent<HTMLSelectElement>
+  ) => {
+    setReferenceExchangeId(event.target.value);
+  };
+
+  const updateIndicatorConfig = (
+    type: IndicatorType,
+    update: (config: IndicatorConfig) => IndicatorConfig
+  ) => {
+    setIndicatorConfigs((prev) =>
+      prev.map((config) => (config.type === type ? update(config) : config))
+    );
+  };
+
+  const updateOscillatorConfig = (
+    type: OscillatorType,
+    update: (config: OscillatorConfig) => OscillatorConfig
+  ) => {
+    setOscillatorConfigs((prev) =>
+      prev.map((config) => (config.type === type ? update(config) : config))
+    );
+  };
+
   const intervalSelectValue = String(selectedInterval);
   const graphQlStatusClass = isStreaming
     ? styles.connected
     : styles.disconnected;
   const graphQlStatusText = isStreaming ? "실시간 연결됨" : "연결 대기 중";
-  const binanceStatusClass =
-    binanceStatus === "connected"
+  const referenceStatusClass =
+    referenceStatus === "connected"
       ? styles.connected
-      : binanceStatus === "connecting"
+      : referenceStatus === "connecting"
       ? styles.pending
       : styles.disconnected;
-  const binanceStatusText = (() => {
-    switch (binanceStatus) {
+  const referenceStatusText = (() => {
+    switch (referenceStatus) {
       case "connected":
         return "실시간 연결됨";
       case "connecting":
@@ -1599,13 +2133,61 @@ export default function Home() {
                 value={intervalSelectValue}
                 onChange={handleIntervalChange}
               >
-                {INTERVAL_OPTIONS.map((option) => (
-                  <option key={option} value={option}>
-                    {option}분
+                {INTERVALS.map((option) => (
+                  <option key={option.minutes} value={option.minutes}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.selector}>
+              <span>참조 거래소</span>
+              <select
+                value={referenceExchangeId}
+                onChange={handleReferenceExchangeChange}
+              >
+                {exchangeOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
                   </option>
                 ))}
               </select>
             </label>
+            <label className={styles.selector}>
+              <span>차트 보기</span>
+              <select
+                value={chartView}
+                onChange={(e) =>
+                  setChartView(e.target.value as "split" | "overlay")
+                }
+              >
+                <option value="split">나란히</option>
+                <option value="overlay">겹쳐 보기</option>
+              </select>
+            </label>
+            {chartView === "overlay" && (
+              <label className={styles.selector}>
+                <span>참조 표시</span>
+                <select
+                  value={overlayStyle}
+                  onChange={(e) =>
+                    setOverlayStyle(e.target.value as CandleOverlay["style"])
+                  }
+                >
+                  <option value="line">종가 선</option>
+                  <option value="ohlc">OHLC</option>
+                </select>
+              </label>
+            )}
+            <label className={styles.fxCheckbox}>
+              <input
+                type="checkbox"
+                disabled={chartView === "overlay"}
+                checked={isChartLinked}
+                onChange={(e) => setIsChartLinked(e.target.checked)}
+              />
+              차트 연동
+            </label>
           </div>
         </header>
 
@@ -1650,6 +2232,40 @@ export default function Home() {
                     autoFocus
                   />
                 </div>
+                <div className={styles.modalInputGroup}>
+                  <label htmlFor="mappingSymbolInput">
+                    {referenceExchangeName} 마켓 매핑
+                  </label>
+                  <input
+                    id="mappingSymbolInput"
+                    type="text"
+                    list="mappingSuggestions"
+                    value={mappingSymbolInput}
+                    onChange={(e) => setMappingSymbolInput(e.target.value)}
+                    placeholder={
+                      isLoadingMappingSuggestions
+                        ? "추천 마켓을 찾는 중..."
+                        : "비워두면 자동 추천 마켓을 사용합니다"
+                    }
+                    className={styles.modalInput}
+                    disabled={isAddingSymbol}
+                  />
+                  <datalist id="mappingSuggestions">
+                    {mappingSuggestions.map((item) => (
+                      <option key={item.symbol} value={item.symbol}>
+                        {item.baseAsset}/{item.quoteAsset}
+                      </option>
+                    ))}
+                  </datalist>
+                  {selectedMappingSuggestion && (
+                    <span className={styles.modalHint}>
+                      {selectedMappingSuggestion.baseAsset}/
+                      {selectedMappingSuggestion.quoteAsset} 마켓
+                      {selectedMappingSuggestion.localQuoteAsset &&
+                        ` · ${selectedMappingSuggestion.localQuoteAsset} 환산 필요`}
+                    </span>
+                  )}
+                </div>
                 {symbolMessage && (
                   <div className={styles.modalMessage}>{symbolMessage}</div>
                 )}
@@ -1678,7 +2294,71 @@ export default function Home() {
           <div className={styles.chartHeader}>
             <div>
               <h2>{selectedSymbol || "심볼을 선택하세요"}</h2>
-              <p>{selectedInterval}분 봉 기준 실시간 데이터</p>
+              <p>
+                {formatIntervalLabel(selectedInterval)} 봉 기준 실시간 데이터
+              </p>
+              <div className={styles.indicatorControls}>
+                <label className={styles.fxCheckbox}>
+                  <input
+                    type="checkbox"
+                    checked={showVolume}
+                    onChange={(e) => setShowVolume(e.target.checked)}
+                  />
+                  거래량
+                </label>
+                {INDICATOR_DEFINITIONS.map((definition) => {
+                  const config = indicatorConfigs.find(
+                    (item) => item.type === definition.type
+                  );
+                  return (
+                    config && (
+                      <IndicatorToggle
+                        key={definition.type}
+                        definition={definition}
+                        config={config}
+                        onToggle={(enabled) =>
+                          updateIndicatorConfig(definition.type, (item) => ({
+                            ...item,
+                            enabled,
+                          }))
+                        }
+                        onParamChange={(key, value) =>
+                          updateIndicatorConfig(definition.type, (item) => ({
+                            ...item,
+                            params: { ...item.params, [key]: value },
+                          }))
+                        }
+                      />
+                    )
+                  );
+                })}
+                {OSCILLATOR_DEFINITIONS.map((definition) => {
+                  const config = oscillatorConfigs.find(
+                    (item) => item.type === definition.type
+                  );
+                  return (
+                    config && (
+                      <IndicatorToggle
+                        key={definition.type}
+                        definition={definition}
+                        config={config}
+                        onToggle={(enabled) =>
+                          updateOscillatorConfig(definition.type, (item) => ({
+                            ...item,
+                            enabled,
+                          }))
+                        }
+                        onParamChange={(key, value) =>
+                          updateOscillatorConfig(definition.type, (item) => ({
+                            ...item,
+                            params: { ...item.params, [key]: value },
+                          }))
+                        }
+                      />
+                    )
+                  );
+                })}
+              </div>
             </div>
             <div className={styles.chartMeta}>
               <div className={styles.statusRow}>
@@ -1689,199 +2369,215 @@ export default function Home() {
                 <span className={styles.statusText}>{graphQlStatusText}</span>
               </div>
               {latestCandle && (
-                <div className={styles.priceSnapshot}>
-                  <div className={styles.ohlcvGrid}>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>시가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestCandle.open)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>고가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestCandle.high)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>저가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestCandle.low)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>종가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestCandle.close)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>거래량</span>
-                      <strong className={styles.ohlcvValue}>
-                        {volumeFormatter.format(latestCandle.volume)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>시간</span>
-                      <span className={styles.ohlcvTime}>
-                        {timeFormatter.format(latestCandle.openTime)}
-                      </span>
-                    </div>
-                  </div>
-                </div>
+                <CandleSnapshot
+                  candle={latestCandle}
+                  intervalMinutes={selectedInterval}
+                />
               )}
             </div>
           </div>
-          <div className={styles.chartWrapper}>
+          <div className={styles.chartWrapper} style={chartWrapperStyle}>
             <MinuteChart
               data={candles}
               symbol={selectedSymbol}
               intervalMinutes={selectedInterval}
+              onVisibleRangeChange={handleLocalVisibleRangeChange}
+              gaps={candleGaps}
+              indicators={indicatorConfigs}
+              oscillators={oscillatorConfigs}
+              showVolume={showVolume}
+              sync={isChartLinked ? chartSync : null}
+              syncId="local"
+              overlays={referenceOverlays}
+              showCloseDelta={referenceOverlays.length > 0}
+              resetKey={chartResetKey}
+              initialRange={initialRange}
+              drawings={drawings}
+              drawingTool={drawingTool}
+              snapDrawings={snapDrawings}
+              onDrawingsChange={handleDrawingsChange}
             />
           </div>
+          <DrawingToolbar
+            tool={drawingTool}
+            snap={snapDrawings}
+            drawingCount={drawings.length}
+            disabled={!selectedSymbol}
+            message={drawingMessage}
+            onToolChange={setDrawingTool}
+            onSnapChange={setSnapDrawings}
+            onExport={handleExportDrawings}
+            onImport={handleImportDrawings}
+            onClear={() => handleDrawingsChange([])}
+          />
+          {(isLoadingHistory || isHistoryDetached) && (
+            <div className={styles.historyBar}>
+              {isLoadingHistory && <span>이전 캔들을 불러오는 중…</span>}
+              {isHistoryDetached && (
+                <>
+                  <span>
+                    캔들이 {MAX_LOADED_CANDLES.toLocaleString()}개를 넘어 최신
+                    구간을 비웠습니다. 실시간 갱신이 멈춰 있습니다.
+                  </span>
+                  <button
+                    onClick={handleReturnToLatest}
+                    className={styles.smallButton}
+                  >
+                    최신 캔들로 돌아가기
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {chartView === "overlay" && !canOverlayReference && (
+            <p className={styles.fxHint}>
+              참조 시세가 {referenceMapping?.quoteAsset} 기준이라 겹쳐 보려면
+              아래에서 {fxQuote} 환율 기준을 설정하세요.
+            </p>
+          )}
           {errorMessage && (
             <p className={styles.errorMessage}>{errorMessage}</p>
           )}
-        </section>
-
-        <section className={styles.chartCard}>
-          <div className={styles.chartHeader}>
-            <div>
-              <h2>{binanceSymbol || "Binance 심볼"}</h2>
-              <p>Binance {selectedInterval}분 봉 실시간 데이터</p>
-            </div>
-            <div className={styles.chartMeta}>
-              <div className={styles.statusRow}>
-                <span
-                  className={`${styles.statusDot} ${binanceStatusClass}`}
-                  aria-hidden
-                />
-                <span className={styles.statusText}>{binanceStatusText}</span>
+          {candleGaps.length > 0 && (
+            <div className={styles.gapPanel}>
+              <div className={styles.gapPanelHeader}>
+                <strong>
+                  누락 캔들 {missingCandleCount}개 ({candleGaps.length}개 구간)
+                </strong>
+                <button
+                  onClick={() => handleRepairGaps(candleGaps)}
+                  disabled={repairingGap !== null}
+                  className={styles.smallButton}
+                >
+                  {repairingGap === "all" ? "복구 중..." : "전체 복구"}
+                </button>
               </div>
-              {latestBinanceCandle && (
-                <div className={styles.priceSnapshot}>
-                  <div className={styles.ohlcvGrid}>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>시가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestBinanceCandle.open)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>고가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestBinanceCandle.high)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>저가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestBinanceCandle.low)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>종가</span>
-                      <strong className={styles.ohlcvValue}>
-                        {priceFormatter.format(latestBinanceCandle.close)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>거래량</span>
-                      <strong className={styles.ohlcvValue}>
-                        {volumeFormatter.format(latestBinanceCandle.volume)}
-                      </strong>
-                    </div>
-                    <div className={styles.ohlcvItem}>
-                      <span className={styles.ohlcvLabel}>시간</span>
-                      <span className={styles.ohlcvTime}>
-                        {timeFormatter.format(latestBinanceCandle.openTime)}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-          </div>
-          <div className={styles.chartWrapper}>
-            <MinuteChart
-              data={binanceCandles}
-              symbol={binanceSymbol}
-              intervalMinutes={selectedInterval}
-            />
-          </div>
-          {binanceErrorMessage && (
-            <p className={styles.errorMessage}>{binanceErrorMessage}</p>
-          )}
-        </section>
-
-        <section className={styles.comparisonCard}>
-          <h3>데이터 차이 요약</h3>
-          {differenceSummary ? (
-            <ul className={styles.differenceList}>
-              {differenceSummary.metrics.map((metric) => {
-                const formatter =
-                  metric.formatter === "price"
-                    ? priceFormatter
-                    : volumeFormatter;
-                const formattedLocal = formatter.format(metric.localValue);
-                const formattedBinance = formatter.format(metric.binanceValue);
-                const formattedDiff = formatter.format(metric.diff);
-                const formattedPercent =
-                  metric.percent === null
-                    ? null
-                    : `${
-                        metric.percent >= 0 ? "+" : ""
-                      }${percentFormatter.format(Math.abs(metric.percent))}%`;
-
-                return (
-                  <li key={metric.label}>
-                    <strong>{metric.label}</strong>
+              <ul className={styles.gapList}>
+                {candleGaps.map((gap) => (
+                  <li key={gap.start}>
                     <span>
-                      로컬 {formattedLocal} · Binance {formattedBinance}{" "}
-                      <em>
-                        ({metric.diff >= 0 ? "+" : ""}
-                        {formattedDiff}
-                        {formattedPercent && ` / ${formattedPercent}`})
-                      </em>
+                      {formatCandleTime(gap.start, selectedInterval)}
+                      {gap.count > 1 &&
+                        ` ~ ${formatCandleTime(
+                          gap.end,
+                          selectedInterval
+                        )}`}{" "}
+                      <em>({gap.count}개)</em>
                     </span>
+                    <button
+                      onClick={() => handleRepairGaps([gap])}
+                      disabled={repairingGap !== null}
+                      className={styles.smallButton}
+                    >
+                      {repairingGap === gap.start ? "복구 중..." : "복구"}
+                    </button>
                   </li>
-                );
-              })}
-              <li>
-                <strong>캔들 시각</strong>
-                <span>
-                  로컬 {timeFormatter.format(differenceSummary.localOpenTime)} /
-                  Binance{" "}
-                  {timeFormatter.format(differenceSummary.binanceOpenTime)}{" "}
-                  {differenceSummary.timeDiffMinutes === 0
-                    ? "(동일)"
-                    : `(${Math.abs(differenceSummary.timeDiffMinutes).toFixed(
-                        2
-                      )}분 ${
-                        differenceSummary.timeDiffMinutes > 0
-                          ? "Binance가 앞섬"
-                          : "Binance가 늦음"
-                      })`}
-                </span>
-              </li>
-              <li>
-                <strong>상태</strong>
-                <span>
-                  GraphQL: {graphQlStatusText} · Binance: {binanceStatusText}
-                </span>
-              </li>
-            </ul>
-          ) : (
-            <p className={styles.differencePlaceholder}>
-              두 데이터 소스를 불러온 이후 차이점이 표시됩니다.
-            </p>
+                ))}
+              </ul>
+              {gapMessage && <p className={styles.gapMessage}>{gapMessage}</p>}
+            </div>
           )}
-          <p className={styles.comparisonFootnote}>
-            상단 차트는 내부 GraphQL 데이터를, 하단 차트는 Binance 공식 API
-            (binance-api-node)를 사용합니다.
-          </p>
         </section>
+
+        {chartView === "split" && (
+          <ReferenceChartCard
+            exchangeName={referenceExchangeName}
+            symbol={referenceSymbol}
+            intervalMinutes={selectedInterval}
+            candles={referenceCandles}
+            compareCandles={comparableReferenceCandles}
+            statusClass={referenceStatusClass}
+            statusText={referenceStatusText}
+            errorMessage={referenceErrorMessage}
+            indicators={indicatorConfigs}
+            oscillators={oscillatorConfigs}
+            showVolume={showVolume}
+            sync={isChartLinked ? chartSync : null}
+            resetKey={chartResetKey}
+            chartWrapperStyle={chartWrapperStyle}
+            onVisibleRangeChange={handleReferenceVisibleRangeChange}
+          />
+        )}
+
+        <ChartGrid
+          symbolOptions={selectOptions}
+          exchangeOptions={exchangeOptions}
+          defaultPanel={{
+            source: LOCAL_SOURCE,
+            symbol: selectedSymbol,
+            intervalMinutes: selectedInterval,
+          }}
+          size={gridSize}
+          panels={gridPanels}
+          onGridChange={handleGridChange}
+          layouts={chartLayouts}
+          onLayoutsChange={handleChartLayoutsChange}
+        />
+
+        <AlertPanel
+          symbol={selectedSymbol}
+          referenceName={referenceExchangeName}
+          alerts={alerts.filter((alert) => alert.symbol === selectedSymbol)}
+          log={alertLog}
+          notificationState={notificationState}
+          canCompareReference={canOverlayReference}
+          onAdd={handleAddAlert}
+          onToggle={(id, enabled) =>
+            handleAlertsChange(
+              alerts.map((alert) =>
+                alert.id === id ? { ...alert, enabled } : alert
+              )
+            )
+          }
+          onDelete={(id) =>
+            handleAlertsChange(alerts.filter((alert) => alert.id !== id))
+          }
+          onRequestNotifications={handleRequestNotifications}
+          onClearLog={() => setAlertLog([])}
+        />
+
+        <ComparisonPanel
+          referenceExchangeName={referenceExchangeName}
+          referenceQuoteAsset={referenceMapping?.quoteAsset}
+          fxQuote={fxQuote}
+          fxSource={fxSource}
+          isFxApplied={isFxApplied}
+          fxErrorMessage={fxErrorMessage}
+          defaultFxExchange={referenceExchangeId}
+          exchangeOptions={exchangeOptions}
+          intervalMinutes={selectedInterval}
+          differenceSummary={differenceSummary}
+          premiumSeries={premiumSeries}
+          graphQlStatusText={graphQlStatusText}
+          referenceStatusText={referenceStatusText}
+          isReferenceCandleInProgress={latestReferenceCandle?.isFinal === false}
+          onFxSourceChange={setFxSource}
+        />
+
+        <ReconcilePanel
+          report={reconcileReport}
+          thresholds={reconcileThresholds}
+          range={visibleRange}
+          intervalMinutes={selectedInterval}
+          onThresholdsChange={setReconcileThresholds}
+        />
       </main>
+
+      <Watchlist
+        symbols={watchlist.symbols}
+        pinnedSymbols={pinnedSymbols}
+        showPinnedOnly={showPinnedOnly}
+        page={watchlist.page}
+        pageCount={watchlist.pageCount}
+        tickers={watchlistTickers}
+        references={watchlistReferences}
+        selectedSymbol={selectedSymbol}
+        exchange={referenceExchange}
+        onSelect={setSelectedSymbol}
+        onPinnedSymbolsChange={handlePinnedSymbolsChange}
+        onShowPinnedOnlyChange={handleShowPinnedOnlyChange}
+        onPageChange={setWatchlistPage}
+      />
     </div>
   );
 }
@@ -0,0 +1,31 @@
+// 클라이언트가 분기할 수 있는 기계 판독용 에러 코드
+export type ApiErrorCode =
+  | "MISSING_PARAMETER"
+  | "INVALID_PARAMETER"
+  | "INVALID_SYMBOL"
+  | "INVALID_INTERVAL"
+  | "RANGE_TOO_LARGE"
+  | "UNKNOWN_SYMBOL"
+  | "UNKNOWN_EXCHANGE"
+  | "STREAM_NOT_FOUND"
+  | "RATE_LIMITED"
+  | "IP_BANNED"
+  | "UPSTREAM_ERROR";
+
+export type ApiErrorBody = {
+  error: string;
+  code: ApiErrorCode;
+  retryAfter?: number; // 초 단위
+};
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly status: number,
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
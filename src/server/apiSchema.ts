@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { INTERVAL_DURATION_MS } from "../app/lib/intervals";
+import { ApiError, type ApiErrorBody } from "./apiError";
+import type { ExchangeInterval } from "./exchanges/types";
+
+// 모든 거래소 라우트가 공유하는 요청 파라미터 검증과 에러 응답
+
+export { ApiError, type ApiErrorBody, type ApiErrorCode } from "./apiError";
+
+// 마켓 심볼 규칙: 대문자, 숫자, -_. 조합 최대 20자
+const SYMBOL_PATTERN = /^[A-Z0-9\-_.]{1,20}$/;
+// 로컬 심볼 id 규칙: 영문, 숫자, -_./: 조합 최대 32자 (BTC-KRW, ETH/BTC, ETH:KRW)
+const LOCAL_SYMBOL_PATTERN = /^[A-Za-z0-9\-_./:]{1,32}$/;
+
+export const isExchangeInterval = (value: string): value is ExchangeInterval =>
+  Object.prototype.hasOwnProperty.call(INTERVAL_DURATION_MS, value);
+
+export function parseSymbol(value: string | null, name = "symbol"): string {
+  if (!value) {
+    throw new ApiError("MISSING_PARAMETER", `${name} is required`, 400);
+  }
+  const symbol = value.trim().toUpperCase();
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    throw new ApiError(
+      "INVALID_SYMBOL",
+      `${name} "${value}" is not a valid market symbol`,
+      400
+    );
+  }
+  return symbol;
+}
+
+// 매핑 키로 쓰는 로컬 심볼 id. 저장된 매핑과 맞춰야 하므로 대소문자와 구분자를 바꾸지 않는다
+export function parseLocalSymbol(
+  value: string | null,
+  name = "symbol"
+): string {
+  const symbol = value?.trim();
+  if (!symbol) {
+    throw new ApiError("MISSING_PARAMETER", `${name} is required`, 400);
+  }
+  if (!LOCAL_SYMBOL_PATTERN.test(symbol)) {
+    throw new ApiError(
+      "INVALID_SYMBOL",
+      `${name} "${value}" is not a valid local symbol`,
+      400
+    );
+  }
+  return symbol;
+}
+
+// supported가 주어지면 해당 거래소가 지원하는 간격만 허용
+export function parseInterval(
+  value: string | null,
+  name = "interval",
+  supported?: readonly ExchangeInterval[]
+): ExchangeInterval {
+  if (!value) {
+    throw new ApiError("MISSING_PARAMETER", `${name} is required`, 400);
+  }
+  if (!isExchangeInterval(value)) {
+    throw new ApiError(
+      "INVALID_INTERVAL",
+      `${name} "${value}" is not a supported interval`,
+      400
+    );
+  }
+  if (supported && !supported.includes(value)) {
+    throw new ApiError(
+      "INVALID_INTERVAL",
+      `${name} "${value}" is not supported by this exchange`,
+      400
+    );
+  }
+  return value;
+}
+
+// 쿼리 파라미터의 시간 값 파싱 (epoch ms 또는 ISO 문자열)
+export function parseTime(value: string | null, name: string) {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw new ApiError(
+      "INVALID_PARAMETER",
+      `${name} must be epoch milliseconds or an ISO date`,
+      400
+    );
+  }
+  return parsed;
+}
+
+export function parsePositiveInteger(value: string | null, name: string) {
+  if (value === null) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new ApiError(
+      "INVALID_PARAMETER",
+      `${name} must be a positive integer`,
+      400
+    );
+  }
+  return parsed;
+}
+
+// 거래소별 변환이 없을 때의 기본값: 모두 업스트림 오류
+export function toUpstreamError(error: any): ApiError {
+  return new ApiError(
+    "UPSTREAM_ERROR",
+    error?.message ?? "Exchange request failed",
+    502
+  );
+}
+
+export function errorResponse(error: ApiError) {
+  const body: ApiErrorBody = { error: error.message, code: error.code };
+  const headers: Record<string, string> = {};
+
+  if (error.retryAfter !== undefined) {
+    body.retryAfter = error.retryAfter;
+    headers["Retry-After"] = String(error.retryAfter);
+  }
+
+  return NextResponse.json(body, { status: error.status, headers });
+}
+
+// 라우트 핸들러의 catch 블록에서 사용: 요청 오류는 그대로, 나머지는 거래소 오류로 분류
+export function toErrorResponse(
+  error: unknown,
+  context: string,
+  toApiError: (error: unknown) => ApiError = toUpstreamError
+) {
+  if (error instanceof ApiError) {
+    return errorResponse(error);
+  }
+
+  console.error(context, error);
+  return errorResponse(toApiError(error));
+}
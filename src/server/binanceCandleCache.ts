@@ -0,0 +1,236 @@
+import {
+  MAX_RANGE_CANDLES,
+  alignOpenTime,
+  estimateCandleCount,
+  fetchCandleRange,
+  shiftOpenTime,
+  type BinanceCandle,
+  type CandleRangeQuery,
+} from "./binanceCandles";
+
+export type CacheStatus = "HIT" | "PARTIAL" | "MISS";
+
+type CacheEntry = {
+  // 마감 캔들만 시간순으로 보관
+  candles: BinanceCandle[];
+  // [coveredFrom, coveredTo] 구간의 마감 캔들은 모두 캐시에 있음 (openTime 기준)
+  coveredFrom: number;
+  coveredTo: number;
+  // 실시간 스트림이 열려 있는 동안의 진행 중 캔들
+  live: BinanceCandle | null;
+  streaming: boolean;
+};
+
+// 스트림당 보관할 최대 마감 캔들 수. 넘치면 오래된 쪽부터 버린다
+const MAX_CACHED_CANDLES = 50000;
+
+const entries = new Map<string, CacheEntry>();
+
+const toCacheKey = (symbol: string, interval: string) =>
+  `${symbol.toUpperCase()}@${interval}`;
+
+const getEntry = (symbol: string, interval: string) => {
+  const key = toCacheKey(symbol, interval);
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = {
+      candles: [],
+      coveredFrom: Number.NaN,
+      coveredTo: Number.NaN,
+      live: null,
+      streaming: false,
+    };
+    entries.set(key, entry);
+  }
+  return entry;
+};
+
+const hasCoverage = (entry: CacheEntry) => !Number.isNaN(entry.coveredFrom);
+
+// 마감 캔들을 openTime 기준으로 병합
+const mergeCandles = (entry: CacheEntry, incoming: BinanceCandle[]) => {
+  const byOpenTime = new Map(
+    entry.candles.map((candle) => [candle.openTime, candle])
+  );
+  incoming
+    .filter((candle) => candle.isFinal)
+    .forEach((candle) => byOpenTime.set(candle.openTime, candle));
+
+  entry.candles = Array.from(byOpenTime.values()).sort(
+    (a, b) => a.openTime - b.openTime
+  );
+
+  if (entry.candles.length > MAX_CACHED_CANDLES) {
+    entry.candles = entry.candles.slice(-MAX_CACHED_CANDLES);
+    entry.coveredFrom = Math.max(entry.coveredFrom, entry.candles[0].openTime);
+  }
+};
+
+// REST로 [from, to] 구간을 받아 캐시에 반영하고, 마감 여부까지 확인된 범위를 돌려준다
+async function fillRange(
+  query: CandleRangeQuery,
+  entry: CacheEntry,
+  from: number,
+  to: number
+) {
+  const fetched = await fetchCandleRange({
+    symbol: query.symbol,
+    interval: query.interval,
+    start: from,
+    end: to,
+    limit: Math.min(
+      estimateCandleCount(query.interval, from, to),
+      MAX_RANGE_CANDLES
+    ),
+  });
+
+  mergeCandles(entry, fetched);
+
+  const firstOpen = fetched.find((candle) => !candle.isFinal);
+
+  return {
+    from,
+    to: firstOpen ? firstOpen.openTime - 1 : to,
+    open: firstOpen ?? null,
+  };
+}
+
+// 캐시를 우선 사용하고 비어 있는 머리/꼬리 구간만 Binance에서 가져온다
+export async function getCachedCandleRange(
+  query: CandleRangeQuery
+): Promise<{ candles: BinanceCandle[]; cache: CacheStatus }> {
+  const { interval, limit } = query;
+  const now = Date.now();
+  let to = Math.min(query.end ?? now, now);
+  let from: number;
+
+  // limit 개수를 넘는 구간은 가져오지 않도록 구간을 limit에 맞춰 자른다
+  if (query.start !== undefined) {
+    from = query.start;
+    to = Math.min(
+      to,
+      shiftOpenTime(alignOpenTime(from, interval), interval, limit) - 1
+    );
+  } else {
+    from = shiftOpenTime(alignOpenTime(to, interval), interval, -(limit - 1));
+  }
+
+  const entry = getEntry(query.symbol, interval);
+  let fetchedAll = false;
+  let fetchedSome = false;
+  let openCandle: BinanceCandle | null = null;
+
+  const adjacent =
+    hasCoverage(entry) &&
+    from <=
+      shiftOpenTime(alignOpenTime(entry.coveredTo, interval), interval, 1) &&
+    to >=
+      shiftOpenTime(alignOpenTime(entry.coveredFrom, interval), interval, -1);
+
+  if (!adjacent) {
+    // 캐시와 겹치지 않는 구간이면 통째로 받아 새 커버리지로 삼는다
+    const filled = await fillRange(query, entry, from, to);
+    if (!hasCoverage(entry) || filled.to >= entry.coveredTo) {
+      entry.coveredFrom = filled.from;
+      entry.coveredTo = filled.to;
+    }
+    openCandle = filled.open;
+    fetchedAll = true;
+  } else {
+    if (from < entry.coveredFrom) {
+      const filled = await fillRange(query, entry, from, entry.coveredFrom - 1);
+      entry.coveredFrom = filled.from;
+      fetchedSome = true;
+    }
+
+    if (to > entry.coveredTo) {
+      const nextOpenTime = shiftOpenTime(
+        alignOpenTime(entry.coveredTo, interval),
+        interval,
+        1
+      );
+      // 스트림이 커버리지 바로 다음 캔들을 진행 중으로 들고 있으면 REST 없이 응답
+      const servedByStream =
+        entry.streaming &&
+        entry.live !== null &&
+        entry.live.openTime === nextOpenTime;
+
+      if (servedByStream) {
+        openCandle = entry.live;
+      } else {
+        const filled = await fillRange(query, entry, entry.coveredTo + 1, to);
+        entry.coveredTo = Math.max(entry.coveredTo, filled.to);
+        openCandle = filled.open;
+        fetchedSome = true;
+      }
+    }
+  }
+
+  const candles = entry.candles.filter(
+    (candle) => candle.openTime >= from && candle.openTime <= to
+  );
+  const open = openCandle;
+  if (
+    open &&
+    open.openTime >= from &&
+    open.openTime <= to &&
+    !candles.some((candle) => candle.openTime === open.openTime)
+  ) {
+    candles.push(open);
+  }
+
+  return {
+    candles:
+      query.start !== undefined
+        ? candles.slice(0, limit)
+        : candles.slice(-limit),
+    cache: fetchedAll ? "MISS" : fetchedSome ? "PARTIAL" : "HIT",
+  };
+}
+
+// 실시간 스트림 캔들로 캐시를 최신 상태로 유지
+export function ingestStreamCandle(
+  symbol: string,
+  interval: CandleRangeQuery["interval"],
+  candle: BinanceCandle
+) {
+  const entry = entries.get(toCacheKey(symbol, interval));
+  if (!entry) {
+    return;
+  }
+
+  if (!candle.isFinal) {
+    entry.live = candle;
+    return;
+  }
+
+  if (entry.live?.openTime === candle.openTime) {
+    entry.live = null;
+  }
+
+  if (!hasCoverage(entry)) {
+    return;
+  }
+
+  const nextOpenTime = shiftOpenTime(
+    alignOpenTime(entry.coveredTo, interval),
+    interval,
+    1
+  );
+
+  // 커버리지 바로 다음 캔들일 때만 커버리지를 늘린다 (중간이 비면 REST로 채움)
+  if (candle.openTime <= nextOpenTime) {
+    mergeCandles(entry, [candle]);
+    entry.coveredTo = Math.max(entry.coveredTo, candle.openTime);
+  }
+}
+
+export function setCacheStreaming(
+  symbol: string,
+  interval: CandleRangeQuery["interval"],
+  streaming: boolean
+) {
+  const entry = getEntry(symbol, interval);
+  entry.streaming = streaming;
+  entry.live = null;
+}
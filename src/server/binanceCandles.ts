@@ -0,0 +1,137 @@
+import { INTERVAL_DURATION_MS } from "../app/lib/intervals";
+import { requestBinance } from "./binanceClient";
+import type {
+  ExchangeCandle,
+  ExchangeCandleQuery,
+  ExchangeInterval,
+} from "./exchanges/types";
+
+export type BinanceInterval = ExchangeInterval;
+export type BinanceCandle = ExchangeCandle;
+
+// Binance REST klines 한 번에 받을 수 있는 최대 개수
+export const BINANCE_PAGE_SIZE = 1000;
+// 한 요청에서 페이지네이션으로 모을 수 있는 최대 캔들 수
+export const MAX_RANGE_CANDLES = 20000;
+export const DEFAULT_CANDLE_LIMIT = 600;
+// GET /api/v3/klines 요청 가중치 (limit과 관계없이 2)
+const KLINES_WEIGHT = 2;
+
+// 간격 길이와 캔들 시작 시각 계산은 클라이언트 집계와 같은 표를 쓴다
+export {
+  INTERVAL_DURATION_MS,
+  alignOpenTime,
+  shiftOpenTime,
+} from "../app/lib/intervals";
+
+export type CandleRangeQuery = ExchangeCandleQuery;
+
+// 시작~종료 구간에 들어가는 캔들 수 추정
+export function estimateCandleCount(
+  interval: BinanceInterval,
+  start: number,
+  end: number
+): number {
+  return Math.floor((end - start) / INTERVAL_DURATION_MS[interval]) + 1;
+}
+
+export function fromRestKline(kline: any, now = Date.now()): BinanceCandle {
+  return {
+    openTime: kline.openTime,
+    closeTime: kline.closeTime,
+    open: kline.open,
+    high: kline.high,
+    low: kline.low,
+    close: kline.close,
+    volume: kline.volume,
+    quoteVolume: kline.quoteVolume,
+    trades: kline.trades,
+    // binance-api-node는 taker 매수 거래량을 base/quoteAssetVolume으로 이름 붙인다
+    takerBuyBaseVolume: kline.baseAssetVolume,
+    takerBuyQuoteVolume: kline.quoteAssetVolume,
+    isFinal: kline.closeTime < now,
+  };
+}
+
+export function fromStreamKline(kline: any): BinanceCandle {
+  return {
+    openTime: kline.startTime,
+    closeTime: kline.closeTime,
+    open: kline.open,
+    high: kline.high,
+    low: kline.low,
+    close: kline.close,
+    volume: kline.volume,
+    quoteVolume: kline.quoteVolume,
+    trades: kline.trades,
+    takerBuyBaseVolume: kline.buyVolume,
+    takerBuyQuoteVolume: kline.quoteBuyVolume,
+    isFinal: kline.isFinal,
+  };
+}
+
+// Binance REST klines를 1000개 단위로 페이지네이션하여 구간 전체를 가져온다.
+// start가 있으면 앞에서부터, 없으면 end(또는 현재)에서 과거 방향으로 채운다.
+export async function fetchCandleRange({
+  symbol,
+  interval,
+  start,
+  end,
+  limit,
+}: CandleRangeQuery): Promise<BinanceCandle[]> {
+  const collected: any[] = [];
+
+  if (start !== undefined) {
+    let cursor = start;
+
+    while (collected.length < limit) {
+      const pageSize = Math.min(BINANCE_PAGE_SIZE, limit - collected.length);
+      const startTime = cursor;
+      const page: any[] = await requestBinance(KLINES_WEIGHT, (client) =>
+        client.candles({
+          symbol,
+          interval,
+          startTime,
+          ...(end !== undefined && { endTime: end }),
+          limit: pageSize,
+        })
+      );
+
+      collected.push(...page);
+
+      if (page.length < pageSize) {
+        break;
+      }
+      cursor = page[page.length - 1].openTime + 1;
+      if (end !== undefined && cursor > end) {
+        break;
+      }
+    }
+
+    return collected.map((kline) => fromRestKline(kline));
+  }
+
+  let cursor = end;
+
+  while (collected.length < limit) {
+    const pageSize = Math.min(BINANCE_PAGE_SIZE, limit - collected.length);
+    const endTime = cursor;
+    const page: any[] = await requestBinance(KLINES_WEIGHT, (client) =>
+      client.candles({
+        symbol,
+        interval,
+        ...(endTime !== undefined && { endTime }),
+        limit: pageSize,
+      })
+    );
+
+    collected.unshift(...page);
+
+    if (page.length < pageSize) {
+      break;
+    }
+    cursor = page[0].openTime - 1;
+  }
+
+  return collected.map((kline) => fromRestKline(kline));
+}
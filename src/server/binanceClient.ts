@@ -1,10 +1,229 @@
 import binance from "binance-api-node";
+import { ApiError } from "./apiError";
 
 let client: any = null;
 
+// 테스트 시 REST/WebSocket 주소를 스탠드인 서버로 바꿀 수 있다 (미설정 시 Binance 운영 주소)
+const BINANCE_HTTP_BASE = process.env.BINANCE_HTTP_BASE;
+const BINANCE_WS_BASE = process.env.BINANCE_WS_BASE;
+
 export function getBinanceClient() {
   if (!client) {
-    client = binance();
+    client = binance({ httpBase: BINANCE_HTTP_BASE, wsBase: BINANCE_WS_BASE });
   }
   return client;
 }
+
+// Binance spot REQUEST_WEIGHT 한도 (IP당 분당)
+const WEIGHT_LIMIT = Number(process.env.BINANCE_WEIGHT_LIMIT ?? 6000);
+// 한도의 90%를 넘기면 다음 분까지 요청을 대기시킨다
+const WEIGHT_SAFETY_RATIO = 0.9;
+// 이보다 오래 기다려야 하면 대기 대신 바로 거절
+const MAX_QUEUE_WAIT_MS = 15000;
+const WEIGHT_WINDOW_MS = 60 * 1000;
+const BINANCE_REST_DOMAIN = BINANCE_HTTP_BASE
+  ? new URL(BINANCE_HTTP_BASE).hostname
+  : "api.binance.com";
+// Binance 에러 코드 (https://developers.binance.com/docs/binance-spot-api-docs/errors)
+const BINANCE_TOO_MANY_REQUESTS = -1003;
+const BINANCE_INVALID_INTERVAL = -1120;
+const BINANCE_INVALID_SYMBOL = -1121;
+
+type WeightState = {
+  windowStart: number;
+  usedWeight: number;
+  blockedUntil: number;
+  blockReason: "RATE_LIMITED" | "IP_BANNED" | null;
+  queuedRequests: number;
+  rejectedRequests: number;
+};
+
+const weightState: WeightState = {
+  windowStart: 0,
+  usedWeight: 0,
+  blockedUntil: 0,
+  blockReason: null,
+  queuedRequests: 0,
+  rejectedRequests: 0,
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Binance 가중치는 매 분 정각에 초기화된다
+const rollWeightWindow = (now: number) => {
+  const windowStart = Math.floor(now / WEIGHT_WINDOW_MS) * WEIGHT_WINDOW_MS;
+  if (windowStart !== weightState.windowStart) {
+    weightState.windowStart = windowStart;
+    weightState.usedWeight = 0;
+  }
+};
+
+const rejectRequest = (
+  code: "RATE_LIMITED" | "IP_BANNED",
+  waitMs: number
+): never => {
+  weightState.rejectedRequests += 1;
+  throw new ApiError(
+    code,
+    code === "IP_BANNED"
+      ? "Binance has temporarily banned this server IP"
+      : "Binance request weight limit reached",
+    code === "IP_BANNED" ? 503 : 429,
+    Math.max(Math.ceil(waitMs / 1000), 1)
+  );
+};
+
+// 가중치 여유가 생길 때까지 대기한 뒤 사용량을 미리 예약
+async function reserveWeight(weight: number) {
+  let queued = false;
+
+  try {
+    while (true) {
+      const now = Date.now();
+      rollWeightWindow(now);
+
+      if (weightState.blockedUntil > now) {
+        const waitMs = weightState.blockedUntil - now;
+        if (waitMs > MAX_QUEUE_WAIT_MS) {
+          rejectRequest(weightState.blockReason ?? "RATE_LIMITED", waitMs);
+        }
+        if (!queued) {
+          queued = true;
+          weightState.queuedRequests += 1;
+        }
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (
+        weightState.usedWeight + weight >
+        WEIGHT_LIMIT * WEIGHT_SAFETY_RATIO
+      ) {
+        const waitMs = weightState.windowStart + WEIGHT_WINDOW_MS - now;
+        if (waitMs > MAX_QUEUE_WAIT_MS) {
+          rejectRequest("RATE_LIMITED", waitMs);
+        }
+        if (!queued) {
+          queued = true;
+          weightState.queuedRequests += 1;
+        }
+        await sleep(waitMs);
+        continue;
+      }
+
+      weightState.usedWeight += weight;
+      return;
+    }
+  } finally {
+    if (queued) {
+      weightState.queuedRequests -= 1;
+    }
+  }
+}
+
+// 응답 헤더(X-MBX-USED-WEIGHT-1M)로 보고된 실제 사용량 반영
+const syncReportedWeight = () => {
+  const reported = Number(
+    getBinanceClient().getInfo()?.[BINANCE_REST_DOMAIN]?.usedWeight1m
+  );
+  if (Number.isFinite(reported)) {
+    weightState.usedWeight = Math.max(weightState.usedWeight, reported);
+  }
+};
+
+// 429/418 응답이면 Retry-After(또는 차단 해제 시각)까지 모든 요청을 막는다.
+// binance-api-node는 JSON 본문 에러에 response를 붙이지 않으므로 그때는 에러 코드로 판별하고,
+// 보고된 사용량(X-MBX-USED-WEIGHT-1M)을 반영해 다음 분 정각까지 막는다
+const handleRateLimitError = (error: any): ApiError | null => {
+  const message: string = error?.message ?? "";
+  const httpStatus: number | undefined = error?.response?.status;
+  const banned = httpStatus === 418 || /banned/i.test(message);
+
+  if (
+    !banned &&
+    httpStatus !== 429 &&
+    error?.code !== BINANCE_TOO_MANY_REQUESTS
+  ) {
+    return null;
+  }
+
+  const now = Date.now();
+  rollWeightWindow(now);
+  syncReportedWeight();
+  // 한도를 채운 것으로 보고 현재 분에는 새 요청을 예약하지 않는다
+  weightState.usedWeight = Math.max(weightState.usedWeight, WEIGHT_LIMIT);
+
+  const retryAfterHeader = Number(
+    error?.response?.headers?.get?.("retry-after")
+  );
+  const bannedUntil = Number(/until (\d+)/.exec(message)?.[1]);
+  let blockedUntil = weightState.windowStart + WEIGHT_WINDOW_MS;
+
+  if (Number.isFinite(retryAfterHeader) && retryAfterHeader > 0) {
+    blockedUntil = now + retryAfterHeader * 1000;
+  } else if (Number.isFinite(bannedUntil)) {
+    blockedUntil = bannedUntil;
+  }
+
+  const code = banned ? "IP_BANNED" : "RATE_LIMITED";
+  weightState.blockedUntil = Math.max(weightState.blockedUntil, blockedUntil);
+  weightState.blockReason = code;
+
+  return new ApiError(
+    code,
+    message,
+    banned ? 503 : 429,
+    Math.max(Math.ceil((weightState.blockedUntil - now) / 1000), 1)
+  );
+};
+
+// 모든 Binance REST 호출은 이 함수를 거쳐 가중치 한도를 지킨다
+export async function requestBinance<T>(
+  weight: number,
+  call: (client: any) => Promise<T>
+): Promise<T> {
+  await reserveWeight(weight);
+
+  try {
+    return await call(getBinanceClient());
+  } catch (error) {
+    throw handleRateLimitError(error) ?? error;
+  } finally {
+    syncReportedWeight();
+  }
+}
+
+// binance-api-node가 던지는 에러를 API 에러로 변환
+// (429/418 한도 초과는 requestBinance에서 이미 ApiError로 변환된다)
+export function fromBinanceError(error: any): ApiError {
+  const message: string = error?.message ?? "Binance request failed";
+
+  if (error?.code === BINANCE_INVALID_SYMBOL) {
+    return new ApiError("UNKNOWN_SYMBOL", message, 404);
+  }
+
+  if (error?.code === BINANCE_INVALID_INTERVAL) {
+    return new ApiError("INVALID_INTERVAL", message, 400);
+  }
+
+  return new ApiError("UPSTREAM_ERROR", message, 502);
+}
+
+export function getBinanceWeightUsage() {
+  const now = Date.now();
+  rollWeightWindow(now);
+
+  return {
+    usedWeight: weightState.usedWeight,
+    weightLimit: WEIGHT_LIMIT,
+    throttleThreshold: Math.floor(WEIGHT_LIMIT * WEIGHT_SAFETY_RATIO),
+    windowResetsAt: weightState.windowStart + WEIGHT_WINDOW_MS,
+    blockedUntil:
+      weightState.blockedUntil > now ? weightState.blockedUntil : null,
+    blockReason:
+      weightState.blockedUntil > now ? weightState.blockReason : null,
+    queuedRequests: weightState.queuedRequests,
+    rejectedRequests: weightState.rejectedRequests,
+  };
+}
@@ -0,0 +1,41 @@
+import { requestBinance } from "./binanceClient";
+import type { ExchangeMarket } from "./exchanges/types";
+
+// GET /api/v3/exchangeInfo (심볼 파라미터 없음) 요청 가중치
+const EXCHANGE_INFO_WEIGHT = 20;
+// 상장 목록은 자주 바뀌지 않으므로 1시간 동안 재사용
+const MARKETS_TTL_MS = 60 * 60 * 1000;
+
+let cachedMarkets: { markets: ExchangeMarket[]; fetchedAt: number } | null =
+  null;
+let pendingMarkets: Promise<ExchangeMarket[]> | null = null;
+
+export async function getBinanceMarkets(): Promise<ExchangeMarket[]> {
+  if (cachedMarkets && Date.now() - cachedMarkets.fetchedAt < MARKETS_TTL_MS) {
+    return cachedMarkets.markets;
+  }
+
+  // 동시에 여러 요청이 와도 exchangeInfo는 한 번만 호출
+  if (!pendingMarkets) {
+    pendingMarkets = requestBinance(EXCHANGE_INFO_WEIGHT, (client) =>
+      client.exchangeInfo()
+    )
+      .then((info: any) => {
+        const markets: ExchangeMarket[] = (info?.symbols ?? []).map(
+          (item: any) => ({
+            symbol: item.symbol,
+            baseAsset: item.baseAsset,
+            quoteAsset: item.quoteAsset,
+            active: item.status === "TRADING",
+          })
+        );
+        cachedMarkets = { markets, fetchedAt: Date.now() };
+        return markets;
+      })
+      .finally(() => {
+        pendingMarkets = null;
+      });
+  }
+
+  return pendingMarkets;
+}
@@ -0,0 +1,141 @@
+import {
+  getCachedCandleRange,
+  ingestStreamCandle,
+  setCacheStreaming,
+} from "./binanceCandleCache";
+import { getBinanceClient } from "./binanceClient";
+import {
+  INTERVAL_DURATION_MS,
+  MAX_RANGE_CANDLES,
+  estimateCandleCount,
+  fromStreamKline,
+  type BinanceCandle,
+  type BinanceInterval,
+} from "./binanceCandles";
+
+type CandleListener = (candle: BinanceCandle) => void;
+
+type UpstreamEntry = {
+  listeners: Set<CandleListener>;
+  close: () => void;
+  openedAt: number;
+  // 재연결 시 누락분 재전송을 위한 최근 마감 캔들 링 버퍼
+  history: BinanceCandle[];
+};
+
+const HISTORY_SIZE = 500;
+
+// (symbol, interval)당 하나의 업스트림 소켓을 유지하고 SSE 구독자들에게 분배
+const upstreams = new Map<string, UpstreamEntry>();
+
+const toStreamKey = (symbol: string, interval: BinanceInterval) =>
+  `${symbol.toUpperCase()}@${interval}`;
+
+export function subscribeCandles(
+  symbol: string,
+  interval: BinanceInterval,
+  listener: CandleListener
+): () => void {
+  const key = toStreamKey(symbol, interval);
+  let entry = upstreams.get(key);
+
+  if (!entry) {
+    const listeners = new Set<CandleListener>();
+    const history: BinanceCandle[] = [];
+    const client = getBinanceClient();
+    const close = client.ws.candles(symbol, interval, (kline: any) => {
+      const candle = fromStreamKline(kline);
+      ingestStreamCandle(symbol, interval, candle);
+      if (candle.isFinal) {
+        history.push(candle);
+        if (history.length > HISTORY_SIZE) {
+          history.shift();
+        }
+      }
+
+      listeners.forEach((notify) => {
+        try {
+          notify(candle);
+        } catch (error) {
+          console.error("Binance stream subscriber failed", error);
+        }
+      });
+    });
+
+    entry = { listeners, close, openedAt: Date.now(), history };
+    upstreams.set(key, entry);
+    setCacheStreaming(symbol, interval, true);
+  }
+
+  entry.listeners.add(listener);
+
+  let unsubscribed = false;
+
+  return () => {
+    if (unsubscribed) {
+      return;
+    }
+    unsubscribed = true;
+
+    const current = upstreams.get(key);
+    if (!current) {
+      return;
+    }
+
+    current.listeners.delete(listener);
+
+    // 마지막 구독자가 떠나면 업스트림 소켓 정리
+    if (current.listeners.size === 0) {
+      upstreams.delete(key);
+      current.close();
+      setCacheStreaming(symbol, interval, false);
+    }
+  };
+}
+
+// since 이후 마감된 캔들을 링 버퍼에서, 버퍼가 구간을 덮지 못하면 REST로 가져온다
+export async function getMissedCandles(
+  symbol: string,
+  interval: BinanceInterval,
+  since: number
+): Promise<BinanceCandle[]> {
+  const entry = upstreams.get(toStreamKey(symbol, interval));
+
+  // 업스트림이 since 이전부터 살아 있었고 버퍼가 잘리지 않았다면 버퍼만으로 충분
+  if (
+    entry &&
+    entry.openedAt <= since &&
+    (entry.history.length < HISTORY_SIZE || entry.history[0].closeTime < since)
+  ) {
+    return entry.history.filter((candle) => candle.closeTime >= since);
+  }
+
+  const now = Date.now();
+  // since 시점에 진행 중이던 캔들도 포함되도록 한 구간 앞에서부터 조회
+  const start = since - INTERVAL_DURATION_MS[interval];
+  const limit = Math.min(
+    estimateCandleCount(interval, start, now),
+    MAX_RANGE_CANDLES
+  );
+  const { candles } = await getCachedCandleRange({
+    symbol,
+    interval,
+    start,
+    end: now,
+    limit,
+  });
+
+  return candles.filter(
+    (candle) => candle.isFinal && candle.closeTime >= since
+  );
+}
+
+// 진단용: 현재 열려 있는 업스트림과 구독자 수
+export function getStreamHubStats() {
+  return Array.from(upstreams.entries()).map(([key, entry]) => ({
+    stream: key,
+    subscribers: entry.listeners.size,
+    openedAt: entry.openedAt,
+    bufferedCandles: entry.history.length,
+  }));
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { handleCandlesRequest } from "./exchangeRoutes";
+import type { ExchangeAdapter } from "./exchanges";
+import { resolveSymbolMapping, type SymbolMapping } from "./symbolMappings";
+
+vi.mock("./symbolMappings", () => ({ resolveSymbolMapping: vi.fn() }));
+
+const createAdapter = (): ExchangeAdapter => ({
+  id: "binance",
+  name: "Binance",
+  intervals: ["1m", "1h"],
+  normalizeSymbol: (symbol) => symbol.toUpperCase(),
+  listMarkets: vi.fn(async () => []),
+  fetchCandles: vi.fn(async () => ({ candles: [] })),
+  subscribeCandles: () => () => {},
+  getMissedCandles: async () => [],
+  toApiError: (error) => error as never,
+});
+
+const savedMapping = (localSymbol: string, symbol: string): SymbolMapping => ({
+  localSymbol,
+  exchange: "binance",
+  symbol,
+  baseAsset: "ETH",
+  quoteAsset: "BTC",
+  localQuoteAsset: null,
+  source: "saved",
+});
+
+const requestCandles = (adapter: ExchangeAdapter, query: string) =>
+  handleCandlesRequest(
+    new NextRequest(`http://localhost/api/binance/candles?${query}`),
+    adapter
+  );
+
+describe("handleCandlesRequest", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each(["ETH/BTC", "ETH:BTC"])(
+    "구분자가 있는 로컬 심볼 %s도 매핑된 마켓 심볼로 조회한다",
+    async (localSymbol) => {
+      const adapter = createAdapter();
+      vi.mocked(resolveSymbolMapping).mockResolvedValue(
+        savedMapping(localSymbol, "ETHBTC")
+      );
+
+      const response = await requestCandles(
+        adapter,
+        `symbol=${encodeURIComponent(localSymbol)}&interval=1m`
+      );
+
+      expect(response.status).toBe(200);
+      expect(resolveSymbolMapping).toHaveBeenCalledWith(adapter, localSymbol);
+      expect(adapter.fetchCandles).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: "ETHBTC", interval: "1m" })
+      );
+      expect(await response.json()).toMatchObject({ symbol: "ETHBTC" });
+    }
+  );
+
+  it("형식이 잘못된 심볼은 매핑을 찾기 전에 400으로 거절한다", async () => {
+    const response = await requestCandles(
+      createAdapter(),
+      `symbol=${encodeURIComponent("BTC KRW")}&interval=1m`
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "INVALID_SYMBOL" });
+    expect(resolveSymbolMapping).not.toHaveBeenCalled();
+  });
+
+  it("심볼이 없으면 400으로 거절한다", async () => {
+    const response = await requestCandles(createAdapter(), "interval=1m");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "MISSING_PARAMETER" });
+  });
+});
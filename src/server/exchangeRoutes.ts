@@ -0,0 +1,392 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  ApiError,
+  errorResponse,
+  parseInterval,
+  parseLocalSymbol,
+  parsePositiveInteger,
+  parseSymbol,
+  parseTime,
+  toErrorResponse,
+} from "./apiSchema";
+import {
+  DEFAULT_CANDLE_LIMIT,
+  MAX_RANGE_CANDLES,
+  estimateCandleCount,
+} from "./binanceCandles";
+import {
+  getExchangeAdapter,
+  type ExchangeAdapter,
+  type ExchangeCandle,
+} from "./exchanges";
+import {
+  MAX_STREAMS_PER_CONNECTION,
+  addConnectionStreams,
+  closeStreamConnection,
+  getConnectionStreams,
+  hasStreamConnection,
+  openStreamConnection,
+  parseStreamList,
+  removeConnectionStreams,
+  toStreamKey,
+  type StreamSpec,
+} from "./streamConnections";
+import { resolveSymbolMapping } from "./symbolMappings";
+
+// /api/binance/* 와 /api/exchanges/[exchange]/* 라우트가 공유하는 핸들러
+
+const encoder = new TextEncoder();
+
+export type ExchangeRouteContext = {
+  params: Promise<{ exchange: string }>;
+};
+
+export async function resolveExchangeAdapter(
+  context: ExchangeRouteContext
+): Promise<ExchangeAdapter> {
+  const { exchange } = await context.params;
+  const adapter = getExchangeAdapter(exchange);
+  if (!adapter) {
+    throw new ApiError(
+      "UNKNOWN_EXCHANGE",
+      `Exchange "${exchange}" is not supported`,
+      404
+    );
+  }
+  return adapter;
+}
+
+export async function handleCandlesRequest(
+  request: NextRequest,
+  adapter: ExchangeAdapter
+) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const localSymbol = parseLocalSymbol(searchParams.get("symbol"));
+    const interval = parseInterval(
+      searchParams.get("interval"),
+      "interval",
+      adapter.intervals
+    );
+    const start = parseTime(searchParams.get("start"), "start");
+    const end = parseTime(searchParams.get("end"), "end");
+    const limitParam = parsePositiveInteger(searchParams.get("limit"), "limit");
+
+    if (start !== undefined && end !== undefined && start > end) {
+      throw new ApiError(
+        "INVALID_PARAMETER",
+        "start must not be after end",
+        400
+      );
+    }
+
+    let limit = limitParam ?? DEFAULT_CANDLE_LIMIT;
+
+    if (limitParam === undefined && start !== undefined) {
+      // 구간이 지정되면 구간 전체를 채울 수 있도록 limit을 맞춘다
+      limit = estimateCandleCount(interval, start, end ?? Date.now());
+    }
+
+    if (limit > MAX_RANGE_CANDLES) {
+      throw new ApiError(
+        "RANGE_TOO_LARGE",
+        `Requested range covers about ${limit} candles; the maximum is ${MAX_RANGE_CANDLES}. Narrow the range or pass a smaller limit.`,
+        400
+      );
+    }
+
+    // 로컬 심볼 id는 저장된 매핑 또는 상장 목록 추천으로 거래소 마켓 심볼이 된다
+    const mapping = await resolveSymbolMapping(adapter, localSymbol);
+    const symbol = mapping.symbol;
+
+    const { candles, cache } = await adapter.fetchCandles({
+      symbol,
+      interval,
+      start,
+      end,
+      limit,
+    });
+
+    // HIT: 캐시만으로 응답, PARTIAL: 머리/꼬리만 거래소 조회, MISS: 전체 조회
+    // symbol은 변환된 마켓 심볼로, 클라이언트가 스트림 키를 만들 때 사용한다
+    return NextResponse.json(
+      { exchange: adapter.id, symbol, mapping, candles },
+      { headers: cache ? { "X-Cache": cache } : undefined }
+    );
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      `Failed to fetch ${adapter.name} candles`,
+      adapter.toApiError
+    );
+  }
+}
+
+// 이벤트 id는 "캔들 시작 시각-시퀀스" 형식
+const parseEventId = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+  const openTime = Number(value.split("-")[0]);
+  return Number.isFinite(openTime) ? openTime : null;
+};
+
+// 스트림별 재개 위치: "BTCUSDT@1m:1700000000000,ETHUSDT@5m:1700000300000"
+const parseResumePositions = (value: string | null): Map<string, number> => {
+  const positions = new Map<string, number>();
+  for (const item of (value ?? "").split(",")) {
+    const separator = item.lastIndexOf(":");
+    const openTime = Number(item.slice(separator + 1));
+    if (separator > 0 && Number.isFinite(openTime)) {
+      positions.set(item.slice(0, separator).trim(), openTime);
+    }
+  }
+  return positions;
+};
+
+type ReplayTarget = { spec: StreamSpec; since: number };
+
+// 끊긴 동안 마감된 캔들을 스트림마다 먼저 보내고, 그동안 buffered에 모아 둔 실시간 캔들을 이어서 보낸다.
+// 재전송한 캔들보다 오래된 실시간 캔들은 버린다
+async function replayMissedCandles(
+  adapter: ExchangeAdapter,
+  targets: ReplayTarget[],
+  buffered: Map<string, ExchangeCandle[]>,
+  sendCandle: (streamKey: string, candle: ExchangeCandle) => void
+) {
+  for (const { spec, since } of targets) {
+    let lastOpenTime = -Infinity;
+    try {
+      const missed = await adapter.getMissedCandles(
+        spec.symbol,
+        spec.interval,
+        since
+      );
+      missed.forEach((candle) => sendCandle(spec.key, candle));
+      lastOpenTime = missed[missed.length - 1]?.openTime ?? lastOpenTime;
+    } catch (error) {
+      console.error(
+        `Failed to replay ${adapter.name} candles for ${spec.key}`,
+        error
+      );
+    } finally {
+      const live = buffered.get(spec.key) ?? [];
+      buffered.delete(spec.key);
+      live
+        .filter((candle) => candle.openTime >= lastOpenTime)
+        .forEach((candle) => sendCandle(spec.key, candle));
+    }
+  }
+}
+
+// ?streams=BTCUSDT@1m,ETHUSDT@5m 또는 기존 ?symbol=&interval= 형식 모두 지원
+export async function handleStreamRequest(
+  request: NextRequest,
+  adapter: ExchangeAdapter
+) {
+  const { searchParams } = new URL(request.url);
+  const streamsParam = searchParams.get("streams");
+  const symbol = searchParams.get("symbol");
+  const intervalParam = searchParams.get("interval");
+
+  let specs: StreamSpec[];
+
+  try {
+    if (streamsParam !== null) {
+      specs = parseStreamList(streamsParam, adapter);
+    } else if (symbol || intervalParam) {
+      const spec = {
+        symbol: parseSymbol(symbol),
+        interval: parseInterval(intervalParam, "interval", adapter.intervals),
+      };
+      specs = [{ key: toStreamKey(spec.symbol, spec.interval), ...spec }];
+    } else {
+      throw new ApiError(
+        "MISSING_PARAMETER",
+        "streams or symbol and interval query parameters are required",
+        400
+      );
+    }
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      `Failed to parse ${adapter.name} stream request`,
+      adapter.toApiError
+    );
+  }
+
+  // 단일 심볼 요청은 기존처럼 이름 없는 message 이벤트로 내려준다
+  const namedEvents = streamsParam !== null;
+  // EventSource 자동 재연결은 헤더로, 클라이언트 수동 재연결은 쿼리로 전달된다.
+  // 여러 스트림을 구독하면 ?resume=로 스트림마다 마지막으로 받은 캔들 시각을 전달한다
+  const resumeFrom = parseEventId(
+    request.headers.get("last-event-id") ?? searchParams.get("lastEventId")
+  );
+  const resumePositions = parseResumePositions(searchParams.get("resume"));
+  const replayTargets = specs.flatMap((spec): ReplayTarget[] => {
+    const since = resumePositions.get(spec.key) ?? resumeFrom;
+    return since === null ? [] : [{ spec, since }];
+  });
+
+  try {
+    let connectionId: string | null = null;
+    let keepAlive: NodeJS.Timeout | null = null;
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let sequence = 0;
+
+        const send = (event: string | null, data: unknown, id?: string) => {
+          if (closed) {
+            return;
+          }
+          const idLine = id ? `id: ${id}\n` : "";
+          const eventLine = event ? `event: ${event}\n` : "";
+          controller.enqueue(
+            encoder.encode(
+              `${idLine}${eventLine}data: ${JSON.stringify(data)}\n\n`
+            )
+          );
+        };
+
+        const sendCandle = (streamKey: string, candle: ExchangeCandle) => {
+          sequence += 1;
+          send(
+            namedEvents ? streamKey : null,
+            { stream: streamKey, candle },
+            `${candle.openTime}-${sequence}`
+          );
+        };
+
+        keepAlive = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(`: keep-alive\n\n`));
+          }
+        }, 15000);
+
+        // 재전송 중인 스트림의 실시간 캔들은 재전송이 끝날 때까지 모아 둔다
+        const buffered = new Map<string, ExchangeCandle[]>(
+          replayTargets.map(({ spec }) => [spec.key, []])
+        );
+        connectionId = openStreamConnection(adapter, (streamKey, candle) => {
+          const pending = buffered.get(streamKey);
+          if (pending) {
+            pending.push(candle);
+          } else {
+            sendCandle(streamKey, candle);
+          }
+        });
+        addConnectionStreams(connectionId, specs);
+
+        send("ready", {
+          exchange: adapter.id,
+          connectionId,
+          streams: getConnectionStreams(connectionId),
+          resumedFrom: resumeFrom,
+          resumed: Object.fromEntries(
+            replayTargets.map(({ spec, since }) => [spec.key, since])
+          ),
+        });
+
+        if (replayTargets.length > 0) {
+          void replayMissedCandles(
+            adapter,
+            replayTargets,
+            buffered,
+            sendCandle
+          );
+        }
+      },
+      cancel() {
+        closed = true;
+        if (connectionId) {
+          closeStreamConnection(connectionId);
+        }
+        if (keepAlive) {
+          clearInterval(keepAlive);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      `Failed to open ${adapter.name} stream`,
+      adapter.toApiError
+    );
+  }
+}
+
+type StreamUpdateBody = {
+  connectionId?: string;
+  add?: string[];
+  remove?: string[];
+};
+
+// 연결을 끊지 않고 기존 SSE 연결의 구독 스트림을 추가/제거
+export async function handleStreamUpdate(
+  request: NextRequest,
+  adapter: ExchangeAdapter
+) {
+  let body: StreamUpdateBody;
+
+  try {
+    body = (await request.json()) as StreamUpdateBody;
+  } catch {
+    return errorResponse(
+      new ApiError("INVALID_PARAMETER", "Request body must be JSON", 400)
+    );
+  }
+
+  try {
+    const { connectionId } = body;
+
+    if (!connectionId || !hasStreamConnection(connectionId, adapter)) {
+      throw new ApiError(
+        "STREAM_NOT_FOUND",
+        "Unknown or closed stream connection",
+        404
+      );
+    }
+
+    const toAdd = parseStreamList((body.add ?? []).join(","), adapter);
+    const toRemove = parseStreamList((body.remove ?? []).join(","), adapter);
+
+    // 제거/추가를 적용하기 전에 결과 스트림 수를 먼저 검증해
+    // 400으로 거절된 요청이 기존 구독을 건드리지 않도록 한다
+    const removedKeys = toRemove.map((spec) => spec.key);
+    const remaining = getConnectionStreams(connectionId).filter(
+      (key) => !removedKeys.includes(key)
+    );
+    const added = toAdd.filter((spec) => !remaining.includes(spec.key));
+
+    if (remaining.length + added.length > MAX_STREAMS_PER_CONNECTION) {
+      throw new ApiError(
+        "INVALID_PARAMETER",
+        `At most ${MAX_STREAMS_PER_CONNECTION} streams can be subscribed on one connection`,
+        400
+      );
+    }
+
+    removeConnectionStreams(connectionId, removedKeys);
+    addConnectionStreams(connectionId, added);
+
+    return NextResponse.json({ streams: getConnectionStreams(connectionId) });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      `Failed to update ${adapter.name} stream`,
+      adapter.toApiError
+    );
+  }
+}
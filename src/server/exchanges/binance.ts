@@ -0,0 +1,22 @@
+import { getCachedCandleRange } from "../binanceCandleCache";
+import { INTERVAL_DURATION_MS, type BinanceInterval } from "../binanceCandles";
+import { fromBinanceError } from "../binanceClient";
+import { getBinanceMarkets } from "../binanceMarkets";
+import { getMissedCandles, subscribeCandles } from "../binanceStreamHub";
+import type { ExchangeAdapter } from "./types";
+
+// Binance 마켓 심볼은 구분자 없는 대문자 (BTC-USDT → BTCUSDT)
+const normalizeSymbol = (symbol: string): string =>
+  symbol.replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
+
+export const binanceAdapter: ExchangeAdapter = {
+  id: "binance",
+  name: "Binance",
+  intervals: Object.keys(INTERVAL_DURATION_MS) as BinanceInterval[],
+  normalizeSymbol,
+  listMarkets: getBinanceMarkets,
+  fetchCandles: getCachedCandleRange,
+  subscribeCandles,
+  getMissedCandles,
+  toApiError: fromBinanceError,
+};
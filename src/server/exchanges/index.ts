@@ -0,0 +1,23 @@
+import { binanceAdapter } from "./binance";
+import type { ExchangeAdapter } from "./types";
+
+export type {
+  ExchangeAdapter,
+  ExchangeCandle,
+  ExchangeCandleQuery,
+  ExchangeCandleResult,
+  ExchangeInterval,
+  ExchangeMarket,
+} from "./types";
+
+// 새 거래소는 어댑터를 구현한 뒤 여기에 등록한다
+const adapters: ExchangeAdapter[] = [binanceAdapter];
+
+export function getExchangeAdapter(id: string): ExchangeAdapter | undefined {
+  const normalized = id.toLowerCase();
+  return adapters.find((adapter) => adapter.id === normalized);
+}
+
+export function listExchanges() {
+  return adapters.map(({ id, name, intervals }) => ({ id, name, intervals }));
+}
@@ -0,0 +1,66 @@
+import type { BinanceInterval } from "../../app/lib/intervals";
+import type { ApiError } from "../apiError";
+
+// 거래소 공통 간격 코드 (Binance 표기 기준). 어댑터는 이 중 지원하는 것만 선언한다
+export type ExchangeInterval = BinanceInterval;
+
+// 모든 어댑터가 API 라우트로 내려주는 공통 캔들 형식
+export type ExchangeCandle = {
+  openTime: number;
+  closeTime: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  quoteVolume: string;
+  trades: number;
+  takerBuyBaseVolume: string;
+  takerBuyQuoteVolume: string;
+  isFinal: boolean;
+};
+
+// 거래소에 상장된 마켓 (심볼 매핑 검증/추천용)
+export type ExchangeMarket = {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  active: boolean;
+};
+
+export type ExchangeCandleQuery = {
+  symbol: string;
+  interval: ExchangeInterval;
+  start?: number;
+  end?: number;
+  limit: number;
+};
+
+export type ExchangeCandleResult = {
+  candles: ExchangeCandle[];
+  // 캐시를 사용하는 어댑터만 채운다 (X-Cache 헤더)
+  cache?: "HIT" | "PARTIAL" | "MISS";
+};
+
+export interface ExchangeAdapter {
+  id: string;
+  name: string;
+  intervals: readonly ExchangeInterval[];
+  // 입력된 마켓 심볼을 거래소 표기로 정리 (구분자 제거, 대소문자 등)
+  normalizeSymbol(symbol: string): string;
+  listMarkets(): Promise<ExchangeMarket[]>;
+  fetchCandles(query: ExchangeCandleQuery): Promise<ExchangeCandleResult>;
+  subscribeCandles(
+    symbol: string,
+    interval: ExchangeInterval,
+    listener: (candle: ExchangeCandle) => void
+  ): () => void;
+  // since 이후 마감된 캔들 (SSE 재연결 시 누락분 재전송용)
+  getMissedCandles(
+    symbol: string,
+    interval: ExchangeInterval,
+    since: number
+  ): Promise<ExchangeCandle[]>;
+  // 거래소 SDK 에러를 API 에러로 변환
+  toApiError(error: unknown): ApiError;
+}
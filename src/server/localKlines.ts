@@ -0,0 +1,125 @@
+import { INTERVALS, aggregateCandles } from "../app/lib/intervals";
+import type { ReconcileCandle } from "../app/lib/reconcile";
+import { ApiError } from "./apiError";
+import type { ExchangeInterval } from "./exchanges";
+
+// 로컬 인덱서 GraphQL 주소. 테스트 시 스탠드인 서버로 바꿔 끼울 수 있다
+const LOCAL_GRAPHQL_URL =
+  process.env.LOCAL_GRAPHQL_URL ??
+  `${process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:58001"}/graphql`;
+
+const MINUTE_MS = 60 * 1000;
+
+type KlineModel = {
+  candleTime: string | null;
+  open: string;
+  close: string;
+  high: string;
+  low: string;
+  volume: number | null;
+};
+
+const toCandle = (model: KlineModel): ReconcileCandle | null => {
+  const openTime = model.candleTime ? Date.parse(model.candleTime) : NaN;
+  const candle = {
+    openTime,
+    open: parseFloat(model.open),
+    high: parseFloat(model.high),
+    low: parseFloat(model.low),
+    close: parseFloat(model.close),
+    volume: typeof model.volume === "number" ? model.volume : undefined,
+  };
+  return [
+    candle.openTime,
+    candle.open,
+    candle.high,
+    candle.low,
+    candle.close,
+  ].every(Number.isFinite)
+    ? candle
+    : null;
+};
+
+// 페이지와 같은 GraphQL klines 쿼리로 구간 캔들을 조회 (주/월봉은 일봉을 받아 집계)
+export async function fetchLocalKlines(
+  symbol: string,
+  interval: ExchangeInterval,
+  start: number,
+  end: number
+): Promise<ReconcileCandle[]> {
+  const definition = INTERVALS.find((item) => item.binance === interval);
+  if (!definition) {
+    throw new ApiError(
+      "INVALID_INTERVAL",
+      `interval "${interval}" is not available from the local indexer`,
+      400
+    );
+  }
+
+  const localMinutes = definition.localMinutes;
+  const limit = Math.floor((end - start) / (localMinutes * MINUTE_MS)) + 1;
+
+  let payload: any;
+  try {
+    const response = await fetch(LOCAL_GRAPHQL_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({
+        query: `query Klines($input: KlineInput!) {
+          klines(input: $input) {
+            candleTime
+            open
+            close
+            high
+            low
+            volume
+          }
+        }`,
+        variables: {
+          input: {
+            symbol,
+            intervalMin: localMinutes,
+            limit,
+            start: new Date(start).toISOString(),
+            end: new Date(end).toISOString(),
+          },
+        },
+      }),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      throw new Error(`status ${response.status}`);
+    }
+    payload = await response.json();
+  } catch (error) {
+    throw new ApiError(
+      "UPSTREAM_ERROR",
+      `Local indexer request failed (${
+        error instanceof Error ? error.message : String(error)
+      })`,
+      502
+    );
+  }
+
+  if (payload?.errors?.length) {
+    throw new ApiError(
+      "UPSTREAM_ERROR",
+      `Local indexer returned errors: ${payload.errors
+        .map((item: any) => item.message)
+        .join(", ")}`,
+      502
+    );
+  }
+
+  const candles = ((payload?.data?.klines ?? []) as KlineModel[])
+    .map(toCandle)
+    .filter((candle): candle is ReconcileCandle => candle !== null)
+    .sort((a, b) => a.openTime - b.openTime);
+
+  return localMinutes === definition.minutes
+    ? candles
+    : aggregateCandles(candles, definition.minutes);
+}
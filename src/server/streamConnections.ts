@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto";
+import { ApiError, parseInterval, parseSymbol } from "./apiSchema";
+import type {
+  ExchangeAdapter,
+  ExchangeCandle,
+  ExchangeInterval,
+} from "./exchanges";
+
+// 한 SSE 연결에서 구독할 수 있는 최대 스트림 수
+export const MAX_STREAMS_PER_CONNECTION = 50;
+
+export type StreamSpec = {
+  key: string;
+  symbol: string;
+  interval: ExchangeInterval;
+};
+
+type StreamSender = (stream: string, candle: ExchangeCandle) => void;
+
+// 연결 하나는 한 거래소의 스트림만 구독한다
+type StreamConnection = {
+  adapter: ExchangeAdapter;
+  send: StreamSender;
+  subscriptions: Map<string, () => void>;
+};
+
+const connections = new Map<string, StreamConnection>();
+
+export const toStreamKey = (symbol: string, interval: ExchangeInterval) =>
+  `${symbol.toUpperCase()}@${interval}`;
+
+// "BTCUSDT@1m,ETHUSDT@5m" 형식의 스트림 목록 파싱 (형식이 잘못되면 ApiError)
+export function parseStreamList(
+  value: string,
+  adapter: ExchangeAdapter
+): StreamSpec[] {
+  const specs: StreamSpec[] = [];
+
+  for (const item of value.split(",")) {
+    const trimmed = item.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const [symbolPart, intervalPart, ...rest] = trimmed.split("@");
+    if (rest.length > 0) {
+      throw new ApiError(
+        "INVALID_PARAMETER",
+        `stream "${trimmed}" must be in SYMBOL@interval form`,
+        400
+      );
+    }
+
+    const symbol = parseSymbol(
+      symbolPart || null,
+      `stream "${trimmed}" symbol`
+    );
+    const interval = parseInterval(
+      intervalPart || null,
+      `stream "${trimmed}" interval`,
+      adapter.intervals
+    );
+    const key = toStreamKey(symbol, interval);
+    if (!specs.some((spec) => spec.key === key)) {
+      specs.push({ key, symbol, interval });
+    }
+  }
+
+  if (specs.length > MAX_STREAMS_PER_CONNECTION) {
+    throw new ApiError(
+      "INVALID_PARAMETER",
+      `At most ${MAX_STREAMS_PER_CONNECTION} streams can be subscribed on one connection`,
+      400
+    );
+  }
+
+  return specs;
+}
+
+export function openStreamConnection(
+  adapter: ExchangeAdapter,
+  send: StreamSender
+): string {
+  const id = randomUUID();
+  connections.set(id, { adapter, send, subscriptions: new Map() });
+  return id;
+}
+
+export function hasStreamConnection(
+  id: string,
+  adapter: ExchangeAdapter
+): boolean {
+  return connections.get(id)?.adapter.id === adapter.id;
+}
+
+export function getConnectionStreams(id: string): string[] {
+  const connection = connections.get(id);
+  return connection ? Array.from(connection.subscriptions.keys()) : [];
+}
+
+export function addConnectionStreams(id: string, specs: StreamSpec[]): void {
+  const connection = connections.get(id);
+  if (!connection) {
+    return;
+  }
+
+  for (const spec of specs) {
+    if (connection.subscriptions.has(spec.key)) {
+      continue;
+    }
+    if (connection.subscriptions.size >= MAX_STREAMS_PER_CONNECTION) {
+      break;
+    }
+
+    const unsubscribe = connection.adapter.subscribeCandles(
+      spec.symbol,
+      spec.interval,
+      (candle) => connection.send(spec.key, candle)
+    );
+    connection.subscriptions.set(spec.key, unsubscribe);
+  }
+}
+
+export function removeConnectionStreams(id: string, keys: string[]): void {
+  const connection = connections.get(id);
+  if (!connection) {
+    return;
+  }
+
+  for (const key of keys) {
+    connection.subscriptions.get(key)?.();
+    connection.subscriptions.delete(key);
+  }
+}
+
+export function closeStreamConnection(id: string): void {
+  const connection = connections.get(id);
+  if (!connection) {
+    return;
+  }
+
+  connection.subscriptions.forEach((unsubscribe) => unsubscribe());
+  connection.subscriptions.clear();
+  connections.delete(id);
+}
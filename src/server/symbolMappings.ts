@@ -0,0 +1,236 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ApiError } from "./apiError";
+import type { ExchangeAdapter, ExchangeMarket } from "./exchanges";
+
+export type SymbolMapping = {
+  localSymbol: string;
+  exchange: string;
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  // 로컬 시세의 호가 통화. 거래소 quoteAsset과 다르면 비교 시 FX 환산이 필요하다
+  localQuoteAsset: string | null;
+  source: "saved" | "suggested";
+};
+
+type StoredSymbolMapping = Omit<SymbolMapping, "source">;
+
+const MAPPINGS_FILE =
+  process.env.SYMBOL_MAPPINGS_FILE ??
+  path.join(process.cwd(), ".data", "symbol-mappings.json");
+
+// 로컬 심볼 끝에 붙는 호가 통화 후보 (긴 것부터 비교해야 FDUSD가 USD로 잘리지 않는다)
+const KNOWN_QUOTE_ASSETS = [
+  "FDUSD",
+  "USDT",
+  "USDC",
+  "TUSD",
+  "KRW",
+  "EUR",
+  "TRY",
+  "BTC",
+  "ETH",
+  "BNB",
+];
+// 거래소에 로컬 호가 통화 마켓이 없을 때 대신 추천할 호가 통화 (예: KRW → USDT)
+const FALLBACK_QUOTE_ASSETS = ["USDT", "USDC", "FDUSD"];
+const MAX_SUGGESTIONS = 10;
+
+let mappingsPromise: Promise<Map<string, StoredSymbolMapping>> | null = null;
+
+const toMappingKey = (exchange: string, localSymbol: string) =>
+  `${exchange}:${localSymbol}`;
+
+async function loadMappings(): Promise<Map<string, StoredSymbolMapping>> {
+  if (!mappingsPromise) {
+    mappingsPromise = fs
+      .readFile(MAPPINGS_FILE, "utf8")
+      .then((content) => JSON.parse(content) as StoredSymbolMapping[])
+      .catch((error): StoredSymbolMapping[] => {
+        if (error?.code !== "ENOENT") {
+          console.error("Failed to read symbol mappings", error);
+        }
+        return [];
+      })
+      .then(
+        (items) =>
+          new Map(
+            items.map((item) => [
+              toMappingKey(item.exchange, item.localSymbol),
+              item,
+            ])
+          )
+      );
+  }
+  return mappingsPromise;
+}
+
+async function persistMappings(mappings: Map<string, StoredSymbolMapping>) {
+  await fs.mkdir(path.dirname(MAPPINGS_FILE), { recursive: true });
+  await fs.writeFile(
+    MAPPINGS_FILE,
+    JSON.stringify(Array.from(mappings.values()), null, 2)
+  );
+}
+
+// BTC-KRW, ETH/BTC, BTCFDUSD 같은 로컬 심볼 id를 기준/호가 자산으로 분리
+export function splitLocalSymbol(localSymbol: string): {
+  baseAsset: string;
+  quoteAsset: string | null;
+} {
+  const cleaned = localSymbol.trim().toUpperCase();
+  const parts = cleaned.split(/[-/_:]/).filter(Boolean);
+
+  if (parts.length === 2) {
+    return { baseAsset: parts[0], quoteAsset: parts[1] };
+  }
+
+  const compact = cleaned.replace(/[^A-Z0-9]/g, "");
+  const quoteAsset = KNOWN_QUOTE_ASSETS.find(
+    (quote) => compact.length > quote.length && compact.endsWith(quote)
+  );
+
+  return quoteAsset
+    ? { baseAsset: compact.slice(0, -quoteAsset.length), quoteAsset }
+    : { baseAsset: compact, quoteAsset: null };
+}
+
+const toMapping = (
+  adapter: ExchangeAdapter,
+  localSymbol: string,
+  market: ExchangeMarket,
+  localQuoteAsset: string | null
+): StoredSymbolMapping => ({
+  localSymbol,
+  exchange: adapter.id,
+  symbol: market.symbol,
+  baseAsset: market.baseAsset,
+  quoteAsset: market.quoteAsset,
+  localQuoteAsset:
+    localQuoteAsset && localQuoteAsset !== market.quoteAsset
+      ? localQuoteAsset
+      : null,
+});
+
+export async function getSymbolMapping(
+  exchange: string,
+  localSymbol: string
+): Promise<SymbolMapping | null> {
+  const stored = (await loadMappings()).get(
+    toMappingKey(exchange, localSymbol)
+  );
+  return stored ? { ...stored, source: "saved" } : null;
+}
+
+export async function listSymbolMappings(
+  exchange: string
+): Promise<SymbolMapping[]> {
+  const mappings = await loadMappings();
+  return Array.from(mappings.values())
+    .filter((item) => item.exchange === exchange)
+    .map((item) => ({ ...item, source: "saved" as const }));
+}
+
+// 거래소 상장 목록에서 로컬 심볼에 맞는 마켓을 우선순위대로 추천
+// 1) 같은 호가 통화 2) USDT 등 대체 호가 통화 (FX 환산 필요) 3) 그 외 같은 기준 자산 마켓
+export async function suggestSymbolMappings(
+  adapter: ExchangeAdapter,
+  localSymbol: string
+): Promise<SymbolMapping[]> {
+  const markets = await adapter.listMarkets();
+  const { baseAsset, quoteAsset } = splitLocalSymbol(localSymbol);
+  const candidates = markets.filter(
+    (market) => market.active && market.baseAsset === baseAsset
+  );
+
+  const ordered = [
+    ...candidates.filter((market) => market.quoteAsset === quoteAsset),
+    ...FALLBACK_QUOTE_ASSETS.flatMap((quote) =>
+      candidates.filter((market) => market.quoteAsset === quote)
+    ),
+    ...candidates,
+  ];
+
+  return Array.from(new Set(ordered))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((market) => ({
+      ...toMapping(adapter, localSymbol, market, quoteAsset),
+      source: "suggested" as const,
+    }));
+}
+
+// 저장된 매핑을 우선 사용하고, 없으면 첫 번째 추천 마켓을 사용
+export async function resolveSymbolMapping(
+  adapter: ExchangeAdapter,
+  localSymbol: string
+): Promise<SymbolMapping> {
+  const saved = await getSymbolMapping(adapter.id, localSymbol);
+  if (saved) {
+    return saved;
+  }
+
+  const [suggested] = await suggestSymbolMappings(adapter, localSymbol);
+  if (!suggested) {
+    throw new ApiError(
+      "UNKNOWN_SYMBOL",
+      `No ${adapter.name} market matches "${localSymbol}". Add a symbol mapping.`,
+      404
+    );
+  }
+  return suggested;
+}
+
+// 거래소 상장 목록으로 검증한 뒤 저장 (localQuoteAsset을 생략하면 로컬 심볼에서 추정)
+export async function saveSymbolMapping(
+  adapter: ExchangeAdapter,
+  localSymbol: string,
+  symbol: string,
+  localQuoteAsset?: string | null
+): Promise<SymbolMapping> {
+  const normalized = adapter.normalizeSymbol(symbol);
+  const market = (await adapter.listMarkets()).find(
+    (item) => item.symbol === normalized
+  );
+
+  if (!market) {
+    throw new ApiError(
+      "UNKNOWN_SYMBOL",
+      `${adapter.name} has no market named "${symbol}"`,
+      404
+    );
+  }
+  if (!market.active) {
+    throw new ApiError(
+      "INVALID_SYMBOL",
+      `${adapter.name} market "${market.symbol}" is not trading`,
+      400
+    );
+  }
+
+  const stored = toMapping(
+    adapter,
+    localSymbol,
+    market,
+    localQuoteAsset === undefined
+      ? splitLocalSymbol(localSymbol).quoteAsset
+      : localQuoteAsset?.toUpperCase() ?? null
+  );
+  const mappings = await loadMappings();
+  mappings.set(toMappingKey(adapter.id, localSymbol), stored);
+  await persistMappings(mappings);
+
+  return { ...stored, source: "saved" };
+}
+
+export async function deleteSymbolMapping(
+  exchange: string,
+  localSymbol: string
+): Promise<boolean> {
+  const mappings = await loadMappings();
+  const deleted = mappings.delete(toMappingKey(exchange, localSymbol));
+  if (deleted) {
+    await persistMappings(mappings);
+  }
+  return deleted;
+}